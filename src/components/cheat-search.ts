@@ -0,0 +1,219 @@
+/**
+ * 金手指查找面板
+ * 拍快照后按比较条件逐次筛选候选地址，剩下的地址可以直接做成金手指或加入内存观察
+ */
+
+import type { MemorySnapshot } from '@/emulator/memory';
+import { MemorySearch, type SearchComparison } from '@/emulator/search';
+import type { MemoryWatch } from '@/types';
+import { parseNumber } from './memory-viewer';
+
+/** 查找面板需要的操作（由 main.ts 接到模拟器与内存查看面板） */
+export interface CheatSearchCallbacks {
+  readMemory: () => Promise<MemorySnapshot>;
+  addCheat: (code: string, name: string) => Promise<void>;
+  addWatch: (watch: MemoryWatch) => Promise<void>;
+}
+
+/** 候选地址不多于此数时列出并实时刷新 */
+const MAX_RESULTS = 100;
+const REFRESH_INTERVAL_MS = 250;
+
+const COMPARISONS: { id: Exclude<SearchComparison, 'value'>; label: string; title: string }[] = [
+  { id: 'equal', label: '=', title: '没有变化' },
+  { id: 'changed', label: '≠', title: '发生变化' },
+  { id: 'increased', label: '↑', title: '变大' },
+  { id: 'decreased', label: '↓', title: '变小' },
+];
+
+const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+
+export class CheatSearchPanel {
+  private container: HTMLElement | null = null;
+  private search = new MemorySearch();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private busy = false;
+  /** 已列出的是第几轮筛选的结果；轮次不变时只更新数值，不重建列表 */
+  private round = 0;
+  private renderedRound = -1;
+
+  constructor(private callbacks: CheatSearchCallbacks) {}
+
+  show(parent: HTMLElement): void {
+    this.hide();
+    this.container = document.createElement('div');
+    this.container.className = 'memview';
+    this.container.innerHTML = this.buildHTML();
+    parent.appendChild(this.container);
+    this.bind();
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), REFRESH_INTERVAL_MS);
+  }
+
+  hide(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.container?.remove();
+    this.container = null;
+    this.renderedRound = -1;
+  }
+
+  /** 放弃当前搜索（切换游戏时调用） */
+  reset(): void {
+    this.search.clear();
+    this.round++;
+    void this.refresh();
+  }
+
+  private buildHTML(): string {
+    return `
+      <div class="memview-toolbar">
+        <button class="keys-modal-btn keys-modal-btn-primary" data-search="start">新搜索</button>
+        <label class="memview-hint"><input type="checkbox" data-role="sram" /> 包含卡带 RAM</label>
+      </div>
+      <div class="keys-modal-hint">
+        先拍快照，再根据游戏中的变化（如掉了一条命）选择比较条件，与上一次快照比较后缩小范围
+      </div>
+      <div class="search-filters">
+        ${COMPARISONS.map((c) => `
+          <button class="keys-modal-btn" data-search="${c.id}" title="${c.title}">${c.label}</button>
+        `).join('')}
+        <input class="cheats-input search-value" data-role="value" placeholder="值 / $hex" autocomplete="off" />
+        <button class="keys-modal-btn" data-search="value">等于</button>
+      </div>
+      <div class="memview-title" data-role="count"></div>
+      <div class="memview-watches" data-role="results"></div>
+    `;
+  }
+
+  private query<T extends HTMLElement>(role: string): T {
+    return this.container!.querySelector<T>(`[data-role="${role}"]`)!;
+  }
+
+  private bind(): void {
+    const container = this.container!;
+    container.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.closest<HTMLElement>('[data-search]')?.dataset.search;
+      if (action) {
+        this.run(action as SearchComparison | 'start').catch((err) => console.error('Memory search failed:', err));
+        return;
+      }
+      const row = target.closest<HTMLElement>('[data-address]');
+      const use = target.closest<HTMLElement>('[data-use]')?.dataset.use;
+      if (row && use) {
+        this.useResult(Number(row.dataset.address), Number(row.dataset.value), use)
+          .catch((err) => alert(`添加失败：${(err as Error).message}`));
+      }
+    });
+    this.query('value').addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        this.run('value').catch((err) => console.error('Memory search failed:', err));
+      }
+    });
+  }
+
+  private async run(action: SearchComparison | 'start'): Promise<void> {
+    if (this.busy || !this.container) return;
+    let value = 0;
+    if (action === 'value') {
+      const parsed = parseNumber(this.query<HTMLInputElement>('value').value);
+      if (parsed === null) {
+        alert('请输入要查找的数值（十进制，或以 $ 开头的十六进制）');
+        return;
+      }
+      value = parsed;
+    }
+    if (action !== 'start' && !this.search.started) {
+      alert('请先点击"新搜索"拍摄快照');
+      return;
+    }
+
+    this.busy = true;
+    try {
+      const snapshot = await this.callbacks.readMemory();
+      if (action === 'start') {
+        this.search.start(snapshot, this.query<HTMLInputElement>('sram').checked);
+      } else {
+        this.search.filter(snapshot, action, value);
+      }
+      this.round++;
+      this.render(snapshot);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /** 把候选地址做成金手指（锁定为当前值）或加入内存观察 */
+  private async useResult(address: number, value: number, use: string): Promise<void> {
+    const name = `$${hex(address, 4)}`;
+    if (use === 'cheat') {
+      await this.callbacks.addCheat(`${hex(address, 4)}:${hex(value, 2)}`, name);
+    } else {
+      await this.callbacks.addWatch({ address, name, format: 'u8' });
+    }
+  }
+
+  /** 刷新候选地址的当前值 */
+  private async refresh(): Promise<void> {
+    if (this.busy || !this.container) return;
+    if (!this.search.started || this.search.count > MAX_RESULTS) {
+      this.render(null);
+      return;
+    }
+    this.busy = true;
+    try {
+      const snapshot = await this.callbacks.readMemory();
+      this.render(snapshot);
+    } catch (err) {
+      console.error('Memory search refresh failed:', err);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private render(snapshot: MemorySnapshot | null): void {
+    if (!this.container) return;
+    const count = this.query('count');
+    const results = this.query('results');
+    if (!this.search.started) {
+      count.textContent = '尚未开始';
+      results.innerHTML = '';
+      this.renderedRound = -1;
+      return;
+    }
+    count.textContent = `候选地址：${this.search.count}`;
+    if (this.search.count > MAX_RESULTS) {
+      results.innerHTML = `<div class="cheats-empty">超过 ${MAX_RESULTS} 个，继续筛选后列出</div>`;
+      this.renderedRound = -1;
+      return;
+    }
+    if (!snapshot) return;
+    if (this.renderedRound === this.round) {
+      this.updateValues(snapshot);
+      return;
+    }
+    this.renderedRound = this.round;
+    results.innerHTML = this.search.results(snapshot, MAX_RESULTS).map((r) => `
+      <div class="memview-watch" data-address="${r.address}" data-value="${r.current}">
+        <span class="memview-watch-addr">$${hex(r.address, 4)}</span>
+        <span class="search-values">${r.previous} → <b>${r.current}</b></span>
+        <button class="keys-modal-btn" data-use="cheat" title="锁定为当前值">金手指</button>
+        <button class="keys-modal-btn" data-use="watch">观察</button>
+      </div>
+    `).join('');
+  }
+
+  private updateValues(snapshot: MemorySnapshot): void {
+    const rows = this.query('results').querySelectorAll<HTMLElement>('[data-address]');
+    const results = this.search.results(snapshot, MAX_RESULTS);
+    rows.forEach((row, i) => {
+      const r = results[i];
+      if (!r) return;
+      row.dataset.value = String(r.current);
+      row.querySelector('.search-values')!.innerHTML = `${r.previous} → <b>${r.current}</b>`;
+    });
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * CPU 调试面板
+ * PC 附近的反汇编、寄存器与标志位，单步执行（一条指令 / 一帧 / 到某一画面行），
+ * 按地址范围设置执行、读、写断点，并可导出调试模式下的跟踪日志
+ */
+
+import { formatFlags, type Breakpoint, type DebugState, type DebugUntil } from '@/emulator/debugger';
+import type { EmulatorState } from '@/types';
+import { parseAddress } from './memory-viewer';
+
+/** 面板控制调试器所需的接口（由 NesEmulator 实现） */
+export interface DebuggerSource {
+  setDebugMode(enabled: boolean): void;
+  isDebugMode(): boolean;
+  getBreakpoints(): Breakpoint[];
+  setBreakpoints(breakpoints: Breakpoint[]): void;
+  getDebugState(): Promise<DebugState>;
+  debugStep(until: DebugUntil): Promise<DebugState>;
+  exportTrace(): Promise<string>;
+  getState(): EmulatorState;
+  pause(): void;
+  resume(): void;
+}
+
+/** 刷新间隔（ms） */
+const REFRESH_INTERVAL_MS = 200;
+
+const BREAK_TYPES = [
+  { id: 'read', label: 'R' },
+  { id: 'write', label: 'W' },
+  { id: 'execute', label: 'X' },
+] as const;
+
+const STOP_LABELS: Record<string, string> = {
+  instruction: '单步',
+  frame: '帧结束',
+  scanline: '到达画面行',
+};
+
+const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+
+/** 解析地址范围："C000" 或 "C000-C0FF" */
+function parseRange(text: string): { start: number; end: number } | null {
+  const [from, to = from] = text.split('-');
+  const start = parseAddress(from);
+  const end = parseAddress(to);
+  if (start === null || end === null) return null;
+  return { start: Math.min(start, end), end: Math.max(start, end) };
+}
+
+export class CpuDebuggerPanel {
+  private container: HTMLElement | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private busy = false;
+
+  constructor(private source: DebuggerSource) {}
+
+  show(parent: HTMLElement): void {
+    this.hide();
+    this.container = document.createElement('div');
+    this.container.className = 'memview';
+    this.container.innerHTML = this.buildHTML();
+    parent.appendChild(this.container);
+    this.bind();
+    this.renderBreakpoints();
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), REFRESH_INTERVAL_MS);
+  }
+
+  hide(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.container?.remove();
+    this.container = null;
+  }
+
+  private buildHTML(): string {
+    return `
+      <div class="memview-toolbar">
+        <label class="memview-hint">
+          <input type="checkbox" data-role="enabled" ${this.source.isDebugMode() ? 'checked' : ''} /> 调试模式
+        </label>
+        <button class="keys-modal-btn" data-debug="resume">继续</button>
+        <button class="keys-modal-btn" data-debug="pause">暂停</button>
+        <span class="memview-hint" data-role="status"></span>
+      </div>
+      <div class="memview-toolbar">
+        <button class="keys-modal-btn" data-debug="instruction" title="执行一条指令">单步</button>
+        <button class="keys-modal-btn" data-debug="frame" title="运行到本帧结束">单帧</button>
+        <button class="keys-modal-btn" data-debug="scanline">运行到行</button>
+        <input class="cheats-input ppu-scanline" data-role="scanline" type="number" min="-21" max="239" value="0" />
+        <button class="keys-modal-btn" data-debug="trace" title="下载跟踪日志">导出跟踪</button>
+      </div>
+      <div class="debug-registers" data-role="registers"></div>
+      <div class="debug-disasm" data-role="disasm"></div>
+      <div class="memview-title">BREAKPOINTS</div>
+      <div class="memview-watches" data-role="breakpoints"></div>
+      <form class="memview-form" data-role="breakpoint-form">
+        <input class="cheats-input" name="range" placeholder="地址，如 C000 或 0300-03FF" autocomplete="off" />
+        ${BREAK_TYPES.map((t) => `
+          <label class="memview-hint"><input type="checkbox" name="${t.id}" ${t.id === 'execute' ? 'checked' : ''} />
+            ${t.label}</label>
+        `).join('')}
+        <button class="keys-modal-btn keys-modal-btn-primary" type="submit">添加</button>
+      </form>
+      <div class="keys-modal-hint">调试模式下逐条执行指令，断点与跟踪日志只在调试模式下生效</div>
+    `;
+  }
+
+  private query<T extends HTMLElement>(role: string): T {
+    return this.container!.querySelector<T>(`[data-role="${role}"]`)!;
+  }
+
+  private bind(): void {
+    const container = this.container!;
+    const enabled = this.query<HTMLInputElement>('enabled');
+    enabled.addEventListener('change', () => {
+      this.source.setDebugMode(enabled.checked);
+      void this.refresh();
+    });
+
+    container.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.closest<HTMLElement>('[data-debug]')?.dataset.debug;
+      if (action) {
+        this.run(action).catch((err) => alert(`操作失败：${(err as Error).message}`));
+        return;
+      }
+      // 点击反汇编行切换执行断点
+      const line = target.closest<HTMLElement>('[data-line]');
+      if (line) {
+        this.toggleExecuteBreakpoint(Number(line.dataset.line));
+        return;
+      }
+      const row = target.closest<HTMLElement>('[data-breakpoint]');
+      if (row && target.closest('[data-remove]')) {
+        const breakpoints = this.source.getBreakpoints();
+        breakpoints.splice(Number(row.dataset.breakpoint), 1);
+        this.commitBreakpoints(breakpoints);
+      }
+    });
+
+    container.addEventListener('change', (e) => {
+      const input = e.target as HTMLInputElement;
+      const row = input.closest<HTMLElement>('[data-breakpoint]');
+      const field = input.dataset.field as keyof Breakpoint | undefined;
+      if (!row || !field) return;
+      const breakpoints = this.source.getBreakpoints();
+      const breakpoint = breakpoints[Number(row.dataset.breakpoint)];
+      if (field !== 'start' && field !== 'end') breakpoint[field] = input.checked;
+      this.commitBreakpoints(breakpoints);
+    });
+
+    const form = this.query<HTMLFormElement>('breakpoint-form');
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      const fields = form.elements;
+      const range = parseRange((fields.namedItem('range') as HTMLInputElement).value);
+      if (!range) {
+        alert('请输入十六进制地址，如 C000 或 0300-03FF');
+        return;
+      }
+      const checked = (name: string) => (fields.namedItem(name) as HTMLInputElement).checked;
+      const breakpoint: Breakpoint = {
+        ...range, read: checked('read'), write: checked('write'), execute: checked('execute'), enabled: true,
+      };
+      if (!breakpoint.read && !breakpoint.write && !breakpoint.execute) {
+        alert('请至少勾选一种断点（R 读 / W 写 / X 执行）');
+        return;
+      }
+      (fields.namedItem('range') as HTMLInputElement).value = '';
+      this.commitBreakpoints([...this.source.getBreakpoints(), breakpoint]);
+    });
+  }
+
+  private async run(action: string): Promise<void> {
+    switch (action) {
+      case 'resume':
+        this.source.resume();
+        return;
+      case 'pause':
+        this.source.pause();
+        return;
+      case 'trace':
+        this.downloadTrace(await this.source.exportTrace());
+        return;
+    }
+    if (!this.source.isDebugMode()) {
+      alert('请先打开调试模式');
+      return;
+    }
+    if (this.busy) return;
+    const line = Math.floor(Number(this.query<HTMLInputElement>('scanline').value) || 0);
+    const until: DebugUntil = action === 'scanline'
+      ? { scanline: Math.min(239, Math.max(-21, line)) }
+      : action as 'instruction' | 'frame';
+    this.busy = true;
+    try {
+      this.render(await this.source.debugStep(until));
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private toggleExecuteBreakpoint(address: number): void {
+    const breakpoints = this.source.getBreakpoints();
+    const index = breakpoints.findIndex((b) => b.execute && b.start === address && b.end === address);
+    if (index >= 0) {
+      breakpoints.splice(index, 1);
+    } else {
+      breakpoints.push({ start: address, end: address, read: false, write: false, execute: true, enabled: true });
+    }
+    this.commitBreakpoints(breakpoints);
+  }
+
+  private commitBreakpoints(breakpoints: Breakpoint[]): void {
+    this.source.setBreakpoints(breakpoints);
+    this.renderBreakpoints();
+    void this.refresh();
+  }
+
+  private async refresh(): Promise<void> {
+    if (this.busy || !this.container) return;
+    this.busy = true;
+    try {
+      const state = await this.source.getDebugState();
+      if (this.container) this.render(state);
+    } catch (err) {
+      // 尚未加载游戏时没有可显示的内容
+      if (this.container) this.query('status').textContent = (err as Error).message;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private render(state: DebugState): void {
+    if (!this.container) return;
+    const { isRunning, isPaused } = this.source.getState();
+    const stop = state.stop;
+    let status = !isRunning ? '未运行' : isPaused ? '已暂停' : '运行中';
+    if (isPaused && stop) {
+      status += stop.hit
+        ? ` · ${stop.hit.type.toUpperCase()} 断点 $${hex(stop.hit.address, 4)}`
+        : ` · ${STOP_LABELS[stop.reason]}`;
+    }
+    this.query('status').textContent = status;
+
+    const r = state.registers;
+    this.query('registers').innerHTML = `
+      <span>PC <b>$${hex(r.pc, 4)}</b></span>
+      <span>A <b>$${hex(r.a, 2)}</b></span>
+      <span>X <b>$${hex(r.x, 2)}</b></span>
+      <span>Y <b>$${hex(r.y, 2)}</b></span>
+      <span>SP <b>$${hex(r.sp, 2)}</b></span>
+      <span>P <b>${formatFlags(r.p)}</b></span>
+      <span>行 <b>${state.scanline}</b></span>
+      <span>周期 <b>${state.cycle}</b></span>
+    `;
+
+    const breakpoints = this.source.getBreakpoints().filter((b) => b.enabled && b.execute);
+    this.query('disasm').innerHTML = state.disassembly.map((line) => {
+      const marked = breakpoints.some((b) => line.address >= b.start && line.address <= b.end);
+      const classes = ['debug-line', line.address === r.pc ? 'current' : '', marked ? 'breakpoint' : ''];
+      return `
+        <div class="${classes.join(' ')}" data-line="${line.address}">
+          <span class="debug-mark">${marked ? '●' : ''}</span>
+          <span class="memview-addr">$${hex(line.address, 4)}</span>
+          <span class="debug-bytes">${line.bytes.map((b) => hex(b, 2)).join(' ')}</span>
+          <span>${line.text}</span>
+        </div>
+      `;
+    }).join('');
+  }
+
+  private renderBreakpoints(): void {
+    if (!this.container) return;
+    const breakpoints = this.source.getBreakpoints();
+    const list = this.query('breakpoints');
+    if (breakpoints.length === 0) {
+      list.innerHTML = '<div class="cheats-empty">没有断点，点击反汇编中的一行可设置执行断点</div>';
+      return;
+    }
+    list.innerHTML = breakpoints.map((b, i) => `
+      <div class="memview-watch" data-breakpoint="${i}">
+        <input type="checkbox" data-field="enabled" ${b.enabled ? 'checked' : ''} title="启用" />
+        <span class="memview-watch-addr debug-range">
+          $${hex(b.start, 4)}${b.end !== b.start ? `-$${hex(b.end, 4)}` : ''}
+        </span>
+        ${BREAK_TYPES.map((t) => `
+          <label class="memview-hint"><input type="checkbox" data-field="${t.id}" ${b[t.id] ? 'checked' : ''} />
+            ${t.label}</label>
+        `).join('')}
+        <button class="keys-modal-btn" data-remove title="删除">&times;</button>
+      </div>
+    `).join('');
+  }
+
+  private downloadTrace(text: string): void {
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'trace.log';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
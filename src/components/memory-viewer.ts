@@ -0,0 +1,330 @@
+/**
+ * 内存查看面板
+ * 以十六进制网格实时显示内部 RAM / 卡带 RAM，最近改动的字节高亮；
+ * 观察列表按格式显示指定地址的数值，网格与观察值都可以直接改写
+ */
+
+import {
+  encodeWatch, isRamAddress, RAM_SIZE, readWatch, watchSize, type MemorySnapshot,
+} from '@/emulator/memory';
+import type { MemoryWatch, WatchFormat } from '@/types';
+
+/** 面板读写内存所需的接口（由 NesEmulator 实现） */
+export interface MemorySource {
+  readMemory(): Promise<MemorySnapshot>;
+  writeMemory(address: number, data: number[]): void;
+  listWatches(): Promise<MemoryWatch[]>;
+  saveWatches(watches: MemoryWatch[]): Promise<void>;
+}
+
+/** 刷新间隔（ms） */
+const REFRESH_INTERVAL_MS = 100;
+/** 字节改动后保持高亮的时间（ms） */
+const CHANGE_HIGHLIGHT_MS = 1000;
+const BYTES_PER_ROW = 16;
+
+const WATCH_FORMATS: WatchFormat[] = ['u8', 's8', 'u16', 's16'];
+
+/** 可查看的内存区域 */
+const REGIONS = {
+  ram: { label: 'RAM $0000-$07FF', start: 0x0000, size: RAM_SIZE },
+  sram: { label: 'SRAM $6000-$7FFF', start: 0x6000, size: 0x2000 },
+} as const;
+
+type RegionId = keyof typeof REGIONS;
+
+const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+
+/** 解析输入的数值：$ 或 0x 开头为十六进制，否则为十进制；无效时返回 null */
+export function parseNumber(text: string): number | null {
+  const s = text.trim();
+  const match = /^(?:\$|0x)([0-9a-f]+)$/i.exec(s);
+  const value = match ? parseInt(match[1], 16) : /^-?\d+$/.test(s) ? Number(s) : NaN;
+  return Number.isNaN(value) ? null : value;
+}
+
+/** 解析地址：默认按十六进制，可带 $ 或 0x 前缀 */
+export function parseAddress(text: string): number | null {
+  const match = /^(?:\$|0x)?([0-9a-f]{1,4})$/i.exec(text.trim());
+  return match ? parseInt(match[1], 16) : null;
+}
+
+export class MemoryViewer {
+  private container: HTMLElement | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private refreshing = false;
+  private region: RegionId = 'ram';
+  private watches: MemoryWatch[] = [];
+
+  /** 上一次读到的内存，用于找出改动的字节 */
+  private previous: MemorySnapshot | null = null;
+  /** 各字节最近一次改动的时间 */
+  private changedAt = { ram: new Float64Array(RAM_SIZE), sram: new Float64Array(0x2000) };
+  /** 网格中正在编辑的字节地址 */
+  private editing: number | null = null;
+
+  constructor(private source: MemorySource) {}
+
+  show(parent: HTMLElement): void {
+    this.hide();
+    this.container = document.createElement('div');
+    this.container.className = 'memview';
+    this.container.innerHTML = this.buildHTML();
+    parent.appendChild(this.container);
+    this.bind();
+    this.buildGrid();
+
+    this.source.listWatches()
+      .then((watches) => {
+        this.watches = watches;
+        this.renderWatches();
+      })
+      .catch((err) => console.error('Failed to load watches:', err));
+
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), REFRESH_INTERVAL_MS);
+  }
+
+  hide(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.container?.remove();
+    this.container = null;
+    this.previous = null;
+    this.editing = null;
+  }
+
+  /** 加入一个观察地址并保存（面板未打开时也可调用） */
+  async addWatch(watch: MemoryWatch): Promise<void> {
+    if (!this.container) {
+      this.watches = await this.source.listWatches();
+    }
+    this.watches.push(watch);
+    this.renderWatches();
+    await this.source.saveWatches(this.watches);
+  }
+
+  private buildHTML(): string {
+    return `
+      <div class="memview-toolbar">
+        <select class="memview-select" data-role="region">
+          ${Object.entries(REGIONS).map(([id, r]) => `<option value="${id}">${r.label}</option>`).join('')}
+        </select>
+        <span class="memview-hint">点击字节直接改写</span>
+      </div>
+      <div class="memview-grid" data-role="grid"></div>
+      <div class="memview-title">WATCH</div>
+      <div class="memview-watches" data-role="watches"></div>
+      <form class="memview-form" data-role="watch-form">
+        <input class="cheats-input memview-form-addr" name="address" placeholder="$0032" autocomplete="off" />
+        <input class="cheats-input" name="name" placeholder="名称" autocomplete="off" />
+        <select class="memview-select" name="format">
+          ${WATCH_FORMATS.map((f) => `<option value="${f}">${f}</option>`).join('')}
+        </select>
+        <button class="keys-modal-btn keys-modal-btn-primary" type="submit">观察</button>
+      </form>
+    `;
+  }
+
+  private query<T extends HTMLElement>(role: string): T {
+    return this.container!.querySelector<T>(`[data-role="${role}"]`)!;
+  }
+
+  private bind(): void {
+    const regionSelect = this.query<HTMLSelectElement>('region');
+    regionSelect.addEventListener('change', () => {
+      this.region = regionSelect.value as RegionId;
+      this.editing = null;
+      this.buildGrid();
+      if (this.previous) this.renderGrid(this.previous, performance.now());
+    });
+
+    // 点击字节：原地编辑
+    this.query('grid').addEventListener('click', (e) => {
+      const cell = (e.target as HTMLElement).closest<HTMLElement>('[data-addr]');
+      if (cell && this.editing === null) this.editByte(cell);
+    });
+
+    const form = this.query<HTMLFormElement>('watch-form');
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement).value;
+      const address = parseAddress(field('address'));
+      if (address === null || !isRamAddress(address)) {
+        alert('请输入 RAM（$0000-$07FF）或卡带 RAM（$6000-$7FFF）中的地址');
+        return;
+      }
+      const watch: MemoryWatch = {
+        address,
+        name: field('name').trim() || `$${hex(address, 4)}`,
+        format: field('format') as WatchFormat,
+      };
+      form.reset();
+      this.addWatch(watch)
+        .catch((err) => console.error('Failed to save watches:', err));
+    });
+
+    const watchList = this.query('watches');
+    watchList.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement | HTMLSelectElement;
+      const index = Number(target.closest<HTMLElement>('[data-watch]')?.dataset.watch);
+      const watch = this.watches[index];
+      if (!watch) return;
+
+      if (target.dataset.field === 'value') {
+        const value = parseNumber(target.value);
+        if (value !== null) this.source.writeMemory(watch.address, encodeWatch(watch.format, value));
+        target.blur();
+        return;
+      }
+      if (target.dataset.field === 'format') {
+        watch.format = target.value as WatchFormat;
+      } else if (target.dataset.field === 'name') {
+        watch.name = target.value.trim() || `$${hex(watch.address, 4)}`;
+      }
+      this.source.saveWatches(this.watches).catch((err) => console.error('Failed to save watches:', err));
+    });
+    watchList.addEventListener('click', (e) => {
+      const btn = (e.target as HTMLElement).closest<HTMLElement>('[data-watch-action="delete"]');
+      const index = Number(btn?.closest<HTMLElement>('[data-watch]')?.dataset.watch);
+      if (!btn || !this.watches[index]) return;
+      this.watches.splice(index, 1);
+      this.renderWatches();
+      this.source.saveWatches(this.watches).catch((err) => console.error('Failed to save watches:', err));
+    });
+  }
+
+  /** 按当前区域重建网格（只建一次，之后逐字节更新） */
+  private buildGrid(): void {
+    const { start, size } = REGIONS[this.region];
+    const rows: string[] = [];
+    for (let offset = 0; offset < size; offset += BYTES_PER_ROW) {
+      let cells = '';
+      for (let i = 0; i < BYTES_PER_ROW; i++) {
+        cells += `<span class="memview-byte" data-addr="${start + offset + i}">--</span>`;
+      }
+      rows.push(`<div class="memview-row"><span class="memview-addr">${hex(start + offset, 4)}</span>${cells}</div>`);
+    }
+    this.query('grid').innerHTML = rows.join('');
+  }
+
+  private async refresh(): Promise<void> {
+    if (this.refreshing || !this.container) return;
+    this.refreshing = true;
+    try {
+      const snapshot = await this.source.readMemory();
+      if (!this.container) return;
+      const now = performance.now();
+      if (this.previous) {
+        this.markChanges(this.previous.ram, snapshot.ram, this.changedAt.ram, now);
+        this.markChanges(this.previous.sram, snapshot.sram, this.changedAt.sram, now);
+      }
+      this.previous = snapshot;
+      this.renderGrid(snapshot, now);
+      this.updateWatchValues(snapshot);
+    } catch (err) {
+      console.error('Memory refresh failed:', err);
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private markChanges(before: Uint8Array, after: Uint8Array, changedAt: Float64Array, now: number): void {
+    for (let i = 0; i < after.length; i++) {
+      if (before[i] !== after[i]) changedAt[i] = now;
+    }
+  }
+
+  private renderGrid(snapshot: MemorySnapshot, now: number): void {
+    const data = snapshot[this.region];
+    const changedAt = this.changedAt[this.region];
+    const cells = this.query('grid').children;
+    for (let row = 0; row < cells.length; row++) {
+      const rowCells = cells[row].children;
+      for (let i = 0; i < BYTES_PER_ROW; i++) {
+        const offset = row * BYTES_PER_ROW + i;
+        const cell = rowCells[i + 1] as HTMLElement;
+        if (this.editing === REGIONS[this.region].start + offset) continue;
+        const text = hex(data[offset], 2);
+        if (cell.textContent !== text) cell.textContent = text;
+        const changed = changedAt[offset] > 0 && now - changedAt[offset] < CHANGE_HIGHLIGHT_MS;
+        if (cell.classList.contains('changed') !== changed) cell.classList.toggle('changed', changed);
+      }
+    }
+  }
+
+  /** 将字节替换为输入框，回车写入、Esc 或失焦取消 */
+  private editByte(cell: HTMLElement): void {
+    const address = Number(cell.dataset.addr);
+    this.editing = address;
+    const input = document.createElement('input');
+    input.className = 'memview-edit';
+    input.maxLength = 2;
+    input.value = cell.textContent ?? '';
+    cell.textContent = '';
+    cell.appendChild(input);
+    input.focus();
+    input.select();
+
+    const finish = (commit: boolean) => {
+      if (this.editing !== address) return;
+      this.editing = null;
+      const value = parseInt(input.value, 16);
+      if (commit && /^[0-9a-f]{1,2}$/i.test(input.value)) {
+        this.source.writeMemory(address, [value]);
+        cell.textContent = hex(value, 2);
+      } else {
+        cell.textContent = input.defaultValue;
+      }
+    };
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') finish(true);
+      else if (e.key === 'Escape') {
+        // 不让 Esc 关闭播放器
+        e.stopPropagation();
+        finish(false);
+      }
+    });
+    input.addEventListener('blur', () => finish(false));
+  }
+
+  private renderWatches(): void {
+    if (!this.container) return;
+    const list = this.query('watches');
+    if (this.watches.length === 0) {
+      list.innerHTML = '<div class="cheats-empty">还没有观察地址</div>';
+      return;
+    }
+    list.innerHTML = this.watches.map((watch, index) => `
+      <div class="memview-watch" data-watch="${index}">
+        <input class="cheats-input cheats-name" data-field="name" />
+        <span class="memview-watch-addr">$${hex(watch.address, 4)}</span>
+        <select class="memview-select" data-field="format">
+          ${WATCH_FORMATS.map((f) => `<option value="${f}" ${f === watch.format ? 'selected' : ''}>${f}</option>`).join('')}
+        </select>
+        <input class="cheats-input memview-watch-value" data-field="value" />
+        <button class="keys-modal-btn" data-watch-action="delete">&times;</button>
+      </div>
+    `).join('');
+    // 名称为用户输入，通过属性赋值而不是拼接 HTML
+    list.querySelectorAll<HTMLInputElement>('[data-field="name"]').forEach((input, i) => {
+      input.value = this.watches[i].name;
+    });
+    if (this.previous) this.updateWatchValues(this.previous);
+  }
+
+  private updateWatchValues(snapshot: MemorySnapshot): void {
+    const inputs = this.query('watches').querySelectorAll<HTMLInputElement>('[data-field="value"]');
+    inputs.forEach((input, i) => {
+      const watch = this.watches[i];
+      // 正在输入时不覆盖
+      if (!watch || document.activeElement === input) return;
+      const value = readWatch(snapshot, watch);
+      const size = watchSize(watch.format);
+      const text = `${value} ($${hex(value & (size === 2 ? 0xffff : 0xff), size * 2)})`;
+      if (input.value !== text) input.value = text;
+    });
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * PPU 查看面板
+ * 显示两张图案表（可选调色板）、四张名称表及当前卷动视口、64 个 OAM 精灵与调色板，
+ * 可选择在帧结束时或某条画面行结束时拍摄，用于排查 mapper 相关的画面问题
+ */
+
+import {
+  NAMETABLE_HEIGHT, NAMETABLE_WIDTH, PATTERN_HEIGHT, PATTERN_WIDTH, SPRITE_SHEET_HEIGHT, SPRITE_SHEET_WIDTH,
+  type PpuCaptureOptions, type PpuSnapshot,
+} from '@/emulator/ppu-inspect';
+
+/** 面板读取 PPU 状态所需的接口（由 NesEmulator 实现） */
+export interface PpuSource {
+  capturePpu(options: PpuCaptureOptions, scanline: number | null): Promise<PpuSnapshot>;
+}
+
+/** 刷新间隔（ms） */
+const REFRESH_INTERVAL_MS = 200;
+
+const PALETTE_LABELS = ['BG 0', 'BG 1', 'BG 2', 'BG 3', 'SPR 0', 'SPR 1', 'SPR 2', 'SPR 3'];
+
+const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+
+export class PpuViewer {
+  private container: HTMLElement | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private refreshing = false;
+  private palette = 0;
+  /** 拍摄的画面行，null 为帧结束时 */
+  private scanline: number | null = null;
+
+  constructor(private source: PpuSource) {}
+
+  show(parent: HTMLElement): void {
+    this.hide();
+    this.container = document.createElement('div');
+    this.container.className = 'memview';
+    this.container.innerHTML = this.buildHTML();
+    parent.appendChild(this.container);
+    this.bind();
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), REFRESH_INTERVAL_MS);
+  }
+
+  hide(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.container?.remove();
+    this.container = null;
+  }
+
+  private buildHTML(): string {
+    return `
+      <div class="memview-toolbar">
+        <select class="memview-select" data-role="capture">
+          <option value="frame">帧结束时</option>
+          <option value="scanline">画面行结束时</option>
+        </select>
+        <input class="cheats-input ppu-scanline" data-role="scanline" type="number" min="0" max="239" value="120"
+          disabled />
+        <span class="memview-hint" data-role="status"></span>
+      </div>
+      <div class="memview-toolbar">
+        <span class="memview-title">PATTERN</span>
+        <select class="memview-select" data-role="palette">
+          ${PALETTE_LABELS.map((label, i) => `<option value="${i}">${label}</option>`).join('')}
+        </select>
+      </div>
+      <canvas class="ppu-canvas" data-role="patterns" width="${PATTERN_WIDTH}" height="${PATTERN_HEIGHT}"></canvas>
+      <div class="memview-title">NAMETABLE</div>
+      <canvas class="ppu-canvas" data-role="nametables" width="${NAMETABLE_WIDTH}" height="${NAMETABLE_HEIGHT}"></canvas>
+      <div class="memview-title">PALETTE</div>
+      <div class="ppu-palettes" data-role="palettes"></div>
+      <div class="memview-title">OAM</div>
+      <div class="ppu-oam">
+        <canvas class="ppu-canvas ppu-sprites" data-role="sprites"
+          width="${SPRITE_SHEET_WIDTH}" height="${SPRITE_SHEET_HEIGHT}"></canvas>
+        <div class="ppu-oam-list" data-role="oam"></div>
+      </div>
+    `;
+  }
+
+  private query<T extends HTMLElement>(role: string): T {
+    return this.container!.querySelector<T>(`[data-role="${role}"]`)!;
+  }
+
+  private bind(): void {
+    const capture = this.query<HTMLSelectElement>('capture');
+    const scanline = this.query<HTMLInputElement>('scanline');
+    const updateScanline = () => {
+      scanline.disabled = capture.value === 'frame';
+      const line = Math.min(239, Math.max(0, Math.floor(Number(scanline.value) || 0)));
+      this.scanline = capture.value === 'frame' ? null : line;
+    };
+    capture.addEventListener('change', updateScanline);
+    scanline.addEventListener('change', updateScanline);
+
+    const palette = this.query<HTMLSelectElement>('palette');
+    palette.addEventListener('change', () => {
+      this.palette = Number(palette.value);
+    });
+  }
+
+  private async refresh(): Promise<void> {
+    if (this.refreshing || !this.container) return;
+    this.refreshing = true;
+    try {
+      const snapshot = await this.source.capturePpu({ palette: this.palette }, this.scanline);
+      if (this.container) this.render(snapshot);
+    } catch (err) {
+      // 尚未加载游戏时没有可显示的内容
+      if (this.container) this.query('status').textContent = (err as Error).message;
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private render(snapshot: PpuSnapshot): void {
+    this.query('status').textContent = snapshot.scanline === null ? '' : `第 ${snapshot.scanline} 行`;
+    this.drawImage('patterns', snapshot.patternTables, PATTERN_WIDTH, PATTERN_HEIGHT);
+
+    const ctx = this.drawImage('nametables', snapshot.nameTables, NAMETABLE_WIDTH, NAMETABLE_HEIGHT);
+    // 卷动视口：超出右/下边缘时在对侧继续绘制
+    ctx.strokeStyle = '#e60012';
+    ctx.lineWidth = 2;
+    for (const dx of [0, -NAMETABLE_WIDTH]) {
+      for (const dy of [0, -NAMETABLE_HEIGHT]) {
+        ctx.strokeRect(snapshot.scrollX + dx + 1, snapshot.scrollY + dy + 1, 254, 238);
+      }
+    }
+
+    this.query('palettes').innerHTML = snapshot.palettes.map((color, i) => `
+      <span class="ppu-swatch" style="background:#${hex(color & 0xffffff, 6)}"
+        title="${i < 16 ? 'BG' : 'SPR'} ${(i >> 2) & 3}.${i & 3}  #${hex(color & 0xffffff, 6)}"></span>
+    `).join('');
+
+    this.drawImage('sprites', snapshot.spriteSheet, SPRITE_SHEET_WIDTH, SPRITE_SHEET_HEIGHT);
+    this.query('oam').innerHTML = `
+      <div class="ppu-oam-row ppu-oam-head"><span>#</span><span>X</span><span>Y</span><span>TILE</span>
+        <span>ATTR</span><span>FLAGS</span></div>
+      ${snapshot.sprites.map((s, i) => `
+        <div class="ppu-oam-row ${s.y >= 0xef ? 'hidden' : ''}">
+          <span>${i}</span><span>${s.x}</span><span>${s.y}</span><span>$${hex(s.tile, 2)}</span>
+          <span>$${hex(s.attributes, 2)}</span>
+          <span>P${s.palette}${s.flipH ? ' H' : ''}${s.flipV ? ' V' : ''}${s.behind ? ' BG' : ''}</span>
+        </div>
+      `).join('')}
+    `;
+  }
+
+  private drawImage(role: string, data: Uint8ClampedArray<ArrayBuffer>, width: number, height: number): CanvasRenderingContext2D {
+    const ctx = this.query<HTMLCanvasElement>(role).getContext('2d')!;
+    ctx.putImageData(new ImageData(data, width, height), 0, 0);
+    return ctx;
+  }
+}
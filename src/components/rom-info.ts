@@ -0,0 +1,86 @@
+/**
+ * ROM 信息面板
+ * 显示 iNES / NES 2.0 头部解析结果（mapper、容量、镜像、电池、区域等）与 PRG+CHR 数据的校验和
+ */
+
+import type { RomHeader, RomInfo } from '@/emulator/rom';
+
+/** 面板读取 ROM 信息所需的接口（由 NesEmulator 实现） */
+export interface RomInfoSource {
+  getRomInfo(): RomInfo | null;
+}
+
+const MIRRORING_LABELS: Record<RomHeader['mirroring'], string> = {
+  horizontal: '水平',
+  vertical: '垂直',
+  'four-screen': '四屏',
+};
+
+const TV_SYSTEM_LABELS: Record<RomHeader['tvSystem'], string> = {
+  NTSC: 'NTSC',
+  PAL: 'PAL',
+  'multi-region': 'NTSC / PAL 通用',
+  Dendy: 'Dendy',
+};
+
+/** 以 KB 显示容量，不足 1KB 时显示字节数 */
+function formatSize(bytes: number): string {
+  if (bytes === 0) return '—';
+  return bytes < 1024 ? `${bytes} B` : `${bytes / 1024} KB`;
+}
+
+export class RomInfoPanel {
+  private container: HTMLElement | null = null;
+
+  constructor(private source: RomInfoSource) {}
+
+  show(parent: HTMLElement): void {
+    this.hide();
+    this.container = document.createElement('div');
+    this.container.className = 'memview';
+    this.container.innerHTML = this.buildHTML(this.source.getRomInfo());
+    parent.appendChild(this.container);
+  }
+
+  hide(): void {
+    this.container?.remove();
+    this.container = null;
+  }
+
+  private buildHTML(info: RomInfo | null): string {
+    if (!info) return '<div class="cheats-empty">尚未加载游戏</div>';
+    const row = (label: string, value: string | number) => `
+      <div class="rominfo-label">${label}</div><div class="rominfo-value">${value}</div>
+    `;
+    const header = info.header;
+    const headerRows = header
+      ? [
+        row('格式', header.format),
+        row('Mapper', header.submapper === null ? header.mapper : `${header.mapper}.${header.submapper}`),
+        row('PRG ROM', formatSize(header.prgRomSize)),
+        row('CHR ROM', header.chrRomSize ? formatSize(header.chrRomSize) : '— (CHR RAM)'),
+        row('PRG RAM', formatSize(header.prgRamSize)),
+        row('电池 RAM', formatSize(header.prgNvramSize)),
+        row('CHR RAM', formatSize(header.chrRamSize + header.chrNvramSize)),
+        row('镜像', MIRRORING_LABELS[header.mirroring]),
+        row('电池', header.battery ? '有' : '无'),
+        row('Trainer', header.trainer ? '有' : '无'),
+        row('制式', TV_SYSTEM_LABELS[header.tvSystem]),
+        row('主机', header.consoleType),
+      ].join('')
+      : row('格式', '无法识别的文件头');
+    return `
+      <div class="memview-title">HEADER</div>
+      <div class="rominfo-table">${headerRows}</div>
+      ${info.truncated ? '<div class="keys-modal-hint">文件比头部声明的短，ROM 可能不完整</div>' : ''}
+      <div class="memview-title">CHECKSUM</div>
+      <div class="rominfo-table rominfo-hashes">
+        ${row('文件大小', `${info.fileSize} B`)}
+        ${row('CRC32', info.crc32)}
+        ${row('SHA-1', info.sha1)}
+        ${row('MD5', info.md5)}
+      </div>
+      <div class="keys-modal-hint">校验和按去掉文件头与 trainer 的 PRG+CHR 数据计算，与 No-Intro 数据库一致</div>
+    `;
+  }
+}
@@ -0,0 +1,27 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { GameUI, type UICallbacks } from './ui';
+import { localRomGame, type LocalRom } from '@/emulator';
+
+const MARKUP_NAME = '<img src=x onerror=alert(1)>.nes';
+
+function localRom(name: string): LocalRom {
+  return { id: 'local-DEADBEEF', name, crc32: 'DEADBEEF', data: new Uint8Array(16), addedAt: 0 };
+}
+
+describe('GameUI', () => {
+  it('renders local ROM file names as text, not markup', () => {
+    const root = document.createElement('div');
+    document.body.appendChild(root);
+    const ui = new GameUI(root, {} as UICallbacks);
+    ui.render([]);
+    ui.setLocalGames([localRomGame(localRom(MARKUP_NAME))]);
+
+    const card = root.querySelector('#local-grid .game-card');
+    expect(card).not.toBeNull();
+    expect(card!.querySelector('img')).toBeNull();
+    expect(card!.querySelector('.game-card-title')!.textContent).toBe(MARKUP_NAME);
+    expect(card!.querySelector('.game-card-subtitle')!.textContent).toBe(MARKUP_NAME);
+    expect(card!.querySelector('.thumb-initial')!.textContent).toBe('<');
+  });
+});
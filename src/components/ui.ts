@@ -1,8 +1,41 @@
 import {
-  Game, Genre, GenreInfo, GENRES,
+  Game, GamePatch, Genre, GenreInfo, GENRES, SaveSlot, SaveStateInfo, MovieStatus, Cheat,
+  EmulationSpeed, EmulatorState, SPEED_PRESETS, speedLabel,
   KeyMapping, KeyAction, KEY_ACTIONS, KEY_ACTION_LABELS,
   DEFAULT_KEYS_P1, keyCodeToLabel,
+  DisplaySettings, DisplayMode, DISPLAY_MODES, DEFAULT_DISPLAY_SETTINGS, Overscan, MAX_OVERSCAN,
 } from '@/types';
+import {
+  BUILTIN_PALETTES, FILTERS, NES_HEIGHT, NES_WIDTH, SAVE_SLOT_COUNT, isOfflineSupported,
+  type FilterId, type OfflineStatus, type PaletteChoice,
+} from '@/emulator';
+
+/** 播放器旁开发者面板的标签页 */
+export type DevToolsTab = 'memory' | 'search' | 'ppu' | 'debugger' | 'rom';
+
+const DEVTOOLS_TABS: { id: DevToolsTab; label: string }[] = [
+  { id: 'memory', label: 'MEMORY' },
+  { id: 'search', label: 'SEARCH' },
+  { id: 'ppu', label: 'PPU' },
+  { id: 'debugger', label: 'CPU' },
+  { id: 'rom', label: 'ROM' },
+];
+
+/** 转义插入 HTML 的用户输入 */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** 过扫描裁切像素数限制在 0..MAX_OVERSCAN */
+function clampOverscan(value: unknown): number {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) ? Math.min(MAX_OVERSCAN, Math.max(0, n)) : 0;
+}
+
+/** 以 MB 显示字节数 */
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
 /** Genre icon lookup */
 const GENRE_MAP = new Map<Genre, GenreInfo>(GENRES.map((g) => [g.id, g]));
@@ -25,34 +58,94 @@ const GENRE_LABELS: Record<Genre, string> = {
 
 /** Callbacks the host app wires up */
 export interface UICallbacks {
-  onGameSelect: (game: Game) => void;
+  /** 开始游戏；patch 为选择的目录补丁或用户导入的补丁文件 */
+  onGameSelect: (game: Game, patch?: GamePatch | File) => void;
+  /** 打开本地 .nes / .zip 文件；keep 为是否保存到「我的 ROM」 */
+  onOpenRomFile: (file: File, keep: boolean) => Promise<void>;
+  onRemoveLocalRom: (id: string) => Promise<void>;
+  onGetOfflineStatus: () => Promise<OfflineStatus>;
+  /** 下载游戏供离线游玩，或从离线缓存中删除 */
+  onSetGameOffline: (game: Game, offline: boolean) => Promise<void>;
   onPlayerStart: () => void;
   onPlayerPause: () => void;
   onPlayerReset: () => void;
+  onPlayerPowerCycle: () => void;
+  onFrameAdvance: () => void;
+  onPauseAfter: (frames: number) => void;
   onPlayerStop: () => void;
   onPlayerFullscreen: () => void;
   onPlayerMute: () => void;
+  onSpeedChange: (speed: EmulationSpeed) => void;
+  onFastForwardToggle: () => void;
   onKeysChanged: (keys: KeyMapping) => void;
+  onSaveState: (slot: SaveSlot) => Promise<void>;
+  onLoadState: (slot: SaveSlot) => Promise<boolean>;
+  onListSaveStates: () => Promise<SaveStateInfo[]>;
+  onHasBatterySave: () => boolean;
+  onHasSavedSram: () => Promise<boolean>;
+  onExportSram: () => Promise<Uint8Array<ArrayBuffer> | null>;
+  onImportSram: (data: Uint8Array) => Promise<void>;
+  onMovieRecord: (from: 'power' | 'snapshot') => void;
+  onMoviePlay: () => void;
+  onMovieStop: () => void;
+  onMovieTakeOver: () => void;
+  onMovieExport: () => Promise<string | null>;
+  onMovieImport: (text: string) => Promise<void>;
+  /** 正在使用的调色板；perGame 表示是当前游戏单独设置的 */
+  onGetPalette: () => { choice: PaletteChoice; perGame: boolean };
+  onPaletteChange: (choice: PaletteChoice, perGame: boolean) => Promise<void>;
+  onPaletteImport: (data: Uint8Array, name: string, perGame: boolean) => Promise<void>;
+  onClearGamePalette: () => Promise<void>;
+  onVideoFiltersChange: (filters: FilterId[]) => void;
+  onOverscanChange: (overscan: Overscan) => void;
+  onListCheats: () => Cheat[];
+  onAddCheat: (code: string, name: string) => Promise<void>;
+  onUpdateCheat: (id: string, changes: Partial<Pick<Cheat, 'name' | 'enabled'>>) => Promise<void>;
+  onRemoveCheat: (id: string) => Promise<void>;
+  /** 切换开发者面板的标签页，null 表示关闭面板 */
+  onDevToolsChange: (tab: DevToolsTab | null) => void;
 }
 
 const KEYS_STORAGE_KEY = 'nes-arcade-keys-p1';
+const FILTERS_STORAGE_KEY = 'nes-arcade-filters';
+const DISPLAY_STORAGE_KEY = 'nes-arcade-display';
+const KEEP_ROMS_STORAGE_KEY = 'nes-arcade-keep-roms';
+
+const OVERSCAN_EDGES: { id: keyof Overscan; label: string }[] = [
+  { id: 'top', label: '上' },
+  { id: 'bottom', label: '下' },
+  { id: 'left', label: '左' },
+  { id: 'right', label: '右' },
+];
 
 export class GameUI {
   private root: HTMLElement;
   private games: Game[] = [];
   private filteredGames: Game[] = [];
+  /** 「我的 ROM」中保存的本地游戏 */
+  private localGames: Game[] = [];
+  /** 已离线缓存的 ROM 文件名 */
+  private offlineRoms = new Set<string>();
   private activeGenre: Genre | null = null;
   private searchQuery = '';
   private callbacks: UICallbacks;
   private isMuted = false;
   private isFullscreen = false;
   private currentGame: Game | null = null;
+  /** 补丁弹窗对应的游戏 */
+  private patchGame: Game | null = null;
   private currentKeys: KeyMapping;
+  /** 画面滤镜链：NTSC → 放大 → 扫描线 */
+  private videoFilters: FilterId[];
+  private display: DisplaySettings;
+  private devToolsTab: DevToolsTab | null = null;
 
   constructor(rootEl: HTMLElement, callbacks: UICallbacks) {
     this.root = rootEl;
     this.callbacks = callbacks;
     this.currentKeys = this.loadKeys();
+    this.videoFilters = this.loadVideoFilters();
+    this.display = this.loadDisplaySettings();
     this.bindGlobalKeys();
   }
 
@@ -75,6 +168,56 @@ export class GameUI {
     this.callbacks.onKeysChanged(keys);
   }
 
+  /** 获取当前的画面滤镜 */
+  getVideoFilters(): FilterId[] {
+    return [...this.videoFilters];
+  }
+
+  private loadVideoFilters(): FilterId[] {
+    try {
+      const saved = localStorage.getItem(FILTERS_STORAGE_KEY);
+      if (saved) {
+        const ids = JSON.parse(saved) as FilterId[];
+        return ids.filter((id) => FILTERS.some((f) => f.id === id));
+      }
+    } catch { /* ignore */ }
+    return [];
+  }
+
+  private saveVideoFilters(filters: FilterId[]): void {
+    this.videoFilters = filters;
+    localStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(filters));
+    this.callbacks.onVideoFiltersChange([...filters]);
+  }
+
+  /** 获取当前的显示方式与过扫描裁切 */
+  getDisplaySettings(): DisplaySettings {
+    return { mode: this.display.mode, overscan: { ...this.display.overscan } };
+  }
+
+  private loadDisplaySettings(): DisplaySettings {
+    const settings = { mode: DEFAULT_DISPLAY_SETTINGS.mode, overscan: { ...DEFAULT_DISPLAY_SETTINGS.overscan } };
+    try {
+      const saved = localStorage.getItem(DISPLAY_STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as Partial<DisplaySettings>;
+        if (DISPLAY_MODES.some((m) => m.id === parsed.mode)) settings.mode = parsed.mode!;
+        for (const { id } of OVERSCAN_EDGES) {
+          settings.overscan[id] = clampOverscan(parsed.overscan?.[id]);
+        }
+      }
+    } catch { /* ignore */ }
+    return settings;
+  }
+
+  private saveDisplaySettings(settings: DisplaySettings): void {
+    const overscanChanged = OVERSCAN_EDGES.some(({ id }) => settings.overscan[id] !== this.display.overscan[id]);
+    this.display = settings;
+    localStorage.setItem(DISPLAY_STORAGE_KEY, JSON.stringify(settings));
+    if (overscanChanged) this.callbacks.onOverscanChange({ ...settings.overscan });
+    this.layoutCanvas();
+  }
+
   /* ===========================
      Public API
      =========================== */
@@ -89,6 +232,22 @@ export class GameUI {
     this.showLoadingScreen();
   }
 
+  /** 更新「我的 ROM」列表，没有保存的 ROM 时隐藏该区域 */
+  setLocalGames(games: Game[]): void {
+    this.localGames = games;
+    const section = document.getElementById('local-roms');
+    const grid = document.getElementById('local-grid');
+    if (!section || !grid) return;
+    section.hidden = games.length === 0;
+    grid.innerHTML = games.map((game) => this.buildGameCard(game)).join('');
+  }
+
+  /** 更新已离线缓存的游戏，在列表中标记 */
+  setOfflineRoms(files: Set<string>): void {
+    this.offlineRoms = files;
+    this.renderGameGrid();
+  }
+
   /** Get the canvas element for the emulator */
   getCanvas(): HTMLCanvasElement | null {
     return document.getElementById('nes-canvas') as HTMLCanvasElement | null;
@@ -99,6 +258,11 @@ export class GameUI {
     return document.getElementById('gamepad-container');
   }
 
+  /** 开发者面板中当前标签页的内容容器 */
+  getDevToolsContainer(): HTMLElement | null {
+    return document.getElementById('devtools-body');
+  }
+
   /** Show the player modal for a game */
   openPlayer(game: Game): void {
     this.currentGame = game;
@@ -106,11 +270,22 @@ export class GameUI {
     const title = document.getElementById('player-title');
     const loading = document.getElementById('player-loading');
     if (overlay) overlay.classList.add('visible');
-    if (title) title.textContent = `${game.titleCn} - ${game.title}`;
-    if (loading) loading.classList.remove('hidden');
+    if (title) title.textContent = game.titleCn === game.title ? game.title : `${game.titleCn} - ${game.title}`;
+    if (loading) loading.classList.remove('hidden', 'error');
+    const text = document.getElementById('player-loading-text');
+    if (text) text.textContent = 'ROM LOADING...';
     document.body.style.overflow = 'hidden';
   }
 
+  /** 在播放器中显示载入失败的原因 */
+  showPlayerError(message: string): void {
+    const loading = document.getElementById('player-loading');
+    const text = document.getElementById('player-loading-text');
+    if (loading) loading.classList.remove('hidden');
+    loading?.classList.add('error');
+    if (text) text.textContent = message;
+  }
+
   /** Hide the loading spinner inside the player */
   hidePlayerLoading(): void {
     const loading = document.getElementById('player-loading');
@@ -126,9 +301,33 @@ export class GameUI {
     }
     this.isFullscreen = false;
     document.body.style.overflow = '';
+    this.setDevToolsTab(null);
     this.callbacks.onPlayerStop();
   }
 
+  /** Reflect emulator status (speed, fast-forward) in the player header */
+  updatePlayerStatus(state: EmulatorState): void {
+    const badge = document.getElementById('player-speed');
+    if (badge) {
+      badge.textContent = state.rewinding ? 'REWIND' : speedLabel(state.speed);
+      badge.classList.toggle('active', state.rewinding || state.speed !== 1);
+    }
+    const frame = document.getElementById('player-frame');
+    if (frame) frame.textContent = `F ${state.frame}`;
+    const movie = document.getElementById('player-movie');
+    if (movie) {
+      movie.textContent = this.movieLabel(state.movie);
+      movie.classList.toggle('visible', state.movie !== null);
+      movie.classList.toggle('recording', state.movie?.mode === 'recording');
+    }
+  }
+
+  /** 录像状态标签：录制中显示帧数，回放中显示进度 */
+  private movieLabel(movie: MovieStatus | null): string {
+    if (!movie) return '';
+    return movie.mode === 'recording' ? `REC ${movie.frame}` : `PLAY ${movie.frame}/${movie.length}`;
+  }
+
   /** Update displayed game count */
   updateCount(total: number, filtered?: number): void {
     const countEl = document.getElementById('game-count-number');
@@ -175,6 +374,12 @@ export class GameUI {
       ${this.buildHeader()}
       ${this.buildGenreBar()}
       <main class="main-content">
+        <section class="local-roms" id="local-roms" hidden>
+          <div class="results-info">
+            <span class="local-roms-title">MY ROMS</span>
+          </div>
+          <div class="game-grid" id="local-grid"></div>
+        </section>
         <div class="results-info">
           <span id="results-count">${this.games.length} games</span>
         </div>
@@ -182,6 +387,11 @@ export class GameUI {
       </main>
       ${this.buildFooter()}
       ${this.buildPlayerModal()}
+      ${this.buildPatchModal()}
+      ${this.buildOfflineModal()}
+      <div class="drop-overlay" id="drop-overlay">
+        <div class="drop-overlay-text">松开以载入 ROM（.nes / .zip）</div>
+      </div>
     `;
   }
 
@@ -213,6 +423,15 @@ export class GameUI {
               autocomplete="off"
             />
           </div>
+          <div class="header-rom">
+            <button class="player-btn" id="btn-open-rom" title="也可以把文件拖到页面上">OPEN ROM</button>
+            <label class="header-rom-keep" title="保存到「我的 ROM」，下次打开页面仍可游玩">
+              <input type="checkbox" id="keep-rom" ${localStorage.getItem(KEEP_ROMS_STORAGE_KEY) === '0' ? '' : 'checked'} />
+              保存
+            </label>
+            <input type="file" id="rom-file" accept=".nes,.zip" hidden />
+            ${isOfflineSupported() ? '<button class="player-btn" id="btn-offline" title="离线游玩与存储空间">OFFLINE</button>' : ''}
+          </div>
           <div class="game-count">
             <span>GAMES</span>
             <span class="game-count-number" id="game-count-number">${this.games.length}</span>
@@ -253,6 +472,9 @@ export class GameUI {
         <div class="player-container">
           <div class="player-header">
             <span class="player-title" id="player-title">Loading...</span>
+            <span class="player-speed" id="player-speed">1x</span>
+            <span class="player-frame" id="player-frame" title="自上电以来的帧数">F 0</span>
+            <span class="player-movie" id="player-movie"></span>
             <button class="player-close" id="player-close">&times;</button>
           </div>
           <div class="player-canvas-wrapper">
@@ -260,17 +482,71 @@ export class GameUI {
             <div class="player-scanlines"></div>
             <div class="player-loading" id="player-loading">
               <div class="player-loading-spinner"></div>
-              <div class="player-loading-text">ROM LOADING...</div>
+              <div class="player-loading-text" id="player-loading-text">ROM LOADING...</div>
             </div>
           </div>
           <div id="gamepad-container"></div>
           <div class="player-controls">
             <button class="player-btn" id="btn-start">START</button>
             <button class="player-btn" id="btn-pause">PAUSE</button>
-            <button class="player-btn" id="btn-reset">RESET</button>
+            <div class="player-btn-group">
+              <button class="player-btn" id="btn-reset" data-menu="reset-menu">RESET</button>
+              <div class="player-menu" id="reset-menu">
+                <button class="player-menu-item" data-reset="soft">RESET<span>软复位</span></button>
+                <button class="player-menu-item" data-reset="hard">POWER<span>重新开机</span></button>
+              </div>
+            </div>
+            <div class="player-btn-group">
+              <button class="player-btn" id="btn-frame" data-menu="frame-menu">FRAME</button>
+              <div class="player-menu" id="frame-menu">
+                <button class="player-menu-item" data-frame="advance">+1<span>单帧前进</span></button>
+                <div class="player-menu-field">
+                  <input class="cheats-input" id="frame-count" type="number" min="1" value="60" />
+                  <button class="player-menu-item" data-frame="run">RUN<span>运行后暂停</span></button>
+                </div>
+              </div>
+            </div>
+            <div class="player-btn-group">
+              <button class="player-btn" id="btn-speed" data-menu="speed-menu">SPEED</button>
+              <div class="player-menu" id="speed-menu">
+                ${SPEED_PRESETS.map((speed) => `
+                  <button class="player-menu-item" data-speed="${speed}">${speedLabel(speed)}</button>
+                `).join('')}
+                <button class="player-menu-item" data-speed="ff-toggle">FF LOCK<span>锁定快进</span></button>
+              </div>
+            </div>
+            <div class="player-btn-group">
+              <button class="player-btn" id="btn-movie" data-menu="movie-menu">MOVIE</button>
+              <div class="player-menu" id="movie-menu">
+                <button class="player-menu-item" data-movie="record-power">REC<span>开机录制</span></button>
+                <button class="player-menu-item" data-movie="record-state">REC HERE<span>从当前录制</span></button>
+                <button class="player-menu-item" data-movie="play">PLAY<span>从头回放</span></button>
+                <button class="player-menu-item" data-movie="takeover">TAKE OVER<span>接管重录</span></button>
+                <button class="player-menu-item" data-movie="stop">STOP<span>停止</span></button>
+                <button class="player-menu-item" data-movie="import">IMPORT<span>导入 .fm2</span></button>
+                <button class="player-menu-item" data-movie="export">EXPORT<span>导出 .fm2</span></button>
+              </div>
+              <input type="file" id="movie-file" accept=".fm2" hidden />
+            </div>
+            <div class="player-btn-group">
+              <button class="player-btn" id="btn-filter" data-menu="filter-menu">FILTER</button>
+              <div class="player-menu" id="filter-menu"></div>
+            </div>
+            <div class="player-btn-group">
+              <button class="player-btn" id="btn-palette" data-menu="palette-menu">COLOR</button>
+              <div class="player-menu" id="palette-menu"></div>
+              <input type="file" id="palette-file" accept=".pal" hidden />
+            </div>
+            <div class="player-btn-group">
+              <button class="player-btn" id="btn-display" data-menu="display-menu">VIEW</button>
+              <div class="player-menu" id="display-menu"></div>
+            </div>
             <button class="player-btn" id="btn-fullscreen">FULL</button>
             <button class="player-btn" id="btn-mute">SOUND</button>
             <button class="player-btn" id="btn-keys">KEYS</button>
+            <button class="player-btn" id="btn-slots">SAVE</button>
+            <button class="player-btn" id="btn-cheats">CHEAT</button>
+            <button class="player-btn" id="btn-devtools">DEV</button>
           </div>
           <div class="player-keys">
             <div class="player-keys-title">操作说明</div>
@@ -279,7 +555,10 @@ export class GameUI {
             </div>
           </div>
           ${this.buildKeysModal()}
+          ${this.buildSlotsModal()}
+          ${this.buildCheatsModal()}
         </div>
+        ${this.buildDevTools()}
       </div>
     `;
   }
@@ -311,22 +590,27 @@ export class GameUI {
     const genre = GENRE_MAP.get(game.genre);
     const genreLabel = GENRE_LABELS[game.genre] || 'NES';
     const stars = game.rating ? '★'.repeat(Math.round(game.rating)) : '';
+    // 本地 ROM 的标题来自文件名，不能当作 HTML
+    const titleCn = escapeHtml(game.titleCn);
 
     const thumbnailContent = game.thumbnail
-      ? `<img src="${game.thumbnail}" alt="${game.titleCn}" loading="lazy" />`
-      : `<span class="thumb-placeholder"><span class="thumb-initial">${game.titleCn[0]}</span><span class="thumb-label">${genreLabel}</span></span>`;
+      ? `<img src="${game.thumbnail}" alt="${titleCn}" loading="lazy" />`
+      : `<span class="thumb-placeholder"><span class="thumb-initial">${escapeHtml(game.titleCn[0] ?? '')}</span><span class="thumb-label">${genreLabel}</span></span>`;
 
     return `
       <div class="game-card" data-game-id="${game.id}">
+        ${game.local ? '<button class="game-card-remove" data-remove-rom title="从我的 ROM 中删除">&times;</button>' : ''}
+        <button class="game-card-patch" data-patch-game title="打补丁后开始（汉化、修改版）">PATCH</button>
         <div class="game-card-thumbnail">${thumbnailContent}</div>
         <div class="game-card-body">
-          <div class="game-card-title">${game.titleCn}</div>
-          <div class="game-card-subtitle">${game.title}</div>
+          <div class="game-card-title">${titleCn}</div>
+          <div class="game-card-subtitle">${escapeHtml(game.title)}</div>
           <div class="game-card-meta">
             <span class="game-card-genre">
               ${genre ? genre.name : game.genre}
             </span>
-            <span class="game-card-year">${game.year}</span>
+            ${game.year ? `<span class="game-card-year">${game.year}</span>` : ''}
+            ${!game.local && this.offlineRoms.has(game.romFile) ? '<span class="game-card-offline" title="可离线游玩">OFFLINE</span>' : ''}
             ${game.players === 2 ? '<span class="game-card-players">2P</span>' : ''}
             ${stars ? `<span class="game-card-rating">${stars}</span>` : ''}
           </div>
@@ -399,22 +683,41 @@ export class GameUI {
       const card = target.closest('.game-card') as HTMLElement | null;
       if (card) {
         const gameId = card.dataset.gameId;
-        const game = this.games.find((g) => g.id === gameId);
-        if (game) {
+        if (target.closest('[data-remove-rom]')) {
+          if (gameId && confirm('从「我的 ROM」中删除这个游戏？存档与金手指会保留。')) {
+            this.callbacks.onRemoveLocalRom(gameId).catch((err) => alert(`删除失败：${(err as Error).message}`));
+          }
+          return;
+        }
+        const game = this.games.find((g) => g.id === gameId) ?? this.localGames.find((g) => g.id === gameId);
+        if (!game) return;
+        // 有可选补丁的游戏先选择版本
+        if (target.closest('[data-patch-game]') || game.patches?.length) {
+          this.openPatchModal(game);
+        } else {
           this.callbacks.onGameSelect(game);
         }
         return;
       }
     });
 
+    this.bindRomFiles();
+    this.bindPatchModal();
+    this.bindOfflineModal();
+
     // Player controls
     document.getElementById('player-close')?.addEventListener('click', () => this.closePlayer());
     document.getElementById('btn-start')?.addEventListener('click', () => this.callbacks.onPlayerStart());
     document.getElementById('btn-pause')?.addEventListener('click', () => this.callbacks.onPlayerPause());
-    document.getElementById('btn-reset')?.addEventListener('click', () => this.callbacks.onPlayerReset());
+    this.bindPlayerMenus();
     document.getElementById('btn-fullscreen')?.addEventListener('click', () => this.toggleFullscreen());
     document.getElementById('btn-mute')?.addEventListener('click', () => this.toggleMute());
     document.getElementById('btn-keys')?.addEventListener('click', () => this.openKeysModal());
+    document.getElementById('btn-slots')?.addEventListener('click', () => this.openSlotsModal());
+    this.bindSlotsModal();
+    document.getElementById('btn-cheats')?.addEventListener('click', () => this.openCheatsModal());
+    this.bindCheatsModal();
+    this.bindDevTools();
 
     // Click outside player to close
     document.getElementById('player-overlay')?.addEventListener('click', (e) => {
@@ -424,13 +727,367 @@ export class GameUI {
     });
   }
 
+  /** 打开本地 ROM：文件选择框或把文件拖到页面上 */
+  private bindRomFiles(): void {
+    const fileInput = document.getElementById('rom-file') as HTMLInputElement | null;
+    const keep = document.getElementById('keep-rom') as HTMLInputElement | null;
+    const overlay = document.getElementById('drop-overlay');
+    const open = (file: File) => {
+      this.callbacks.onOpenRomFile(file, keep?.checked ?? false)
+        .catch((err) => alert(`无法打开 ROM：${(err as Error).message}`));
+    };
+
+    document.getElementById('btn-open-rom')?.addEventListener('click', () => fileInput?.click());
+    fileInput?.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (file) open(file);
+    });
+    keep?.addEventListener('change', () => localStorage.setItem(KEEP_ROMS_STORAGE_KEY, keep.checked ? '1' : '0'));
+
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+    document.addEventListener('dragover', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      overlay?.classList.add('visible');
+    });
+    document.addEventListener('dragleave', (e) => {
+      // 拖出浏览器窗口时 relatedTarget 为 null
+      if (e.relatedTarget === null) overlay?.classList.remove('visible');
+    });
+    document.addEventListener('drop', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      overlay?.classList.remove('visible');
+      const file = e.dataTransfer?.files[0];
+      if (file) open(file);
+    });
+  }
+
+  /** 控制栏下拉菜单（RESET / FRAME / SPEED / MOVIE / FILTER / COLOR / VIEW） */
+  private bindPlayerMenus(): void {
+    const closeMenus = () => {
+      document.querySelectorAll('.player-menu.visible').forEach((el) => el.classList.remove('visible'));
+    };
+
+    document.querySelectorAll<HTMLElement>('[data-menu]').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const menu = document.getElementById(btn.dataset.menu!);
+        const wasOpen = menu?.classList.contains('visible');
+        closeMenus();
+        if (!wasOpen) menu?.classList.add('visible');
+      });
+    });
+    document.addEventListener('click', closeMenus);
+
+    document.getElementById('reset-menu')?.addEventListener('click', (e) => {
+      const item = (e.target as HTMLElement).closest<HTMLElement>('[data-reset]');
+      if (!item) return;
+      if (item.dataset.reset === 'hard') {
+        this.callbacks.onPlayerPowerCycle();
+      } else {
+        this.callbacks.onPlayerReset();
+      }
+    });
+
+    document.getElementById('speed-menu')?.addEventListener('click', (e) => {
+      const item = (e.target as HTMLElement).closest<HTMLElement>('[data-speed]');
+      if (!item) return;
+      const value = item.dataset.speed!;
+      if (value === 'ff-toggle') {
+        this.callbacks.onFastForwardToggle();
+      } else {
+        this.callbacks.onSpeedChange(value === 'turbo' ? 'turbo' : (Number(value) as EmulationSpeed));
+      }
+    });
+
+    // 逐帧操作时常需连续点击，点击菜单内部不关闭菜单
+    document.getElementById('frame-menu')?.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const item = (e.target as HTMLElement).closest<HTMLElement>('[data-frame]');
+      if (!item) return;
+      if (item.dataset.frame === 'advance') {
+        this.callbacks.onFrameAdvance();
+      } else {
+        const input = document.getElementById('frame-count') as HTMLInputElement;
+        const frames = Math.floor(Number(input.value));
+        if (frames >= 1) this.callbacks.onPauseAfter(frames);
+      }
+    });
+
+    this.bindMovieMenu();
+    this.bindFilterMenu();
+    this.bindPaletteMenu();
+    this.bindDisplayMenu();
+  }
+
+  /** 录像菜单与 .fm2 导入 */
+  private bindMovieMenu(): void {
+    const fileInput = document.getElementById('movie-file') as HTMLInputElement | null;
+
+    document.getElementById('movie-menu')?.addEventListener('click', (e) => {
+      const item = (e.target as HTMLElement).closest<HTMLElement>('[data-movie]');
+      if (!item) return;
+      switch (item.dataset.movie) {
+        case 'record-power':
+          this.callbacks.onMovieRecord('power');
+          break;
+        case 'record-state':
+          this.callbacks.onMovieRecord('snapshot');
+          break;
+        case 'play':
+          this.callbacks.onMoviePlay();
+          break;
+        case 'takeover':
+          this.callbacks.onMovieTakeOver();
+          break;
+        case 'stop':
+          this.callbacks.onMovieStop();
+          break;
+        case 'import':
+          fileInput?.click();
+          break;
+        case 'export':
+          this.callbacks.onMovieExport()
+            .then((text) => {
+              if (text && this.currentGame) this.downloadFile(text, `${this.currentGame.id}.fm2`);
+            })
+            .catch((err) => alert(`导出失败：${(err as Error).message}`));
+          break;
+      }
+    });
+
+    fileInput?.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (!file) return;
+      try {
+        await this.callbacks.onMovieImport(await file.text());
+      } catch (err) {
+        alert(`导入失败：${(err as Error).message}`);
+      }
+    });
+  }
+
+  /** 滤镜菜单：选择一种放大滤镜，NTSC 与扫描线可分别开关 */
+  private bindFilterMenu(): void {
+    const menu = document.getElementById('filter-menu');
+    // 常需连续切换对比效果，点击菜单内部不关闭菜单
+    menu?.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const item = (e.target as HTMLElement).closest<HTMLElement>('[data-filter]');
+      if (!item) return;
+      const id = item.dataset.filter as FilterId | 'none';
+      const has = (effect: FilterId) => this.videoFilters.includes(effect);
+      let scaler = this.videoFilters.find((f) => FILTERS.some((info) => info.id === f && info.kind === 'scaler'));
+      let ntsc = has('ntsc');
+      let scanlines = has('scanlines');
+      if (id === 'ntsc') ntsc = !ntsc;
+      else if (id === 'scanlines') scanlines = !scanlines;
+      else scaler = id === 'none' ? undefined : id;
+      const chain: FilterId[] = [];
+      if (ntsc) chain.push('ntsc');
+      if (scaler) chain.push(scaler);
+      if (scanlines) chain.push('scanlines');
+      this.saveVideoFilters(chain);
+      this.renderFilterMenu();
+    });
+    this.renderFilterMenu();
+  }
+
+  private renderFilterMenu(): void {
+    const menu = document.getElementById('filter-menu');
+    if (!menu) return;
+    const active = this.videoFilters;
+    const scaling = FILTERS.some((f) => f.kind === 'scaler' && active.includes(f.id));
+    const item = (id: string, label: string, on: boolean, hint = '') => `
+      <button class="player-menu-item ${on ? 'active' : ''}" data-filter="${id}">
+        ${label}${hint ? `<span>${hint}</span>` : ''}
+      </button>
+    `;
+    menu.innerHTML = `
+      ${item('none', 'OFF', !scaling, '不放大')}
+      ${FILTERS.filter((f) => f.kind === 'scaler').map((f) => item(f.id, f.name, active.includes(f.id))).join('')}
+      ${item('ntsc', 'NTSC', active.includes('ntsc'), '信号模糊')}
+      ${item('scanlines', 'SCANLINES', active.includes('scanlines'), '扫描线')}
+    `;
+    // 开启真实扫描线时隐藏装饰用的 CSS 扫描线
+    document.querySelector('.player-canvas-wrapper')?.classList.toggle('real-scanlines', active.includes('scanlines'));
+    document.getElementById('btn-filter')?.classList.toggle('active', active.length > 0);
+  }
+
+  /** 显示菜单：宽高比 / 整数倍 / 拉伸，以及四边的过扫描裁切 */
+  private bindDisplayMenu(): void {
+    const menu = document.getElementById('display-menu');
+    // 边调整边观察效果，点击菜单内部不关闭菜单
+    menu?.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const item = (e.target as HTMLElement).closest<HTMLElement>('[data-display]');
+      if (!item) return;
+      const settings = this.getDisplaySettings();
+      if (item.dataset.display === 'reset-overscan') {
+        settings.overscan = { ...DEFAULT_DISPLAY_SETTINGS.overscan };
+      } else {
+        settings.mode = item.dataset.display as DisplayMode;
+      }
+      this.saveDisplaySettings(settings);
+      this.renderDisplayMenu();
+    });
+    menu?.addEventListener('change', (e) => {
+      const input = (e.target as HTMLElement).closest<HTMLInputElement>('[data-overscan]');
+      if (!input) return;
+      const settings = this.getDisplaySettings();
+      settings.overscan[input.dataset.overscan as keyof Overscan] = clampOverscan(Number(input.value));
+      this.saveDisplaySettings(settings);
+      this.renderDisplayMenu();
+    });
+
+    // 窗口、全屏切换或开发者面板改变画面区域大小时重新排版
+    const wrapper = document.querySelector<HTMLElement>('.player-canvas-wrapper');
+    if (wrapper) new ResizeObserver(() => this.layoutCanvas()).observe(wrapper);
+    this.renderDisplayMenu();
+    this.layoutCanvas();
+  }
+
+  private renderDisplayMenu(): void {
+    const menu = document.getElementById('display-menu');
+    if (!menu) return;
+    const { mode, overscan } = this.display;
+    menu.innerHTML = `
+      ${DISPLAY_MODES.map((m) => `
+        <button class="player-menu-item ${m.id === mode ? 'active' : ''}" data-display="${m.id}">
+          ${m.label}<span>${m.hint}</span>
+        </button>
+      `).join('')}
+      <div class="player-menu-title">OVERSCAN</div>
+      <div class="player-menu-overscan">
+        ${OVERSCAN_EDGES.map((edge) => `
+          <label>${edge.label}
+            <input class="cheats-input" type="number" min="0" max="${MAX_OVERSCAN}"
+              data-overscan="${edge.id}" value="${overscan[edge.id]}" />
+          </label>
+        `).join('')}
+      </div>
+      <button class="player-menu-item" data-display="reset-overscan">NONE<span>不裁切</span></button>
+    `;
+    const cropped = OVERSCAN_EDGES.some(({ id }) => overscan[id] > 0);
+    document.getElementById('btn-display')?.classList.toggle('active', mode !== 'square' || cropped);
+  }
+
+  /**
+   * 按显示方式计算 canvas 的显示尺寸
+   * 窗口模式下画面区域按显示宽高比排版；全屏时区域铺满，画面在其中等比居中
+   */
+  private layoutCanvas(): void {
+    const wrapper = document.querySelector<HTMLElement>('.player-canvas-wrapper');
+    const canvas = this.getCanvas();
+    if (!wrapper || !canvas) return;
+    const { mode, overscan } = this.display;
+    const width = NES_WIDTH - overscan.left - overscan.right;
+    const height = NES_HEIGHT - overscan.top - overscan.bottom;
+    const aspect = mode === 'tv' ? 4 / 3
+      : mode === 'par87' ? (width * 8) / 7 / height
+      : mode === 'stretch' ? NES_WIDTH / NES_HEIGHT
+      : width / height;
+    wrapper.style.setProperty('--display-aspect', String(aspect));
+
+    const boxWidth = wrapper.clientWidth;
+    const boxHeight = wrapper.clientHeight;
+    if (boxWidth === 0 || boxHeight === 0) return;
+    let cssWidth = boxWidth;
+    let cssHeight = boxHeight;
+    if (mode === 'integer') {
+      // 按物理像素取整数倍，保证每个 NES 像素大小一致
+      const dpr = window.devicePixelRatio || 1;
+      const scale = Math.max(1, Math.floor(Math.min((boxWidth * dpr) / width, (boxHeight * dpr) / height)));
+      cssWidth = (width * scale) / dpr;
+      cssHeight = (height * scale) / dpr;
+    } else if (mode !== 'stretch') {
+      if (boxWidth / boxHeight > aspect) cssWidth = boxHeight * aspect;
+      else cssHeight = boxWidth / aspect;
+    }
+    canvas.style.width = `${cssWidth}px`;
+    canvas.style.height = `${cssHeight}px`;
+  }
+
+  /** 调色板菜单：内置调色板、导入的 .pal，以及是否只用于当前游戏 */
+  private bindPaletteMenu(): void {
+    const menu = document.getElementById('palette-menu');
+    const fileInput = document.getElementById('palette-file') as HTMLInputElement | null;
+    // 每次打开时按当前设置重新生成
+    document.getElementById('btn-palette')?.addEventListener('click', () => this.renderPaletteMenu());
+
+    menu?.addEventListener('click', (e) => {
+      const item = (e.target as HTMLElement).closest<HTMLElement>('[data-palette]');
+      if (!item) return;
+      const { choice, perGame } = this.callbacks.onGetPalette();
+      let task: Promise<void>;
+      switch (item.dataset.palette) {
+        case 'import':
+          fileInput?.click();
+          return;
+        case 'per-game':
+          task = perGame ? this.callbacks.onClearGamePalette() : this.callbacks.onPaletteChange(choice, true);
+          break;
+        case 'custom':
+          task = this.callbacks.onPaletteChange(choice, perGame);
+          break;
+        default: {
+          const id = item.dataset.palette as Exclude<PaletteChoice['id'], 'custom'>;
+          task = this.callbacks.onPaletteChange({ id }, perGame);
+        }
+      }
+      task.catch((err) => alert(`切换调色板失败：${(err as Error).message}`));
+    });
+
+    fileInput?.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (!file) return;
+      try {
+        const data = new Uint8Array(await file.arrayBuffer());
+        const name = file.name.replace(/\.pal$/i, '');
+        await this.callbacks.onPaletteImport(data, name, this.callbacks.onGetPalette().perGame);
+      } catch (err) {
+        alert(`导入失败：${(err as Error).message}`);
+      }
+    });
+  }
+
+  private renderPaletteMenu(): void {
+    const menu = document.getElementById('palette-menu');
+    if (!menu) return;
+    const { choice, perGame } = this.callbacks.onGetPalette();
+    const item = (id: string, label: string, hint = '') => `
+      <button class="player-menu-item ${choice.id === id ? 'active' : ''}" data-palette="${id}">
+        ${label}${hint ? `<span>${hint}</span>` : ''}
+      </button>
+    `;
+    menu.innerHTML = `
+      ${BUILTIN_PALETTES.map((p) => item(p.id, p.name)).join('')}
+      ${choice.id === 'custom' ? item('custom', escapeHtml(choice.name), '.pal') : ''}
+      <button class="player-menu-item" data-palette="import">IMPORT<span>导入 .pal</span></button>
+      <button class="player-menu-item ${perGame ? 'active' : ''}" data-palette="per-game"
+        ${this.currentGame ? '' : 'disabled'}>PER GAME<span>仅此游戏</span></button>
+    `;
+  }
+
   private bindGlobalKeys(): void {
     document.addEventListener('keydown', (e) => {
+      const overlay = document.getElementById('player-overlay');
+      if (!overlay?.classList.contains('visible')) return;
+
       if (e.key === 'Escape') {
-        const overlay = document.getElementById('player-overlay');
-        if (overlay?.classList.contains('visible')) {
-          this.closePlayer();
-        }
+        this.closePlayer();
+      } else if (e.code === 'F5') {
+        // 快速存档
+        e.preventDefault();
+        this.callbacks.onSaveState('quick').catch((err) => alert(`快速存档失败：${(err as Error).message}`));
+      } else if (e.code === 'F9') {
+        // 快速读档
+        e.preventDefault();
+        this.callbacks.onLoadState('quick').catch((err) => alert(`快速读档失败：${(err as Error).message}`));
       }
     });
   }
@@ -486,6 +1143,21 @@ export class GameUI {
       <div class="player-key-group">
         <span class="key-badge">${this.formatKeyLabel(k.select)}</span> 选择
       </div>
+      <div class="player-key-group">
+        <span class="key-badge">Tab</span> 快进
+      </div>
+      <div class="player-key-group">
+        <span class="key-badge">Bksp</span> 倒带
+      </div>
+      <div class="player-key-group">
+        <span class="key-badge">P</span> 暂停
+      </div>
+      <div class="player-key-group">
+        <span class="key-badge">\\</span> 单帧
+      </div>
+      <div class="player-key-group">
+        <span class="key-badge">F5/F9</span> 快存/快读
+      </div>
       <div class="player-key-group">
         <span class="key-badge">ESC</span> 退出
       </div>
@@ -596,4 +1268,474 @@ export class GameUI {
       });
     });
   }
+
+  /* ===========================
+     ROM Patches
+     =========================== */
+
+  /** 构建补丁选择弹窗 HTML */
+  private buildPatchModal(): string {
+    return `
+      <div class="keys-modal-overlay" id="patch-modal">
+        <div class="keys-modal">
+          <div class="keys-modal-header">
+            <span id="patch-modal-title">选择版本</span>
+            <button class="keys-modal-close" id="patch-modal-close">&times;</button>
+          </div>
+          <div class="keys-modal-body">
+            <div class="keys-modal-hint">补丁在载入前应用到 ROM，支持 IPS / BPS / UPS；BPS 与 UPS 会校验 ROM 版本</div>
+            <div class="patch-list" id="patch-list"></div>
+            <input type="file" id="patch-file" accept=".ips,.bps,.ups" hidden />
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  /** 绑定补丁弹窗的事件（只绑定一次） */
+  private bindPatchModal(): void {
+    const modal = document.getElementById('patch-modal');
+    const fileInput = document.getElementById('patch-file') as HTMLInputElement | null;
+    if (!modal || !fileInput) return;
+    const start = (patch?: GamePatch | File) => {
+      const game = this.patchGame;
+      modal.classList.remove('visible');
+      if (game) this.callbacks.onGameSelect(game, patch);
+    };
+
+    document.getElementById('patch-modal-close')?.addEventListener('click', () => {
+      modal.classList.remove('visible');
+    });
+    modal.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.id === 'patch-modal') {
+        modal.classList.remove('visible');
+        return;
+      }
+      const item = target.closest<HTMLElement>('[data-patch]');
+      if (!item) return;
+      const id = item.dataset.patch;
+      if (id === 'import') {
+        fileInput.click();
+      } else if (id === 'original') {
+        start();
+      } else {
+        start(this.patchGame?.patches?.find((p) => p.id === id));
+      }
+    });
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (file) start(file);
+    });
+  }
+
+  /** 打开补丁弹窗：原版、目录中的补丁，或导入补丁文件 */
+  private openPatchModal(game: Game): void {
+    const modal = document.getElementById('patch-modal');
+    const list = document.getElementById('patch-list');
+    const title = document.getElementById('patch-modal-title');
+    if (!modal || !list) return;
+    this.patchGame = game;
+    if (title) title.textContent = game.titleCn;
+    list.innerHTML = `
+      <button class="keys-modal-btn keys-modal-btn-primary" data-patch="original">原版</button>
+      ${(game.patches ?? []).map((patch) => `
+        <button class="keys-modal-btn" data-patch="${patch.id}">${escapeHtml(patch.name)}</button>
+      `).join('')}
+      <button class="keys-modal-btn" data-patch="import">导入补丁文件...</button>
+    `;
+    modal.classList.add('visible');
+  }
+
+  /* ===========================
+     Offline Play
+     =========================== */
+
+  /** 构建离线游玩弹窗 HTML */
+  private buildOfflineModal(): string {
+    return `
+      <div class="keys-modal-overlay" id="offline-modal">
+        <div class="keys-modal offline-modal">
+          <div class="keys-modal-header">
+            <span>离线游玩</span>
+            <button class="keys-modal-close" id="offline-modal-close">&times;</button>
+          </div>
+          <div class="keys-modal-body">
+            <div class="keys-modal-hint">玩过的游戏会自动缓存；缓存后的游戏断网也能启动</div>
+            <div class="offline-usage" id="offline-usage"></div>
+            <div class="offline-list" id="offline-list"></div>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  /** 绑定离线游玩弹窗的事件（只绑定一次） */
+  private bindOfflineModal(): void {
+    const modal = document.getElementById('offline-modal');
+    if (!modal) return;
+    document.getElementById('btn-offline')?.addEventListener('click', () => {
+      modal.classList.add('visible');
+      void this.renderOfflineList();
+    });
+    document.getElementById('offline-modal-close')?.addEventListener('click', () => {
+      modal.classList.remove('visible');
+    });
+    modal.addEventListener('click', async (e) => {
+      const target = e.target as HTMLElement;
+      if (target.id === 'offline-modal') {
+        modal.classList.remove('visible');
+        return;
+      }
+      const btn = target.closest<HTMLButtonElement>('[data-offline-toggle]');
+      const id = btn?.closest<HTMLElement>('[data-offline-game]')?.dataset.offlineGame;
+      const game = this.games.find((g) => g.id === id);
+      if (!btn || !game) return;
+      btn.disabled = true;
+      btn.textContent = '...';
+      try {
+        await this.callbacks.onSetGameOffline(game, !this.offlineRoms.has(game.romFile));
+      } catch (err) {
+        alert(`操作失败：${(err as Error).message}`);
+      }
+      await this.renderOfflineList();
+    });
+  }
+
+  /** 存储用量与各游戏的缓存状态，已缓存的排在前面 */
+  private async renderOfflineList(): Promise<void> {
+    const usageEl = document.getElementById('offline-usage');
+    const list = document.getElementById('offline-list');
+    if (!usageEl || !list) return;
+    const status = await this.callbacks.onGetOfflineStatus();
+    const cachedBytes = [...status.games.values()].reduce((sum, size) => sum + size, 0);
+    usageEl.innerHTML = `
+      <div>已缓存 ${status.games.size} 个游戏，共 ${formatMegabytes(cachedBytes)}</div>
+      ${status.usage !== null && status.quota !== null
+        ? `<div>浏览器存储：已用 ${formatMegabytes(status.usage)} / 可用 ${formatMegabytes(status.quota)}</div>`
+        : ''}
+    `;
+    const games = [...this.games].sort((a, b) => Number(status.games.has(b.romFile)) - Number(status.games.has(a.romFile)));
+    list.innerHTML = games.map((game) => {
+      const size = status.games.get(game.romFile);
+      return `
+        <div class="offline-row" data-offline-game="${game.id}">
+          <span class="offline-title">${escapeHtml(game.titleCn)}</span>
+          <span class="offline-size">${size !== undefined ? formatMegabytes(size) : ''}</span>
+          <button class="keys-modal-btn" data-offline-toggle>${size !== undefined ? '删除' : '下载'}</button>
+        </div>
+      `;
+    }).join('');
+  }
+
+  /* ===========================
+     Save State Slots
+     =========================== */
+
+  /** 构建存档位选择弹窗 HTML */
+  private buildSlotsModal(): string {
+    return `
+      <div class="keys-modal-overlay" id="slots-modal">
+        <div class="keys-modal slots-modal">
+          <div class="keys-modal-header">
+            <span>即时存档</span>
+            <button class="keys-modal-close" id="slots-modal-close">&times;</button>
+          </div>
+          <div class="keys-modal-body">
+            <div class="keys-modal-hint">F5 快速存档 / F9 快速读档</div>
+            <div class="slots-grid" id="slots-grid"></div>
+            <div class="slots-grid slots-battery" id="slots-battery"></div>
+            <input type="file" id="sram-file" accept=".sav,.srm" hidden />
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  /** 绑定存档弹窗的事件（只绑定一次） */
+  private bindSlotsModal(): void {
+    const modal = document.getElementById('slots-modal');
+    if (!modal) return;
+
+    document.getElementById('slots-modal-close')?.addEventListener('click', () => {
+      modal.classList.remove('visible');
+    });
+
+    modal.addEventListener('click', async (e) => {
+      const target = e.target as HTMLElement;
+      if (target.id === 'slots-modal') {
+        modal.classList.remove('visible');
+        return;
+      }
+
+      const sramBtn = target.closest<HTMLElement>('[data-sram-action]');
+      if (sramBtn) {
+        if (sramBtn.dataset.sramAction === 'export') {
+          this.downloadSram().catch((err) => console.error('Battery save export failed:', err));
+        } else {
+          document.getElementById('sram-file')?.click();
+        }
+        return;
+      }
+
+      const btn = target.closest<HTMLElement>('[data-slot-action]');
+      if (!btn) return;
+      const raw = btn.dataset.slot!;
+      const slot: SaveSlot = raw === 'quick' ? 'quick' : Number(raw);
+
+      try {
+        if (btn.dataset.slotAction === 'save') {
+          await this.callbacks.onSaveState(slot);
+          await this.renderSlotsGrid();
+        } else if (await this.callbacks.onLoadState(slot)) {
+          modal.classList.remove('visible');
+        }
+      } catch (err) {
+        alert(`${btn.dataset.slotAction === 'save' ? '存档' : '读档'}失败：${(err as Error).message}`);
+      }
+    });
+
+    const fileInput = document.getElementById('sram-file') as HTMLInputElement | null;
+    fileInput?.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (!file) return;
+
+      try {
+        const data = new Uint8Array(await file.arrayBuffer());
+        if (await this.callbacks.onHasSavedSram()
+          && !confirm('导入会覆盖当前游戏已有的电池存档，并重新启动游戏。确定继续吗？')) {
+          return;
+        }
+        await this.callbacks.onImportSram(data);
+        modal.classList.remove('visible');
+      } catch (err) {
+        alert(`导入失败：${(err as Error).message}`);
+      }
+    });
+  }
+
+  /** 将当前游戏的电池存档下载为 .sav 文件 */
+  private async downloadSram(): Promise<void> {
+    const data = await this.callbacks.onExportSram();
+    if (!data || !this.currentGame) return;
+    this.downloadFile(data, `${this.currentGame.id}.sav`);
+  }
+
+  /** 触发浏览器下载 */
+  private downloadFile(data: BlobPart, filename: string): void {
+    const url = URL.createObjectURL(new Blob([data], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /** 打开存档位选择弹窗 */
+  private openSlotsModal(): void {
+    const modal = document.getElementById('slots-modal');
+    if (!modal) return;
+    modal.classList.add('visible');
+    this.renderSlotsGrid();
+  }
+
+  /** 渲染存档位列表 */
+  private async renderSlotsGrid(): Promise<void> {
+    const grid = document.getElementById('slots-grid');
+    if (!grid) return;
+
+    const saved = new Map<SaveSlot, SaveStateInfo>();
+    for (const info of await this.callbacks.onListSaveStates()) {
+      saved.set(info.slot, info);
+    }
+
+    const slots: SaveSlot[] = ['quick', ...Array.from({ length: SAVE_SLOT_COUNT }, (_, i) => i)];
+    grid.innerHTML = slots.map((slot) => {
+      const info = saved.get(slot);
+      const label = slot === 'quick' ? 'QUICK' : `SLOT ${slot + 1}`;
+      const thumb = info
+        ? `<img class="slots-thumb" src="${info.thumbnail}" alt="${label}" />`
+        : `<span class="slots-thumb slots-thumb-empty">EMPTY</span>`;
+      const time = info ? new Date(info.timestamp).toLocaleString() : '--';
+      return `
+        <div class="slots-row">
+          ${thumb}
+          <div class="slots-info">
+            <span class="slots-label">${label}</span>
+            <span class="slots-time">${time}</span>
+          </div>
+          <button class="keys-modal-btn" data-slot-action="save" data-slot="${slot}">存档</button>
+          <button class="keys-modal-btn keys-modal-btn-primary" data-slot-action="load" data-slot="${slot}"
+            ${info ? '' : 'disabled'}>读档</button>
+        </div>
+      `;
+    }).join('');
+
+    const battery = document.getElementById('slots-battery');
+    if (battery) {
+      battery.innerHTML = this.callbacks.onHasBatterySave() ? `
+        <div class="slots-row">
+          <div class="slots-info">
+            <span class="slots-label">BATTERY</span>
+            <span class="slots-time">电池存档 .sav（与 FCEUX / Mesen / Nestopia 通用）</span>
+          </div>
+          <button class="keys-modal-btn" data-sram-action="export">导出</button>
+          <button class="keys-modal-btn" data-sram-action="import">导入</button>
+        </div>
+      ` : '';
+    }
+  }
+
+  /* ===========================
+     Cheats
+     =========================== */
+
+  /** 构建金手指弹窗 HTML */
+  private buildCheatsModal(): string {
+    return `
+      <div class="keys-modal-overlay" id="cheats-modal">
+        <div class="keys-modal cheats-modal">
+          <div class="keys-modal-header">
+            <span>金手指</span>
+            <button class="keys-modal-close" id="cheats-modal-close">&times;</button>
+          </div>
+          <div class="keys-modal-body">
+            <div class="keys-modal-hint">支持 Game Genie 代码（6/8 位）与原始代码 地址:数值[:比较值]，多个代码用 + 连接</div>
+            <div class="cheats-list" id="cheats-list"></div>
+            <form class="cheats-form" id="cheats-form">
+              <input class="cheats-input cheats-input-code" name="code" placeholder="SXIOPO / 0032:09" autocomplete="off" />
+              <input class="cheats-input" name="name" placeholder="名称（可选）" autocomplete="off" />
+              <button class="keys-modal-btn keys-modal-btn-primary" type="submit">添加</button>
+            </form>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  /** 绑定金手指弹窗的事件（只绑定一次） */
+  private bindCheatsModal(): void {
+    const modal = document.getElementById('cheats-modal');
+    const list = document.getElementById('cheats-list');
+    const form = document.getElementById('cheats-form') as HTMLFormElement | null;
+    if (!modal || !list || !form) return;
+
+    document.getElementById('cheats-modal-close')?.addEventListener('click', () => {
+      modal.classList.remove('visible');
+    });
+    modal.addEventListener('click', (e) => {
+      if ((e.target as HTMLElement).id === 'cheats-modal') {
+        modal.classList.remove('visible');
+      }
+    });
+
+    form.addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const code = form.elements.namedItem('code') as HTMLInputElement;
+      const name = form.elements.namedItem('name') as HTMLInputElement;
+      if (!code.value.trim()) return;
+      try {
+        await this.callbacks.onAddCheat(code.value, name.value);
+        form.reset();
+        this.renderCheatsList();
+      } catch (err) {
+        alert(`添加失败：${(err as Error).message}`);
+      }
+    });
+
+    list.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      const id = target.closest<HTMLElement>('[data-cheat-id]')?.dataset.cheatId;
+      if (!id) return;
+      const changes = target.type === 'checkbox' ? { enabled: target.checked } : { name: target.value.trim() };
+      this.callbacks.onUpdateCheat(id, changes)
+        .catch((err) => console.error('Cheat update failed:', err));
+    });
+
+    list.addEventListener('click', async (e) => {
+      const btn = (e.target as HTMLElement).closest<HTMLElement>('[data-cheat-action="delete"]');
+      const id = btn?.closest<HTMLElement>('[data-cheat-id]')?.dataset.cheatId;
+      if (!id) return;
+      try {
+        await this.callbacks.onRemoveCheat(id);
+        this.renderCheatsList();
+      } catch (err) {
+        console.error('Cheat removal failed:', err);
+      }
+    });
+  }
+
+  /** 打开金手指弹窗 */
+  private openCheatsModal(): void {
+    const modal = document.getElementById('cheats-modal');
+    if (!modal) return;
+    modal.classList.add('visible');
+    this.renderCheatsList();
+  }
+
+  /** 渲染金手指列表 */
+  private renderCheatsList(): void {
+    const list = document.getElementById('cheats-list');
+    if (!list) return;
+
+    const cheats = this.callbacks.onListCheats();
+    if (cheats.length === 0) {
+      list.innerHTML = '<div class="cheats-empty">还没有金手指</div>';
+      return;
+    }
+    list.innerHTML = cheats.map((cheat) => `
+      <div class="cheats-row" data-cheat-id="${cheat.id}">
+        <input type="checkbox" class="cheats-toggle" ${cheat.enabled ? 'checked' : ''} />
+        <div class="slots-info">
+          <input class="cheats-input cheats-name" value="${escapeHtml(cheat.name)}" />
+          <span class="cheats-code">${escapeHtml(cheat.code)}</span>
+        </div>
+        <button class="keys-modal-btn" data-cheat-action="delete">删除</button>
+      </div>
+    `).join('');
+  }
+
+  /* ===========================
+     Developer Tools
+     =========================== */
+
+  /** 构建播放器旁的开发者面板 HTML */
+  private buildDevTools(): string {
+    return `
+      <aside class="player-devtools" id="devtools">
+        <div class="devtools-header">
+          ${DEVTOOLS_TABS.map((tab) => `
+            <button class="devtools-tab" data-devtools-tab="${tab.id}">${tab.label}</button>
+          `).join('')}
+          <button class="keys-modal-close" id="devtools-close">&times;</button>
+        </div>
+        <div class="devtools-body" id="devtools-body"></div>
+      </aside>
+    `;
+  }
+
+  private bindDevTools(): void {
+    document.getElementById('btn-devtools')?.addEventListener('click', () => {
+      this.setDevToolsTab(this.devToolsTab ? null : DEVTOOLS_TABS[0].id);
+    });
+    document.getElementById('devtools-close')?.addEventListener('click', () => this.setDevToolsTab(null));
+    document.getElementById('devtools')?.addEventListener('click', (e) => {
+      const tab = (e.target as HTMLElement).closest<HTMLElement>('[data-devtools-tab]');
+      if (tab) this.setDevToolsTab(tab.dataset.devtoolsTab as DevToolsTab);
+    });
+  }
+
+  /** 打开开发者面板的某个标签页，null 时关闭面板 */
+  private setDevToolsTab(tab: DevToolsTab | null): void {
+    if (tab === this.devToolsTab) return;
+    this.devToolsTab = tab;
+    document.getElementById('devtools')?.classList.toggle('visible', tab !== null);
+    document.getElementById('btn-devtools')?.classList.toggle('active', tab !== null);
+    document.querySelectorAll<HTMLElement>('[data-devtools-tab]').forEach((el) => {
+      el.classList.toggle('active', el.dataset.devtoolsTab === tab);
+    });
+    this.callbacks.onDevToolsChange(tab);
+  }
 }
@@ -10,8 +10,13 @@ export const GAMES: Game[] = [
     description: '红白机第一枪战游戏，上上下下左右左右BA',
     players: 2,
     romFile: 'contra.nes',
+    crc32: 'F6035030',
     thumbnail: '/covers/contra.png',
     rating: 5,
+    cheats: [
+      { name: '1P 无限命', code: '0032:09' },
+      { name: '2P 无限命', code: '0033:09' },
+    ],
   },
   {
     id: 'tetris',
@@ -22,6 +27,7 @@ export const GAMES: Game[] = [
     description: '史上最经典的益智游戏，没有之一',
     players: 1,
     romFile: 'tetris.nes',
+    crc32: '343C7BB0',
     thumbnail: '/covers/tetris.png',
     rating: 5,
   },
@@ -34,6 +40,7 @@ export const GAMES: Game[] = [
     description: '开放世界动作冒险游戏的鼻祖',
     players: 1,
     romFile: 'zelda.nes',
+    crc32: 'EAF7ED72',
     thumbnail: '/covers/zelda.png',
     rating: 5,
   },
@@ -46,6 +53,7 @@ export const GAMES: Game[] = [
     description: '南梦宫经典吃豆人，躲避幽灵吃光所有豆子',
     players: 1,
     romFile: 'pac-man.nes',
+    crc32: '81210F63',
     thumbnail: '/covers/pac-man.png',
     rating: 5,
   },
@@ -58,6 +66,7 @@ export const GAMES: Game[] = [
     description: '银河战士系列开山之作，非线性探索的先驱',
     players: 1,
     romFile: 'metroid.nes',
+    crc32: '7751588D',
     thumbnail: '/covers/metroid.png',
     rating: 5,
   },
@@ -70,6 +79,7 @@ export const GAMES: Game[] = [
     description: '保护老鹰的经典坦克对战游戏',
     players: 2,
     romFile: 'battle-city.nes',
+    crc32: 'D6DA2A1E',
     rating: 5,
   },
   {
@@ -81,6 +91,7 @@ export const GAMES: Game[] = [
     description: '系列巅峰之作，八大BOSS等你挑战',
     players: 1,
     romFile: 'mega-man-2.nes',
+    crc32: 'A6638CBA',
     thumbnail: '/covers/mega-man-2.png',
     rating: 5,
   },
@@ -93,6 +104,7 @@ export const GAMES: Game[] = [
     description: '放炸弹炸墙找出口的经典益智动作游戏',
     players: 1,
     romFile: 'bomberman.nes',
+    crc32: 'DB9DCF89',
     thumbnail: '/covers/bomberman.png',
     rating: 5,
   },
@@ -105,6 +117,7 @@ export const GAMES: Game[] = [
     description: 'Konami横版射击经典，能量条系统始祖',
     players: 1,
     romFile: 'gradius.nes',
+    crc32: '51C51C35',
     thumbnail: '/covers/gradius.png',
     rating: 5,
   },
@@ -117,6 +130,7 @@ export const GAMES: Game[] = [
     description: '拳击游戏巅峰之作，挑战各国拳王',
     players: 1,
     romFile: 'punch-out.nes',
+    crc32: '3A4D4D10',
     thumbnail: '/covers/punch-out.png',
     rating: 5,
   },
@@ -129,6 +143,7 @@ export const GAMES: Game[] = [
     description: '粉色小胖子卡比的经典冒险之旅，可以吸收敌人能力',
     players: 1,
     romFile: 'kirby-adventure.nes',
+    crc32: '2C088DC5',
     thumbnail: '/covers/kirby-adventure.png',
     rating: 5,
   },
@@ -141,6 +156,7 @@ export const GAMES: Game[] = [
     description: '史上最难动作游戏之一，三只青蛙勇闯暗黑女王',
     players: 2,
     romFile: 'battletoads.nes',
+    crc32: '279710DC',
     thumbnail: '/covers/battletoads.png',
     rating: 5,
   },
@@ -153,6 +169,7 @@ export const GAMES: Game[] = [
     description: '蓝色机器人洛克人的经典动作冒险',
     players: 1,
     romFile: 'mega-man.nes',
+    crc32: '94476A70',
     thumbnail: '/covers/mega-man.png',
     rating: 5,
   },
@@ -165,6 +182,7 @@ export const GAMES: Game[] = [
     description: '经典摩托越野赛车，可自制赛道',
     players: 1,
     romFile: 'excitebike.nes',
+    crc32: '49AEB3A6',
     thumbnail: '/covers/excitebike.png',
     rating: 4,
   },
@@ -177,6 +195,7 @@ export const GAMES: Game[] = [
     description: '塞尔达系列第二作，加入横版动作元素',
     players: 1,
     romFile: 'zelda-2.nes',
+    crc32: 'BA322865',
     thumbnail: '/covers/zelda-2.png',
     rating: 4,
   },
@@ -189,6 +208,7 @@ export const GAMES: Game[] = [
     description: '史高治叔叔全球寻宝的经典冒险',
     players: 1,
     romFile: 'duck-tales.nes',
+    crc32: 'D029F841',
     thumbnail: '/covers/duck-tales.png',
     rating: 5,
   },
@@ -201,6 +221,7 @@ export const GAMES: Game[] = [
     description: '忍者神龟街机版移植，四人合作',
     players: 2,
     romFile: 'tmnt-2.nes',
+    crc32: 'C5657C12',
     thumbnail: '/covers/tmnt-2.png',
     rating: 5,
   },
@@ -213,6 +234,7 @@ export const GAMES: Game[] = [
     description: '忍者龙剑传欧版，电影级剧情的忍者动作游戏',
     players: 1,
     romFile: 'shadow-warriors.nes',
+    crc32: '709C9399',
     thumbnail: '/covers/shadow-warriors.png',
     rating: 5,
   },
@@ -225,6 +247,7 @@ export const GAMES: Game[] = [
     description: '骑士亚瑟大战魔界的超高难度动作游戏',
     players: 1,
     romFile: 'ghosts-n-goblins.nes',
+    crc32: '9369A2F8',
     thumbnail: '/covers/ghosts-n-goblins.png',
     rating: 5,
   },
@@ -237,6 +260,7 @@ export const GAMES: Game[] = [
     description: 'Gradius姐妹篇，穿越生物体内部的射击冒险',
     players: 2,
     romFile: 'lifeforce.nes',
+    crc32: '7002FE8D',
     thumbnail: '/covers/lifeforce.png',
     rating: 5,
   },
@@ -249,6 +273,7 @@ export const GAMES: Game[] = [
     description: '抓着气球与敌人空中对决',
     players: 2,
     romFile: 'balloon-fight.nes',
+    crc32: '2721E7B3',
     thumbnail: '/covers/balloon-fight.png',
     rating: 4,
   },
@@ -261,6 +286,7 @@ export const GAMES: Game[] = [
     description: '高桥名人的热带冒险，滑板冲浪样样精通',
     players: 1,
     romFile: 'adventure-island.nes',
+    crc32: '86867830',
     thumbnail: '/covers/adventure-island.png',
     rating: 4,
   },
@@ -273,6 +299,7 @@ export const GAMES: Game[] = [
     description: '开坦克找青蛙的动作冒险神作',
     players: 1,
     romFile: 'blaster-master.nes',
+    crc32: '3F0FD764',
     thumbnail: '/covers/blaster-master.png',
     rating: 5,
   },
@@ -285,6 +312,7 @@ export const GAMES: Game[] = [
     description: '经典的弹球打砖块游戏',
     players: 1,
     romFile: 'arkanoid.nes',
+    crc32: '0E30EAC6',
     thumbnail: '/covers/arkanoid.png',
     rating: 4,
   },
@@ -297,6 +325,7 @@ export const GAMES: Game[] = [
     description: '遥控赛车竞速对战，收集武器攻击对手',
     players: 1,
     romFile: 'rc-pro-am.nes',
+    crc32: 'E5A972BE',
     thumbnail: '/covers/rc-pro-am.png',
     rating: 4,
   },
@@ -309,6 +338,7 @@ export const GAMES: Game[] = [
     description: '机械臂荡来荡去的独特动作游戏',
     players: 1,
     romFile: 'bionic-commando.nes',
+    crc32: 'D2574720',
     thumbnail: '/covers/bionic-commando.png',
     rating: 4,
   },
@@ -321,6 +351,7 @@ export const GAMES: Game[] = [
     description: '潜入敌后的战术谍报游戏鼻祖',
     players: 1,
     romFile: 'metal-gear.nes',
+    crc32: '84C4A12E',
     thumbnail: '/covers/metal-gear.png',
     rating: 5,
   },
@@ -333,6 +364,7 @@ export const GAMES: Game[] = [
     description: '马戏团表演各种杂技的欢乐游戏',
     players: 1,
     romFile: 'circus-charlie.nes',
+    crc32: '1A39343C',
     thumbnail: '/covers/circus-charlie.png',
     rating: 4,
   },
@@ -345,6 +377,7 @@ export const GAMES: Game[] = [
     description: '四只忍者神龟的横版冒险',
     players: 1,
     romFile: 'tmnt.nes',
+    crc32: '00AD1189',
     thumbnail: '/covers/tmnt.png',
     rating: 4,
   },
@@ -357,6 +390,7 @@ export const GAMES: Game[] = [
     description: '任天堂世界杯足球，可以用必杀技',
     players: 2,
     romFile: 'world-cup.nes',
+    crc32: '8DA6667D',
     thumbnail: '/covers/world-cup.png',
     rating: 4,
   },
@@ -369,6 +403,7 @@ export const GAMES: Game[] = [
     description: '魂斗罗系列续作，四个角色可选',
     players: 2,
     romFile: 'contra-force.nes',
+    crc32: 'A94591B0',
     thumbnail: '/covers/contra-force.png',
     rating: 4,
   },
@@ -381,6 +416,7 @@ export const GAMES: Game[] = [
     description: '忍者龙剑传系列续作，影子分身术',
     players: 1,
     romFile: 'shadow-warriors-2.nes',
+    crc32: 'BC25A18B',
     thumbnail: '/covers/shadow-warriors-2.png',
     rating: 5,
   },
@@ -393,6 +429,7 @@ export const GAMES: Game[] = [
     description: '忍者蛙联手双截龙的梦幻联动',
     players: 2,
     romFile: 'battletoads-dd.nes',
+    crc32: 'CEB65B06',
     thumbnail: '/covers/battletoads-dd.png',
     rating: 4,
   },
@@ -405,6 +442,7 @@ export const GAMES: Game[] = [
     description: '高桥名人回来了，骑恐龙闯关更有趣',
     players: 1,
     romFile: 'adventure-island-2.nes',
+    crc32: '7E4BA78F',
     thumbnail: '/covers/adventure-island-2.png',
     rating: 4,
   },
@@ -417,6 +455,7 @@ export const GAMES: Game[] = [
     description: '炸弹人续作，支持三人对战',
     players: 2,
     romFile: 'bomberman-2.nes',
+    crc32: '1EBB5B42',
     thumbnail: '/covers/bomberman-2.png',
     rating: 4,
   },
@@ -429,6 +468,7 @@ export const GAMES: Game[] = [
     description: 'Konami的纵向赛车经典',
     players: 1,
     romFile: 'road-fighter.nes',
+    crc32: '719571B3',
     thumbnail: '/covers/road-fighter.png',
     rating: 4,
   },
@@ -441,6 +481,7 @@ export const GAMES: Game[] = [
     description: '手持盾牌的战士冒险，动作RPG先驱',
     players: 1,
     romFile: 'rygar.nes',
+    crc32: '8F197B0A',
     thumbnail: '/covers/rygar.png',
     rating: 4,
   },
@@ -453,6 +494,7 @@ export const GAMES: Game[] = [
     description: '章节制剧情的经典JRPG',
     players: 1,
     romFile: 'dragon-quest-4.nes',
+    crc32: 'D934AD8D',
     thumbnail: '/covers/dragon-quest-4.png',
     rating: 5,
   },
@@ -465,6 +507,7 @@ export const GAMES: Game[] = [
     description: '挥刀前进的经典军事动作游戏',
     players: 1,
     romFile: 'rush-n-attack.nes',
+    crc32: 'E0AC6242',
     thumbnail: '/covers/rush-n-attack.png',
     rating: 4,
   },
@@ -477,6 +520,7 @@ export const GAMES: Game[] = [
     description: '足球小将RPG式足球游戏',
     players: 1,
     romFile: 'captain-tsubasa.nes',
+    crc32: 'F793E28A',
     thumbnail: '/covers/captain-tsubasa.png',
     rating: 4,
   },
@@ -489,6 +533,7 @@ export const GAMES: Game[] = [
     description: '二战空战经典纵向射击游戏',
     players: 1,
     romFile: '1942.nes',
+    crc32: '7A1281CF',
     thumbnail: '/covers/1942.png',
     rating: 4,
   },
@@ -501,6 +546,7 @@ export const GAMES: Game[] = [
     description: '南梦宫经典纵向射击游戏先驱',
     players: 1,
     romFile: 'xevious.nes',
+    crc32: 'D745D7CB',
     thumbnail: '/covers/xevious.png',
     rating: 4,
   },
@@ -513,6 +559,7 @@ export const GAMES: Game[] = [
     description: '大厨踩汉堡食材的经典街机游戏',
     players: 1,
     romFile: 'burger-time.nes',
+    crc32: 'E6717DC8',
     thumbnail: '/covers/burger-time.png',
     rating: 4,
   },
@@ -525,6 +572,7 @@ export const GAMES: Game[] = [
     description: '首次引入蓄力攻击的洛克人作品',
     players: 1,
     romFile: 'mega-man-4.nes',
+    crc32: '1B932BEA',
     thumbnail: '/covers/mega-man-4.png',
     rating: 4,
   },
@@ -537,6 +585,7 @@ export const GAMES: Game[] = [
     description: '三代人的史诗冒险故事',
     players: 1,
     romFile: 'dragon-quest-5.nes',
+    crc32: '82A879B7',
     thumbnail: '/covers/dragon-quest-5.png',
     rating: 5,
   },
@@ -549,6 +598,7 @@ export const GAMES: Game[] = [
     description: '恶魔城系列经典，多角色多路线',
     players: 1,
     romFile: 'akumajou-densetsu.nes',
+    crc32: '939EF07A',
     thumbnail: '/covers/akumajou-densetsu.png',
     rating: 5,
   },
@@ -561,6 +611,7 @@ export const GAMES: Game[] = [
     description: '冰冻敌人推方块的创意益智游戏',
     players: 1,
     romFile: 'kickle-cubicle.nes',
+    crc32: 'E5901A99',
     thumbnail: '/covers/kickle-cubicle.png',
     rating: 4,
   },
@@ -573,6 +624,7 @@ export const GAMES: Game[] = [
     description: '末日后世界的动作RPG冒险',
     players: 1,
     romFile: 'crystalis.nes',
+    crc32: '1335CB05',
     thumbnail: '/covers/crystalis.png',
     rating: 4,
   },
@@ -585,6 +637,7 @@ export const GAMES: Game[] = [
     description: 'Konami的经典冰球游戏',
     players: 2,
     romFile: 'blades-steel.nes',
+    crc32: '8AB52A24',
     thumbnail: '/covers/blades-steel.png',
     rating: 4,
   },
@@ -597,6 +650,7 @@ export const GAMES: Game[] = [
     description: 'Capcom经典之作，在梦境世界中冒险',
     players: 1,
     romFile: 'little-nemo.nes',
+    crc32: 'E0FFFBD2',
     thumbnail: '/covers/little-nemo.png',
     rating: 4,
   },
@@ -609,6 +663,7 @@ export const GAMES: Game[] = [
     description: '西部枪手的纵向射击冒险',
     players: 1,
     romFile: 'gun-smoke.nes',
+    crc32: 'B79C320D',
     thumbnail: '/covers/gun-smoke.png',
     rating: 4,
   },
@@ -621,6 +676,7 @@ export const GAMES: Game[] = [
     description: '迪士尼超级英雄鸭子的动作冒险',
     players: 1,
     romFile: 'darkwing-duck.nes',
+    crc32: '5DCE2EEA',
     thumbnail: '/covers/darkwing-duck.png',
     rating: 4,
   },
@@ -633,6 +689,7 @@ export const GAMES: Game[] = [
     description: '挖坑陷阱收集金块的经典益智游戏',
     players: 1,
     romFile: 'lode-runner.nes',
+    crc32: '3784AFA0',
     thumbnail: '/covers/lode-runner.png',
     rating: 4,
   },
@@ -645,6 +702,7 @@ export const GAMES: Game[] = [
     description: '迷你玩具车在桌面上竞速',
     players: 2,
     romFile: 'micro-machines.nes',
+    crc32: '9235B57B',
     thumbnail: '/covers/micro-machines.png',
     rating: 4,
   },
@@ -657,6 +715,7 @@ export const GAMES: Game[] = [
     description: '电影改编的经典射击动作游戏',
     players: 1,
     romFile: 'robocop.nes',
+    crc32: '6DCBAAFD',
     thumbnail: '/covers/robocop.png',
     rating: 3,
   },
@@ -669,6 +728,7 @@ export const GAMES: Game[] = [
     description: '成龙施展功夫的经典格斗动作游戏',
     players: 1,
     romFile: 'jackie-chan.nes',
+    crc32: '7AE5C002',
     thumbnail: '/covers/jackie-chan.png',
     rating: 4,
   },
@@ -681,6 +741,7 @@ export const GAMES: Game[] = [
     description: '幻之大地的壮丽冒险',
     players: 1,
     romFile: 'dragon-quest-6.nes',
+    crc32: '6BEA1235',
     thumbnail: '/covers/dragon-quest-6.png',
     rating: 4,
   },
@@ -693,6 +754,7 @@ export const GAMES: Game[] = [
     description: '控制弹珠滚过各种关卡的物理益智游戏',
     players: 1,
     romFile: 'marble-madness.nes',
+    crc32: '51BF28AF',
     thumbnail: '/covers/marble-madness.png',
     rating: 3,
   },
@@ -705,6 +767,7 @@ export const GAMES: Game[] = [
     description: '类似OutRun的3D赛车游戏',
     players: 1,
     romFile: 'rad-racer.nes',
+    crc32: '654F4E90',
     thumbnail: '/covers/rad-racer.png',
     rating: 3,
   },
@@ -717,6 +780,7 @@ export const GAMES: Game[] = [
     description: '纵向卷轴的军事动作射击游戏',
     players: 2,
     romFile: 'ikari-warriors.nes',
+    crc32: '538218B2',
     thumbnail: '/covers/ikari-warriors.png',
     rating: 3,
   },
@@ -729,6 +793,7 @@ export const GAMES: Game[] = [
     description: 'LucasArts经典的指向点击冒险游戏',
     players: 1,
     romFile: 'maniac-mansion.nes',
+    crc32: 'F59CFC3D',
     thumbnail: '/covers/maniac-mansion.png',
     rating: 4,
   },
@@ -741,6 +806,7 @@ export const GAMES: Game[] = [
     description: '第一人称视角的黑暗奇幻冒险',
     players: 1,
     romFile: 'shadowgate.nes',
+    crc32: '13E01649',
     thumbnail: '/covers/shadowgate.png',
     rating: 4,
   },
@@ -753,6 +819,7 @@ export const GAMES: Game[] = [
     description: '任天堂经典弹珠台游戏',
     players: 1,
     romFile: 'pinball.nes',
+    crc32: 'D6AD4E9D',
     thumbnail: '/covers/pinball.png',
     rating: 3,
   },
@@ -765,6 +832,7 @@ export const GAMES: Game[] = [
     description: '马里奥拿锤子拆墙的益智动作游戏',
     players: 1,
     romFile: 'wrecking-crew.nes',
+    crc32: '01B07343',
     rating: 3,
   },
   {
@@ -776,6 +844,7 @@ export const GAMES: Game[] = [
     description: '隐藏神作，绿色小玩偶的星星冒险',
     players: 1,
     romFile: 'mr-gimmick.nes',
+    crc32: 'A713DD30',
     thumbnail: '/covers/mr-gimmick.png',
     rating: 5,
   },
@@ -788,6 +857,7 @@ export const GAMES: Game[] = [
     description: '被严重低估的横版射击神作',
     players: 1,
     romFile: 'over-horizon.nes',
+    crc32: '9237B447',
     thumbnail: '/covers/over-horizon.png',
     rating: 5,
   },
@@ -800,6 +870,7 @@ export const GAMES: Game[] = [
     description: 'Gradius的搞笑版，章鱼和企鹅上阵',
     players: 1,
     romFile: 'parodius.nes',
+    crc32: '083E4FC1',
     thumbnail: '/covers/parodius.png',
     rating: 4,
   },
@@ -812,6 +883,7 @@ export const GAMES: Game[] = [
     description: '经典格斗游戏的FC版本',
     players: 2,
     romFile: 'street-fighter-2.nes',
+    crc32: 'E72A32AA',
     thumbnail: '/covers/street-fighter-2.png',
     rating: 3,
   },
@@ -824,6 +896,7 @@ export const GAMES: Game[] = [
     description: 'FC上最经典的拳皇移植版，Rex Soft制作，9名可选角色组队对战',
     players: 2,
     romFile: 'king-of-fighters-97.nes',
+    crc32: 'FFB3E74A',
     thumbnail: '/covers/king-of-fighters-97.png',
     rating: 4,
   },
@@ -836,6 +909,7 @@ export const GAMES: Game[] = [
     description: 'SNK经典格斗游戏的FC盗版移植，三人组队制',
     players: 2,
     romFile: 'king-of-fighters-96.nes',
+    crc32: '4C13B5D0',
     thumbnail: '/covers/king-of-fighters-96.png',
     rating: 3,
   },
@@ -848,6 +922,7 @@ export const GAMES: Game[] = [
     description: '拳皇系列FC版的后期作品，加入援护攻击系统',
     players: 2,
     romFile: 'king-of-fighters-99.nes',
+    crc32: '08F3544B',
     thumbnail: '/covers/king-of-fighters-99.png',
     rating: 3,
   },
@@ -860,6 +935,7 @@ export const GAMES: Game[] = [
     description: 'FC盗版街霸续作，18名可选角色，JY Company出品',
     players: 2,
     romFile: 'street-fighter-3.nes',
+    crc32: '204C225C',
     thumbnail: '/covers/street-fighter-3.png',
     rating: 3,
   },
@@ -872,6 +948,7 @@ export const GAMES: Game[] = [
     description: 'Gouder公司制作的FC街霸系列续作',
     players: 2,
     romFile: 'street-fighter-4.nes',
+    crc32: '07EB2C12',
     thumbnail: '/covers/street-fighter-4.png',
     rating: 3,
   },
@@ -884,6 +961,7 @@ export const GAMES: Game[] = [
     description: 'Cony Soft出品，FC上最完善的街霸盗版，几乎包含全部角色',
     players: 2,
     romFile: 'street-fighter-v-turbo.nes',
+    crc32: 'BF78E8C1',
     thumbnail: '/covers/street-fighter-v-turbo.png',
     rating: 4,
   },
@@ -896,6 +974,7 @@ export const GAMES: Game[] = [
     description: 'Hummer Team制作的高质量FC街霸移植，还原度极高',
     players: 2,
     romFile: 'street-fighter-zero-2.nes',
+    crc32: 'DDCFB058',
     thumbnail: '/covers/street-fighter-zero-2.png',
     rating: 4,
   },
@@ -908,6 +987,7 @@ export const GAMES: Game[] = [
     description: 'SNK经典格斗的FC移植，双线战斗系统',
     players: 2,
     romFile: 'fatal-fury-2.nes',
+    crc32: 'CDB8C6A5',
     thumbnail: '/covers/fatal-fury-2.png',
     rating: 3,
   },
@@ -920,6 +1000,7 @@ export const GAMES: Game[] = [
     description: '饿狼传说系列的特别版FC移植',
     players: 2,
     romFile: 'garou-densetsu-special.nes',
+    crc32: 'D3AC6990',
     thumbnail: '/covers/garou-densetsu-special.png',
     rating: 3,
   },
@@ -932,6 +1013,7 @@ export const GAMES: Game[] = [
     description: 'Cony Soft制作，历史名人跨时空格斗对决',
     players: 2,
     romFile: 'world-heroes-2.nes',
+    crc32: '23386B90',
     thumbnail: '/covers/world-heroes-2.png',
     rating: 3,
   },
@@ -944,6 +1026,7 @@ export const GAMES: Game[] = [
     description: 'SNK经典武器格斗游戏的FC移植版',
     players: 2,
     romFile: 'samurai-spirits-2.nes',
+    crc32: 'DD4D9A62',
     thumbnail: '/covers/samurai-spirits-2.png',
     rating: 3,
   },
@@ -956,6 +1039,7 @@ export const GAMES: Game[] = [
     description: 'FC盗版真人快打，暴力格斗的经典系列',
     players: 2,
     romFile: 'mortal-kombat-4.nes',
+    crc32: 'A39311CA',
     thumbnail: '/covers/mortal-kombat-4.png',
     rating: 3,
   },
@@ -968,6 +1052,7 @@ export const GAMES: Game[] = [
     description: '泡泡龙系列的平台跳跃续作',
     players: 2,
     romFile: 'parasol-stars.nes',
+    crc32: 'B1C937C8',
     rating: 4,
   },
   {
@@ -979,6 +1064,7 @@ export const GAMES: Game[] = [
     description: '用彩虹当武器的可爱平台游戏',
     players: 1,
     romFile: 'rainbow-islands.nes',
+    crc32: 'BE0E93C3',
     thumbnail: '/covers/rainbow-islands.png',
     rating: 4,
   },
@@ -991,6 +1077,7 @@ export const GAMES: Game[] = [
     description: '现代都市背景的另类RPG鼻祖',
     players: 1,
     romFile: 'earthbound-zero.nes',
+    crc32: '53A9E2BA',
     thumbnail: '/covers/earthbound-zero.png',
     rating: 4,
   },
@@ -1003,6 +1090,7 @@ export const GAMES: Game[] = [
     description: '蜘蛛侠对抗邪恶六人组',
     players: 1,
     romFile: 'spider-man.nes',
+    crc32: 'D679627A',
     thumbnail: '/covers/spider-man.png',
     rating: 3,
   },
@@ -1015,6 +1103,7 @@ export const GAMES: Game[] = [
     description: '驾驶快艇的水上动作竞速',
     players: 1,
     romFile: 'cobra-triangle.nes',
+    crc32: 'C8AD4F32',
     thumbnail: '/covers/cobra-triangle.png',
     rating: 4,
   },
@@ -1027,6 +1116,7 @@ export const GAMES: Game[] = [
     description: '根据电影改编的冒险动作游戏',
     players: 1,
     romFile: 'goonies-2.nes',
+    crc32: '8897A8F1',
     thumbnail: '/covers/goonies-2.png',
     rating: 4,
   },
@@ -1039,6 +1129,7 @@ export const GAMES: Game[] = [
     description: '红魔鬼的飞行冒险动作RPG',
     players: 1,
     romFile: 'gargoyles-quest-2.nes',
+    crc32: '86C495C6',
     thumbnail: '/covers/gargoyles-quest-2.png',
     rating: 4,
   },
@@ -1051,6 +1142,7 @@ export const GAMES: Game[] = [
     description: '用拳头打碎一切的硬派动作游戏',
     players: 1,
     romFile: 'shatterhand.nes',
+    crc32: '348D3FF1',
     thumbnail: '/covers/shatterhand.png',
     rating: 4,
   },
@@ -1063,6 +1155,7 @@ export const GAMES: Game[] = [
     description: '任天堂早期经典网球游戏',
     players: 2,
     romFile: 'tennis.nes',
+    crc32: '304FA926',
     thumbnail: '/covers/tennis.png',
     rating: 3,
   },
@@ -1075,6 +1168,7 @@ export const GAMES: Game[] = [
     description: '经典街机格斗游戏的FC版',
     players: 2,
     romFile: 'final-fight-3.nes',
+    crc32: '362000F0',
     thumbnail: '/covers/final-fight-3.png',
     rating: 3,
   },
@@ -1087,6 +1181,7 @@ export const GAMES: Game[] = [
     description: '任天堂经典的高尔夫球游戏',
     players: 1,
     romFile: 'golf.nes',
+    crc32: '565B1BDB',
     thumbnail: '/covers/golf.png',
     rating: 3,
   },
@@ -1099,6 +1194,7 @@ export const GAMES: Game[] = [
     description: '任天堂经典棒球游戏',
     players: 2,
     romFile: 'baseball.nes',
+    crc32: '580E350E',
     thumbnail: '/covers/baseball.png',
     rating: 3,
   },
@@ -1111,6 +1207,7 @@ export const GAMES: Game[] = [
     description: '末日后世界的摩托追逐射击',
     players: 1,
     romFile: 'mach-rider.nes',
+    crc32: 'E57E5384',
     thumbnail: '/covers/mach-rider.png',
     rating: 3,
   },
@@ -1123,6 +1220,7 @@ export const GAMES: Game[] = [
     description: '迪士尼经典动画改编，辛巴的成长冒险',
     players: 1,
     romFile: 'lion-king.nes',
+    crc32: '89984244',
     thumbnail: '/covers/lion-king.png',
     rating: 4,
   },
@@ -1135,6 +1233,7 @@ export const GAMES: Game[] = [
     description: '迪士尼森林王子的丛林冒险',
     players: 1,
     romFile: 'jungle-book.nes',
+    crc32: '7DA77F11',
     thumbnail: '/covers/jungle-book.png',
     rating: 3,
   },
@@ -1147,6 +1246,7 @@ export const GAMES: Game[] = [
     description: '彼得·潘大战铁钩船长',
     players: 1,
     romFile: 'hook.nes',
+    crc32: 'BF888B75',
     thumbnail: '/covers/hook.png',
     rating: 3,
   },
@@ -1159,6 +1259,7 @@ export const GAMES: Game[] = [
     description: '魂斗罗欧版，用机器人代替真人',
     players: 2,
     romFile: 'probotector.nes',
+    crc32: 'B13F00D4',
     thumbnail: '/covers/probotector.png',
     rating: 4,
   },
@@ -1171,6 +1272,7 @@ export const GAMES: Game[] = [
     description: '超级魂斗罗欧版，难度升级',
     players: 2,
     romFile: 'probotector-2.nes',
+    crc32: '37A5EB52',
     thumbnail: '/covers/probotector-2.png',
     rating: 4,
   },
@@ -1183,6 +1285,7 @@ export const GAMES: Game[] = [
     description: '经典的F1方程式赛车游戏',
     players: 1,
     romFile: 'f1-race.nes',
+    crc32: 'E0604F76',
     thumbnail: '/covers/f1-race.png',
     rating: 3,
   },
@@ -1195,6 +1298,7 @@ export const GAMES: Game[] = [
     description: '三国题材的策略RPG，招募武将组建军队',
     players: 1,
     romFile: 'destiny-emperor.nes',
+    crc32: 'A558FB52',
     thumbnail: '/covers/destiny-emperor.png',
     rating: 4,
   },
@@ -1207,6 +1311,7 @@ export const GAMES: Game[] = [
     description: '热血系列的运动竞技大会',
     players: 2,
     romFile: 'nekketsu-sports.nes',
+    crc32: '12D2B6B0',
     thumbnail: '/covers/nekketsu-sports.png',
     rating: 4,
   },
@@ -1219,6 +1324,7 @@ export const GAMES: Game[] = [
     description: '三国志英杰传FC版',
     players: 1,
     romFile: 'san-guo-zhi.nes',
+    crc32: 'DA07391E',
     thumbnail: '/covers/san-guo-zhi.png',
     rating: 4,
   },
@@ -1231,6 +1337,7 @@ export const GAMES: Game[] = [
     description: '挖掘宝石避开落石的经典益智游戏',
     players: 1,
     romFile: 'boulder-dash.nes',
+    crc32: '0364C3EC',
     thumbnail: '/covers/boulder-dash.png',
     rating: 3,
   },
@@ -1243,6 +1350,7 @@ export const GAMES: Game[] = [
     description: 'Konami的快节奏足球游戏',
     players: 2,
     romFile: 'soccer.nes',
+    crc32: 'D7B35F7D',
     thumbnail: '/covers/soccer.png',
     rating: 3,
   },
@@ -1255,6 +1363,7 @@ export const GAMES: Game[] = [
     description: '总统被绑架了！两个硬汉出发营救',
     players: 2,
     romFile: 'bad-dudes.nes',
+    crc32: '8C252AC4',
     thumbnail: '/covers/bad-dudes.png',
     rating: 3,
   },
@@ -1267,6 +1376,7 @@ export const GAMES: Game[] = [
     description: '赤壁之战的策略游戏',
     players: 1,
     romFile: 'san-guo-zhi-4.nes',
+    crc32: 'FCED9648',
     thumbnail: '/covers/san-guo-zhi-4.png',
     rating: 3,
   },
@@ -1279,6 +1389,7 @@ export const GAMES: Game[] = [
     description: '美国队长的盾牌动作冒险',
     players: 1,
     romFile: 'captain-america.nes',
+    crc32: 'A531E1AB',
     thumbnail: '/covers/captain-america.png',
     rating: 3,
   },
@@ -1291,6 +1402,7 @@ export const GAMES: Game[] = [
     description: '二战潜艇模拟游戏',
     players: 1,
     romFile: 'silent-service.nes',
+    crc32: 'FA014BA1',
     thumbnail: '/covers/silent-service.png',
     rating: 3,
   },
@@ -1303,6 +1415,7 @@ export const GAMES: Game[] = [
     description: '热血系列的街头运动竞技',
     players: 2,
     romFile: 'crash-boys.nes',
+    crc32: 'C7F0C457',
     thumbnail: '/covers/crash-boys.png',
     rating: 4,
   },
@@ -1315,6 +1428,7 @@ export const GAMES: Game[] = [
     description: '第一人称视角的坦克战斗游戏',
     players: 1,
     romFile: 'battle-tank.nes',
+    crc32: '90D68A43',
     thumbnail: '/covers/battle-tank.png',
     rating: 3,
   },
@@ -1327,6 +1441,7 @@ export const GAMES: Game[] = [
     description: '北非战场的回合制战略游戏',
     players: 2,
     romFile: 'desert-commander.nes',
+    crc32: '68EC97CB',
     thumbnail: '/covers/desert-commander.png',
     rating: 3,
   },
@@ -1339,6 +1454,7 @@ export const GAMES: Game[] = [
     description: '控制哥斯拉和摩斯拉的怪兽大战',
     players: 1,
     romFile: 'godzilla.nes',
+    crc32: '46480432',
     thumbnail: '/covers/godzilla.png',
     rating: 3,
   },
@@ -1351,6 +1467,7 @@ export const GAMES: Game[] = [
     description: '回合制军事策略游戏',
     players: 1,
     romFile: 'conflict.nes',
+    crc32: '32CF4307',
     thumbnail: '/covers/conflict.png',
     rating: 3,
   },
@@ -1363,6 +1480,7 @@ export const GAMES: Game[] = [
     description: '四人合作的地牢探索游戏',
     players: 2,
     romFile: 'gauntlet-2.nes',
+    crc32: '79F688BC',
     thumbnail: '/covers/gauntlet-2.png',
     rating: 3,
   },
@@ -1375,6 +1493,7 @@ export const GAMES: Game[] = [
     description: '马里奥和耀西的益智小游戏',
     players: 1,
     romFile: 'mario-yoshi.nes',
+    crc32: '836685C4',
     thumbnail: '/covers/mario-yoshi.png',
     rating: 3,
   },
@@ -1387,6 +1506,7 @@ export const GAMES: Game[] = [
     description: '迷你怪物的横版动作冒险',
     players: 2,
     romFile: 'monster-pocket.nes',
+    crc32: '80250D64',
     thumbnail: '/covers/monster-pocket.png',
     rating: 3,
   },
@@ -1399,6 +1519,7 @@ export const GAMES: Game[] = [
     description: '用大脑袋攻击敌人的原始人冒险',
     players: 1,
     romFile: 'bonk-adventure.nes',
+    crc32: '4E44FF44',
     thumbnail: '/covers/bonk-adventure.png',
     rating: 4,
   },
@@ -1411,6 +1532,7 @@ export const GAMES: Game[] = [
     description: '工人大叔挥锤子横扫一切',
     players: 1,
     romFile: 'hammerin-harry.nes',
+    crc32: '67CBC0A0',
     thumbnail: '/covers/hammerin-harry.png',
     rating: 3,
   },
@@ -1423,6 +1545,7 @@ export const GAMES: Game[] = [
     description: '精彩的越野拉力赛',
     players: 1,
     romFile: 'championship-rally.nes',
+    crc32: 'C076D66F',
     thumbnail: '/covers/championship-rally.png',
     rating: 3,
   },
@@ -1435,6 +1558,7 @@ export const GAMES: Game[] = [
     description: 'FC上的马里奥世界移植版',
     players: 1,
     romFile: 'super-mario-world.nes',
+    crc32: 'D63D6B36',
     thumbnail: '/covers/super-mario-world.png',
     rating: 4,
   },
@@ -1447,6 +1571,7 @@ export const GAMES: Game[] = [
     description: '西部牛仔的动作冒险',
     players: 1,
     romFile: 'cowboy-kid.nes',
+    crc32: 'D18E6BE3',
     thumbnail: '/covers/cowboy-kid.png',
     rating: 3,
   },
@@ -1459,6 +1584,7 @@ export const GAMES: Game[] = [
     description: '大金刚丛林冒险的FC移植版',
     players: 1,
     romFile: 'super-donkey-kong.nes',
+    crc32: '4E7729FF',
     thumbnail: '/covers/super-donkey-kong.png',
     rating: 4,
   },
@@ -1471,6 +1597,7 @@ export const GAMES: Game[] = [
     description: '低重力环境下的跳跃射击游戏',
     players: 1,
     romFile: 'low-g-man.nes',
+    crc32: 'AF65AA84',
     thumbnail: '/covers/low-g-man.png',
     rating: 3,
   },
@@ -1483,6 +1610,7 @@ export const GAMES: Game[] = [
     description: '忍者风格的快节奏动作游戏',
     players: 1,
     romFile: 'demon-sword.nes',
+    crc32: '57C12280',
     thumbnail: '/covers/demon-sword.png',
     rating: 3,
   },
@@ -1495,6 +1623,7 @@ export const GAMES: Game[] = [
     description: '两个小精灵救妈妈的可爱动作游戏',
     players: 2,
     romFile: 'rod-land.nes',
+    crc32: '22AB9694',
     thumbnail: '/covers/rod-land.png',
     rating: 3,
   },
@@ -1507,6 +1636,7 @@ export const GAMES: Game[] = [
     description: '忍者变身动物的动作游戏',
     players: 2,
     romFile: 'ninja-crusaders.nes',
+    crc32: '3D1C4894',
     thumbnail: '/covers/ninja-crusaders.png',
     rating: 3,
   },
@@ -1519,6 +1649,7 @@ export const GAMES: Game[] = [
     description: '用头发甩敌人的独特动作游戏',
     players: 1,
     romFile: 'kabuki-quantum.nes',
+    crc32: 'BCCFEF1C',
     thumbnail: '/covers/kabuki-quantum.png',
     rating: 3,
   },
@@ -1531,6 +1662,7 @@ export const GAMES: Game[] = [
     description: '小奇异鸟救同伴的可爱冒险',
     players: 1,
     romFile: 'new-zealand-story.nes',
+    crc32: '666BE5EC',
     thumbnail: '/covers/new-zealand-story.png',
     rating: 3,
   },
@@ -1543,6 +1675,7 @@ export const GAMES: Game[] = [
     description: '斜视角的创新射击动作游戏',
     players: 1,
     romFile: 'isolated-warrior.nes',
+    crc32: '4BB9B840',
     thumbnail: '/covers/isolated-warrior.png',
     rating: 3,
   },
@@ -1555,6 +1688,7 @@ export const GAMES: Game[] = [
     description: '猫和老鼠的追逐冒险',
     players: 1,
     romFile: 'tom-jerry-3.nes',
+    crc32: '0AA49929',
     rating: 3,
   },
   {
@@ -1566,6 +1700,7 @@ export const GAMES: Game[] = [
     description: '少年与神犬拯救水晶王国',
     players: 1,
     romFile: 'conquest-crystal.nes',
+    crc32: '20A5219B',
     thumbnail: '/covers/conquest-crystal.png',
     rating: 3,
   },
@@ -1578,6 +1713,7 @@ export const GAMES: Game[] = [
     description: '同时控制两只企鹅的镜像操作益智游戏',
     players: 2,
     romFile: 'binary-land.nes',
+    crc32: '26624522',
     thumbnail: '/covers/binary-land.png',
     rating: 3,
   },
@@ -1590,6 +1726,7 @@ export const GAMES: Game[] = [
     description: '太空台球，桌面形状千变万化',
     players: 2,
     romFile: 'lunar-pool.nes',
+    crc32: 'EEE0C7F8',
     thumbnail: '/covers/lunar-pool.png',
     rating: 3,
   },
@@ -0,0 +1,176 @@
+/**
+ * 音频缓冲与动态速率控制
+ * 主线程把 jsnes 的采样写入单生产者/单消费者的无锁环形缓冲，
+ * 输出端（AudioWorklet 或 ScriptProcessor）按缓冲水位微调重采样比例，
+ * 让缓冲稳定在目标水位附近：既不断音，也不因积压而需要丢弃采样
+ */
+
+/** jsnes 输出的采样率（由 NesCore 传给 jsnes） */
+export const AUDIO_SAMPLE_RATE = 48000;
+
+/** 目标缓冲时长（秒），不含输出端每次取走的一块 */
+const TARGET_LATENCY = 0.05;
+/** 重采样比例的最大调整幅度，0.5% 的音高变化听不出来 */
+const MAX_RATE_DELTA = 0.005;
+/** 水位平滑的时间常数（秒），避免按块到达的采样让比例来回抖动 */
+const FILL_SMOOTHING = 0.5;
+
+/** 读写位置占用的 Int32 个数 */
+const HEADER_INTS = 2;
+const READ = 0;
+const WRITE = 1;
+
+/**
+ * 立体声环形缓冲，底层可以是 SharedArrayBuffer（跨线程）或普通 ArrayBuffer
+ * 读写位置只增不减（溢出后回绕），用 Atomics 发布，生产者只写 WRITE、消费者只写 READ；
+ * 容量为 2 的幂，位置按掩码取模
+ */
+export class AudioRingBuffer {
+  readonly capacity: number;
+  private mask: number;
+  private header: Int32Array;
+  private left: Float32Array;
+  private right: Float32Array;
+
+  constructor(readonly buffer: SharedArrayBuffer | ArrayBuffer) {
+    this.header = new Int32Array(buffer, 0, HEADER_INTS);
+    const dataOffset = HEADER_INTS * Int32Array.BYTES_PER_ELEMENT;
+    this.capacity = (buffer.byteLength - dataOffset) / Float32Array.BYTES_PER_ELEMENT / 2;
+    this.mask = this.capacity - 1;
+    this.left = new Float32Array(buffer, dataOffset, this.capacity);
+    this.right = new Float32Array(buffer, dataOffset + this.capacity * Float32Array.BYTES_PER_ELEMENT, this.capacity);
+  }
+
+  /** 分配能容纳 capacity 帧（2 的幂）的缓冲 */
+  static allocate(capacity: number, shared: boolean): AudioRingBuffer {
+    const bytes = HEADER_INTS * Int32Array.BYTES_PER_ELEMENT + capacity * 2 * Float32Array.BYTES_PER_ELEMENT;
+    return new AudioRingBuffer(shared ? new SharedArrayBuffer(bytes) : new ArrayBuffer(bytes));
+  }
+
+  /** 可读的帧数 */
+  available(): number {
+    return (Atomics.load(this.header, WRITE) - Atomics.load(this.header, READ)) | 0;
+  }
+
+  /** 写入采样，缓冲满时丢弃多出的部分；返回写入的帧数 */
+  write(left: Float32Array, right: Float32Array): number {
+    const write = Atomics.load(this.header, WRITE);
+    const count = Math.min(left.length, this.capacity - ((write - Atomics.load(this.header, READ)) | 0));
+    for (let i = 0; i < count; i++) {
+      const at = (write + i) & this.mask;
+      this.left[at] = left[i];
+      this.right[at] = right[i];
+    }
+    Atomics.store(this.header, WRITE, (write + count) | 0);
+    return count;
+  }
+
+  /** 丢弃最多 count 帧 */
+  skip(count: number): void {
+    const read = Atomics.load(this.header, READ);
+    Atomics.store(this.header, READ, (read + Math.min(count, this.available())) | 0);
+  }
+
+  /** 读出最多 left.length 帧，返回读出的帧数 */
+  read(left: Float32Array, right: Float32Array): number {
+    const read = Atomics.load(this.header, READ);
+    const count = Math.min(left.length, (Atomics.load(this.header, WRITE) - read) | 0);
+    for (let i = 0; i < count; i++) {
+      const at = (read + i) & this.mask;
+      left[i] = this.left[at];
+      right[i] = this.right[at];
+    }
+    Atomics.store(this.header, READ, (read + count) | 0);
+    return count;
+  }
+}
+
+/**
+ * 从环形缓冲读取采样并线性插值到输出采样率
+ * 比例 = 输入采样率 / 输出采样率 ×（1 ± 水位偏差 × MAX_RATE_DELTA）：
+ * 缓冲偏满时读得稍快，偏空时读得稍慢；缓冲读空后重新攒到目标水位再出声
+ */
+export class DynamicResampler {
+  private readonly baseRatio: number;
+  private readonly target: number;
+  private readonly smoothing: number;
+  private averageFill = 0;
+  private buffering = true;
+
+  /** 从环形缓冲预读的一小块 */
+  private blockL = new Float32Array(128);
+  private blockR = new Float32Array(128);
+  private blockPos = 0;
+  private blockLength = 0;
+
+  /** 插值用的前后两帧，frac 为当前输出位置在两帧之间的比例 */
+  private prevL = 0;
+  private prevR = 0;
+  private nextL = 0;
+  private nextR = 0;
+  private frac = 0;
+
+  constructor(private ring: AudioRingBuffer, outputRate: number, outputBlock: number) {
+    this.baseRatio = AUDIO_SAMPLE_RATE / outputRate;
+    this.target = Math.ceil(outputBlock * this.baseRatio) + Math.round(AUDIO_SAMPLE_RATE * TARGET_LATENCY);
+    this.smoothing = 1 - Math.exp(-outputBlock / outputRate / FILL_SMOOTHING);
+  }
+
+  /** 缓冲中的帧数（含已预读未使用的部分） */
+  private fill(): number {
+    return this.ring.available() + this.blockLength - this.blockPos;
+  }
+
+  /** 前进一帧，缓冲为空时返回 false */
+  private advance(): boolean {
+    if (this.blockPos >= this.blockLength) {
+      this.blockLength = this.ring.read(this.blockL, this.blockR);
+      this.blockPos = 0;
+      if (this.blockLength === 0) return false;
+    }
+    this.prevL = this.nextL;
+    this.prevR = this.nextR;
+    this.nextL = this.blockL[this.blockPos];
+    this.nextR = this.blockR[this.blockPos];
+    this.blockPos++;
+    return true;
+  }
+
+  /** 填满一块输出，缓冲不足的部分输出静音 */
+  render(outL: Float32Array, outR: Float32Array): void {
+    let fill = this.fill();
+    // 积压过多（如切回标签页时一次收到大量采样）时直接丢弃，回到目标水位，否则要很久才能靠微调消化
+    if (fill > this.target * 2) {
+      this.ring.skip(fill - this.target);
+      fill = this.fill();
+      this.averageFill = fill;
+    }
+    if (this.buffering) {
+      if (fill < this.target) {
+        outL.fill(0);
+        outR.fill(0);
+        return;
+      }
+      this.buffering = false;
+      this.averageFill = fill;
+    }
+    this.averageFill += (fill - this.averageFill) * this.smoothing;
+    const deviation = Math.max(-1, Math.min(1, (this.averageFill - this.target) / this.target));
+    const ratio = this.baseRatio * (1 + deviation * MAX_RATE_DELTA);
+
+    for (let i = 0; i < outL.length; i++) {
+      while (this.frac >= 1) {
+        if (!this.advance()) {
+          outL.fill(0, i);
+          outR.fill(0, i);
+          this.buffering = true;
+          return;
+        }
+        this.frac -= 1;
+      }
+      outL[i] = this.prevL + (this.nextL - this.prevL) * this.frac;
+      outR[i] = this.prevR + (this.nextR - this.prevR) * this.frac;
+      this.frac += ratio;
+    }
+  }
+}
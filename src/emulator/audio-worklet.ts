@@ -0,0 +1,39 @@
+/**
+ * 音频输出 AudioWorklet
+ * 在音频线程从 SharedArrayBuffer 环形缓冲读取采样，经动态速率控制重采样后输出（见 audio-buffer.ts）
+ * 由 audio.ts 以 ?worker&url 引入，单独打包后通过 audioWorklet.addModule 载入
+ */
+
+import { AudioRingBuffer, DynamicResampler } from './audio-buffer';
+
+/** AudioWorkletGlobalScope 的声明（lib.dom 中没有） */
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  constructor(options: { processorOptions: NesAudioOptions });
+}
+declare function registerProcessor(name: string, processor: typeof NesAudioProcessor): void;
+
+export interface NesAudioOptions {
+  buffer: SharedArrayBuffer;
+}
+
+/** 每次 process 输出的帧数（Web Audio 固定的渲染块大小） */
+const RENDER_QUANTUM = 128;
+
+class NesAudioProcessor extends AudioWorkletProcessor {
+  private resampler: DynamicResampler;
+
+  constructor(options: { processorOptions: NesAudioOptions }) {
+    super(options);
+    const ring = new AudioRingBuffer(options.processorOptions.buffer);
+    this.resampler = new DynamicResampler(ring, sampleRate, RENDER_QUANTUM);
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const [left, right] = outputs[0];
+    this.resampler.render(left, right);
+    return true;
+  }
+}
+
+registerProcessor('nes-audio', NesAudioProcessor);
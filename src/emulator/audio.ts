@@ -1,13 +1,26 @@
 /**
  * NES 音频处理模块
- * 使用 Web Audio API 处理 jsnes 的音频输出
+ * 使用 Web Audio API 播放模拟 worker 发来的 jsnes 音频采样：
+ * 采样写入环形缓冲，页面跨源隔离（可用 SharedArrayBuffer）时由 AudioWorklet 在音频线程读取，
+ * 否则退回 ScriptProcessorNode；两者都经动态速率控制重采样到设备采样率（见 audio-buffer.ts）
  */
 
-export class AudioHandler {
+import type { AudioSink } from './core';
+import type { NesAudioOptions } from './audio-worklet';
+import { AudioRingBuffer, DynamicResampler } from './audio-buffer';
+import workletUrl from './audio-worklet.ts?worker&url';
+
+/** 环形缓冲容量（帧），48 kHz 下约 0.34 秒 */
+const RING_CAPACITY = 16384;
+/** ScriptProcessorNode 每次回调的帧数 */
+const SCRIPT_BUFFER_SIZE = 2048;
+
+export class AudioHandler implements AudioSink {
   private audioCtx: AudioContext | null = null;
-  private scriptNode: ScriptProcessorNode | null = null;
-  private bufferL: Float32Array[] = [];
-  private bufferR: Float32Array[] = [];
+  private gainNode: GainNode | null = null;
+  /** AudioWorkletNode 或 ScriptProcessorNode，就绪前为 null */
+  private outputNode: AudioNode | null = null;
+  private ring: AudioRingBuffer | null = null;
   private _volume = 1.0;
   private _muted = false;
 
@@ -17,6 +30,7 @@ export class AudioHandler {
 
   set volume(v: number) {
     this._volume = Math.max(0, Math.min(1, v));
+    this.updateGain();
   }
 
   get muted(): boolean {
@@ -25,100 +39,85 @@ export class AudioHandler {
 
   set muted(m: boolean) {
     this._muted = m;
+    this.updateGain();
   }
 
-  /** 获取 jsnes onAudioSample 回调 */
-  getSampleCallback(): (left: number, right: number) => void {
-    // 使用一个临时缓冲收集采样，每 4096 个采样为一组
-    let samplesL: number[] = [];
-    let samplesR: number[] = [];
-
-    return (left: number, right: number) => {
-      samplesL.push(left);
-      samplesR.push(right);
-
-      if (samplesL.length >= 2048) {
-        this.bufferL.push(new Float32Array(samplesL));
-        this.bufferR.push(new Float32Array(samplesR));
-        samplesL = [];
-        samplesR = [];
-      }
-    };
+  /** 接收一组采样（由 NesCore 或模拟 worker 分块发送）；输出就绪前丢弃，避免启动时积压 */
+  push(left: Float32Array, right: Float32Array): void {
+    if (!this.outputNode) return;
+    this.ring?.write(left, right);
   }
 
   /** 启动音频上下文和播放 */
   start(): void {
     if (this.audioCtx) return;
 
-    this.audioCtx = new AudioContext({ sampleRate: 44100 });
+    const ctx = new AudioContext({ latencyHint: 'interactive' });
+    this.audioCtx = ctx;
+    this.gainNode = ctx.createGain();
+    this.gainNode.connect(ctx.destination);
+    this.updateGain();
+
+    const shared = typeof SharedArrayBuffer !== 'undefined' && window.crossOriginIsolated;
+    this.ring = AudioRingBuffer.allocate(RING_CAPACITY, shared);
+    if (shared && ctx.audioWorklet) {
+      void this.startWorklet(ctx, this.ring);
+    } else {
+      this.startScriptProcessor(ctx, this.ring);
+    }
+  }
+
+  private async startWorklet(ctx: AudioContext, ring: AudioRingBuffer): Promise<void> {
+    try {
+      await ctx.audioWorklet.addModule(workletUrl);
+      if (this.audioCtx !== ctx) return;
+      const processorOptions: NesAudioOptions = { buffer: ring.buffer as SharedArrayBuffer };
+      const node = new AudioWorkletNode(ctx, 'nes-audio', {
+        numberOfInputs: 0,
+        outputChannelCount: [2],
+        processorOptions,
+      });
+      this.connectOutput(node);
+    } catch (err) {
+      console.error('AudioWorklet unavailable, falling back to ScriptProcessorNode:', err);
+      if (this.audioCtx === ctx) this.startScriptProcessor(ctx, ring);
+    }
+  }
+
+  private startScriptProcessor(ctx: AudioContext, ring: AudioRingBuffer): void {
     // ScriptProcessorNode 虽已 deprecated 但兼容性最好
-    this.scriptNode = this.audioCtx.createScriptProcessor(4096, 0, 2);
-
-    this.scriptNode.onaudioprocess = (e: AudioProcessingEvent) => {
-      const outL = e.outputBuffer.getChannelData(0);
-      const outR = e.outputBuffer.getChannelData(1);
-
-      if (this._muted) {
-        outL.fill(0);
-        outR.fill(0);
-        // 清空缓冲，避免延迟积累
-        this.bufferL.length = 0;
-        this.bufferR.length = 0;
-        return;
-      }
-
-      let offset = 0;
-      while (offset < outL.length && this.bufferL.length > 0) {
-        const chunkL = this.bufferL[0];
-        const chunkR = this.bufferR[0];
-        const remaining = outL.length - offset;
-        const toCopy = Math.min(remaining, chunkL.length);
-
-        for (let i = 0; i < toCopy; i++) {
-          outL[offset + i] = chunkL[i] * this._volume;
-          outR[offset + i] = chunkR[i] * this._volume;
-        }
-
-        if (toCopy < chunkL.length) {
-          // 还有剩余，截断当前 chunk
-          this.bufferL[0] = chunkL.subarray(toCopy);
-          this.bufferR[0] = chunkR.subarray(toCopy);
-        } else {
-          this.bufferL.shift();
-          this.bufferR.shift();
-        }
-
-        offset += toCopy;
-      }
-
-      // 如果缓冲不够，剩余部分填 0
-      for (let i = offset; i < outL.length; i++) {
-        outL[i] = 0;
-        outR[i] = 0;
-      }
-
-      // 防止缓冲积压导致延迟（保留不超过 3 组）
-      if (this.bufferL.length > 3) {
-        this.bufferL.splice(0, this.bufferL.length - 3);
-        this.bufferR.splice(0, this.bufferR.length - 3);
-      }
+    const node = ctx.createScriptProcessor(SCRIPT_BUFFER_SIZE, 0, 2);
+    const resampler = new DynamicResampler(ring, ctx.sampleRate, SCRIPT_BUFFER_SIZE);
+    node.onaudioprocess = (e: AudioProcessingEvent) => {
+      resampler.render(e.outputBuffer.getChannelData(0), e.outputBuffer.getChannelData(1));
     };
+    this.connectOutput(node);
+  }
+
+  private connectOutput(node: AudioNode): void {
+    if (!this.gainNode) return;
+    node.connect(this.gainNode);
+    this.outputNode = node;
+  }
 
-    this.scriptNode.connect(this.audioCtx.destination);
+  /** 音量、静音都通过增益节点实现，采样照常流动，恢复时不会断续 */
+  private updateGain(): void {
+    if (!this.gainNode) return;
+    this.gainNode.gain.value = this._muted ? 0 : this._volume;
   }
 
   /** 停止音频 */
   stop(): void {
-    if (this.scriptNode) {
-      this.scriptNode.disconnect();
-      this.scriptNode = null;
+    if (this.outputNode) {
+      this.outputNode.disconnect();
+      this.outputNode = null;
     }
     if (this.audioCtx) {
       this.audioCtx.close();
       this.audioCtx = null;
     }
-    this.bufferL.length = 0;
-    this.bufferR.length = 0;
+    this.gainNode = null;
+    this.ring = null;
   }
 
   /** 恢复音频上下文（用于用户交互后激活） */
@@ -130,7 +129,7 @@ export class AudioHandler {
 
   /** 切换静音 */
   toggleMute(): boolean {
-    this._muted = !this._muted;
+    this.muted = !this._muted;
     return this._muted;
   }
 }
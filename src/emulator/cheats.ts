@@ -0,0 +1,125 @@
+/**
+ * 金手指模块
+ * 支持 6/8 位 Game Genie 代码与 `地址:数值[:比较值]` 形式的原始代码（Pro Action Replay 风格）。
+ * 0x8000 以上的地址作为 ROM 读取补丁生效，RAM 地址则在每帧开始时写入
+ */
+
+import type { NES } from 'jsnes';
+import { dbGet, dbPut } from './storage';
+import type { Cheat } from '../types';
+
+/** 解码后的一条补丁；compare 不为 null 时只在原值等于 compare 时生效 */
+export interface CheatPatch {
+  address: number;
+  value: number;
+  compare: number | null;
+}
+
+/** Game Genie 字母表，下标即该字母代表的 4 位数值 */
+const GAME_GENIE_LETTERS = 'APZLGITYEOXUKSVN';
+
+/**
+ * 解码一条 Game Genie 代码
+ * 每个字母代表 4 位，打乱后拼成 15 位地址（加上 0x8000）、8 位数值与可选的 8 位比较值
+ */
+export function decodeGameGenie(code: string): CheatPatch {
+  const n = Array.from(code.toUpperCase(), (c) => GAME_GENIE_LETTERS.indexOf(c));
+  if ((n.length !== 6 && n.length !== 8) || n.includes(-1)) {
+    throw new Error(`Invalid Game Genie code "${code}".`);
+  }
+
+  const address = 0x8000
+    | ((n[3] & 7) << 12)
+    | ((n[4] & 8) << 8) | ((n[5] & 7) << 8)
+    | ((n[1] & 8) << 4) | ((n[2] & 7) << 4)
+    | (n[3] & 8) | (n[4] & 7);
+  let value = ((n[0] & 8) << 4) | ((n[1] & 7) << 4) | (n[0] & 7);
+
+  if (n.length === 6) {
+    value |= n[5] & 8;
+    return { address, value, compare: null };
+  }
+  value |= n[7] & 8;
+  const compare = ((n[6] & 8) << 4) | ((n[7] & 7) << 4) | (n[5] & 8) | (n[6] & 7);
+  return { address, value, compare };
+}
+
+const RAW_CODE = /^([0-9A-F]{1,4}):([0-9A-F]{1,2})(?::([0-9A-F]{1,2}))?$/;
+
+/** 解析 `地址:数值[:比较值]` 形式的十六进制原始代码 */
+export function parseRawCode(code: string): CheatPatch {
+  const match = RAW_CODE.exec(code.toUpperCase());
+  if (!match) {
+    throw new Error(`Invalid cheat code "${code}".`);
+  }
+  const address = parseInt(match[1], 16);
+  // 0x2000-0x5FFF 是 PPU/APU 等寄存器，写入没有意义
+  if (address >= 0x2000 && address < 0x6000) {
+    throw new Error(`Address $${match[1]} is not RAM or ROM.`);
+  }
+  return {
+    address,
+    value: parseInt(match[2], 16),
+    compare: match[3] === undefined ? null : parseInt(match[3], 16),
+  };
+}
+
+/** 统一代码书写：去掉空白、转为大写 */
+export function normalizeCheatCode(code: string): string {
+  return code.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * 解析一条金手指，多个代码可以用 + 连接（如 "SXIOPO+APZLGI"）
+ * 任意一段格式错误时抛出错误
+ */
+export function parseCheatCode(code: string): CheatPatch[] {
+  const parts = normalizeCheatCode(code).split('+');
+  return parts.map((part) => (part.includes(':') ? parseRawCode(part) : decodeGameGenie(part)));
+}
+
+/** 是否为 ROM 读取补丁（否则为每帧写入的 RAM 补丁） */
+export function isRomPatch(patch: CheatPatch): boolean {
+  return patch.address >= 0x8000;
+}
+
+/**
+ * 安装 ROM 读取补丁：以实例方法覆盖 mapper 原型上的 load
+ * 重新加载 ROM 会创建新的 mapper，之后需要再次安装；patches 为空时撤销覆盖
+ */
+export function installRomPatches(nes: NES, patches: CheatPatch[]): void {
+  const mmap = nes.mmap;
+  if (!mmap) return;
+  delete (mmap as { load?: unknown }).load;
+  if (patches.length === 0) return;
+
+  const byAddress = new Map(patches.map((p) => [p.address, p]));
+  const load = mmap.load.bind(mmap);
+  mmap.load = (address: number) => {
+    const value = load(address);
+    const patch = byAddress.get(address & 0xffff);
+    if (!patch || (patch.compare !== null && patch.compare !== value)) return value;
+    return patch.value;
+  };
+}
+
+/** 写入 RAM 补丁（内部 RAM 按 2KB 镜像，卡带 RAM 直接写入） */
+export function applyRamPatches(nes: NES, patches: CheatPatch[]): void {
+  const mem = nes.cpu.mem;
+  for (const { address, value, compare } of patches) {
+    const index = address < 0x2000 ? address & 0x7ff : address;
+    if (compare === null || mem[index] === compare) {
+      mem[index] = value;
+    }
+  }
+}
+
+/** 读取某个游戏保存的金手指列表，从未保存过时返回 null */
+export async function readCheats(gameId: string): Promise<Cheat[] | null> {
+  return (await dbGet<Cheat[]>('cheats', gameId)) ?? null;
+}
+
+/** 保存某个游戏的金手指列表 */
+export function writeCheats(gameId: string, cheats: Cheat[]): Promise<void> {
+  return dbPut('cheats', gameId, cheats);
+}
@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import { NesCore } from './core';
+import { AUDIO_SAMPLE_RATE } from './audio-buffer';
+import { NES_HEIGHT, NES_WIDTH } from './video';
+
+const rom = new Uint8Array(readFileSync(resolve(__dirname, '../../public/roms/balloon-fight.nes')));
+
+/** 画面 sink：保留最近一帧的副本 */
+function videoSink() {
+  const sink = {
+    frames: 0,
+    last: new Uint8ClampedArray(0),
+    present(frame: Uint8ClampedArray<ArrayBuffer>) {
+      sink.frames++;
+      sink.last = frame.slice();
+    },
+  };
+  return sink;
+}
+
+/** 声音 sink：记录每块采样的长度 */
+function audioSink() {
+  const sink = {
+    chunks: [] as number[],
+    push(left: Float32Array<ArrayBuffer>, right: Float32Array<ArrayBuffer>) {
+      expect(right.length).toBe(left.length);
+      sink.chunks.push(left.length);
+    },
+  };
+  return sink;
+}
+
+function runFrames(core: NesCore, frames: number): void {
+  for (let i = 0; i < frames; i++) {
+    core.runFrame();
+    core.present();
+  }
+}
+
+describe('NesCore', () => {
+  it('runs a ROM headlessly and feeds the video and audio sinks', () => {
+    const video = videoSink();
+    const audio = audioSink();
+    const core = new NesCore({ video, audio });
+    core.loadRom(rom);
+    runFrames(core, 120);
+
+    expect(core.framesSincePowerOn).toBe(120);
+    expect(video.frames).toBe(120);
+    expect(video.last.length).toBe(NES_WIDTH * NES_HEIGHT * 4);
+    // 每个像素都不透明，且标题画面不是单一颜色
+    const pixels = new Uint32Array(video.last.buffer);
+    expect(pixels.every((p) => p >>> 24 === 0xff)).toBe(true);
+    expect(new Set(pixels).size).toBeGreaterThan(1);
+
+    // 采样按固定大小分块送出，总数约为 2 秒的量
+    expect(new Set(audio.chunks)).toEqual(new Set([512]));
+    const samples = audio.chunks.reduce((sum, n) => sum + n, 0);
+    expect(samples).toBeGreaterThan(AUDIO_SAMPLE_RATE * 2 * 0.95);
+    expect(samples).toBeLessThan(AUDIO_SAMPLE_RATE * 2 * 1.05);
+  });
+
+  it('emulates deterministically', () => {
+    const a = videoSink();
+    const b = videoSink();
+    const coreA = new NesCore({ video: a });
+    const coreB = new NesCore({ video: b });
+    coreA.loadRom(rom);
+    coreB.loadRom(rom);
+    runFrames(coreA, 60);
+    runFrames(coreB, 60);
+    expect(b.last).toEqual(a.last);
+  });
+
+  it('stops sending audio while muted', () => {
+    const audio = audioSink();
+    const core = new NesCore({ audio });
+    core.loadRom(rom);
+    core.setAudioMuted(true);
+    runFrames(core, 30);
+    expect(audio.chunks).toHaveLength(0);
+
+    core.setAudioMuted(false);
+    runFrames(core, 30);
+    expect(audio.chunks.length).toBeGreaterThan(0);
+  });
+});
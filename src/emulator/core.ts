@@ -0,0 +1,623 @@
+/**
+ * 无界面的模拟核心
+ * 输入 ROM 与按键状态，输出 RGBA 帧与音频采样；不依赖 DOM、Canvas 或 Web Audio，
+ * 可直接在 Node 中运行。画面、声音、按键通过 sink 接口接入（见 video.ts、audio.ts、input.ts）
+ */
+
+import { NES } from 'jsnes';
+import { applyRamPatches, installRomPatches, isRomPatch, type CheatPatch } from './cheats';
+import { CpuDebugger, type Breakpoint, type DebugState, type DebugStop, type DebugUntil } from './debugger';
+import { RewindBuffer, type RewindOptions } from './rewind';
+import {
+  createMovie, inputCommands, inputPad, MOVIE_CMD_POWER, MOVIE_CMD_RESET, packInput,
+  type Movie, type MovieStart,
+} from './movie';
+import {
+  captureLiveSnapshot, captureSnapshot, restoreLiveSnapshot, restoreSnapshot, type NesSnapshot,
+} from './savestate';
+import { isRamAddress, RAM_SIZE, type MemorySnapshot } from './memory';
+import { colorToRgb, DEFAULT_PALETTE, installPaletteIndices, paletteColors } from './palette';
+import { capturePpu, type PpuCaptureOptions, type PpuSnapshot } from './ppu-inspect';
+import { extractSram, injectSram, SRAM_SIZE } from './sram';
+import { NES_HEIGHT, NES_WIDTH } from './video';
+import { AUDIO_SAMPLE_RATE } from './audio-buffer';
+import type { MovieStatus } from '../types';
+
+/** 每攒够多少个采样交给音频 sink 一次（约 10 ms，块越小输出端的缓冲水位越平稳） */
+const AUDIO_CHUNK_SIZE = 512;
+
+/** 画面输出：frame 为 256x240 的 RGBA 数据，调用结束后会被下一帧覆盖 */
+export interface VideoSink {
+  present(frame: Uint8ClampedArray<ArrayBuffer>): void;
+}
+
+/** 声音输出：每次收到一组左右声道采样，所有权交给 sink */
+export interface AudioSink {
+  push(left: Float32Array<ArrayBuffer>, right: Float32Array<ArrayBuffer>): void;
+}
+
+/** 按键输入的写入端：键盘、虚拟手柄等输入源通过它按下/松开按键 */
+export interface InputSink {
+  setButton(player: number, button: number, pressed: boolean): void;
+}
+
+export class NesCore implements InputSink {
+  private nes: NES;
+  /** 当前 ROM（jsnes 需要的二进制字符串），用于重新上电 */
+  private romString: string | null = null;
+  private frameBuffer: number[] = [];
+  /** 最近一次呈现的 RGBA 画面 */
+  readonly frame = new Uint8ClampedArray(NES_WIDTH * NES_HEIGHT * 4);
+  /** 呈现时使用的调色板（1536 字节，见 palette.ts） */
+  private palette = paletteColors(DEFAULT_PALETTE);
+
+  video: VideoSink | null;
+  audio: AudioSink | null;
+  /** 为 true 时丢弃音频采样（倍速、倒带时使用） */
+  private audioMuted = false;
+  private samplesL: number[] = [];
+  private samplesR: number[] = [];
+
+  /** 自加载 ROM 以来模拟的帧数 */
+  private frameCount = 0;
+  /** 最近一次上电时的 frameCount */
+  private powerOnFrame = 0;
+
+  // 输入：按键先记入实时状态，在每帧开始时统一锁存到主机
+  /** 实时按键状态，下标为玩家编号（1/2），按位对应 jsnes 按钮 */
+  private livePads = [0, 0, 0];
+  /** 已写入 jsnes 的按键状态 */
+  private appliedPads = [0, 0, 0];
+  /** 录像中请求的复位/上电命令，在下一帧开始时执行 */
+  private pendingCommands = 0;
+
+  // 录像
+  private movie: Movie | null = null;
+  /** 最近一次结束的录像，可再次回放或导出 */
+  private lastMovie: Movie | null = null;
+  private movieMode: MovieStatus['mode'] = 'recording';
+  /** 录像第 0 帧对应的 frameCount */
+  private movieStartFrame = 0;
+  /** 回放到达结尾时调用 */
+  onMovieEnd: (() => void) | null = null;
+
+  // 金手指
+  private romPatches: CheatPatch[] = [];
+  private ramPatches: CheatPatch[] = [];
+
+  // 倒带
+  private rewind = new RewindBuffer();
+  private framesSinceCapture = 0;
+
+  /** 等待在某条画面行结束时拍摄的 PPU 状态 */
+  private ppuRequest: {
+    options: PpuCaptureOptions;
+    scanline: number;
+    callback: (snapshot: PpuSnapshot) => void;
+  } | null = null;
+
+  // 调试器：调试模式下逐条执行指令（见 debugger.ts）
+  private debugger = new CpuDebugger();
+  private debugMode = false;
+
+  /** 卡带 RAM 自上次读取后是否有改动 */
+  private sramDirty = false;
+  /** 从上电开始的录像会以空白卡带 RAM 启动，此后不再把卡带 RAM 当作玩家的存档 */
+  private sramDetached = false;
+
+  constructor(sinks: { video?: VideoSink; audio?: AudioSink } = {}) {
+    this.video = sinks.video ?? null;
+    this.audio = sinks.audio ?? null;
+    this.nes = this.createNes();
+  }
+
+  private createNes(): NES {
+    this.appliedPads = [0, 0, 0];
+    return new NES({
+      sampleRate: AUDIO_SAMPLE_RATE,
+      onFrame: (buffer: number[]) => {
+        this.frameBuffer = buffer;
+      },
+      onAudioSample: (left: number, right: number) => this.pushSample(left, right),
+      onBatteryRamWrite: () => {
+        this.sramDirty = true;
+      },
+    });
+  }
+
+  private pushSample(left: number, right: number): void {
+    if (this.audioMuted || !this.audio) return;
+    this.samplesL.push(left);
+    this.samplesR.push(right);
+    if (this.samplesL.length >= AUDIO_CHUNK_SIZE) {
+      const l = new Float32Array(this.samplesL);
+      const r = new Float32Array(this.samplesR);
+      this.samplesL = [];
+      this.samplesR = [];
+      this.audio.push(l, r);
+    }
+  }
+
+  /** 停止/恢复输出音频采样 */
+  setAudioMuted(muted: boolean): void {
+    this.audioMuted = muted;
+    if (muted) {
+      this.samplesL = [];
+      this.samplesR = [];
+    }
+  }
+
+  /* ---------- 卡带 ---------- */
+
+  /** 加载 ROM，可同时注入电池存档 */
+  loadRom(rom: Uint8Array, sram: Uint8Array | null = null): void {
+    let s = '';
+    for (let i = 0; i < rom.length; i++) {
+      s += String.fromCharCode(rom[i]);
+    }
+    this.romString = s;
+    this.nes.loadROM(s);
+    installPaletteIndices(this.nes);
+    if (sram) injectSram(this.nes, sram);
+    this.romPatches = [];
+    this.ramPatches = [];
+    this.frameBuffer = [];
+    this.frameCount = 0;
+    this.powerOnFrame = 0;
+    this.sramDirty = false;
+    this.sramDetached = false;
+    this.movie = null;
+    this.debugger.reset();
+    this.debugger.clearTrace();
+    this.clearRewind();
+  }
+
+  get isLoaded(): boolean {
+    return this.romString !== null;
+  }
+
+  /** 自上电（加载 ROM 或硬复位）以来模拟的帧数 */
+  get framesSincePowerOn(): number {
+    // 倒带越过上电时刻时从 0 计
+    return Math.max(0, this.frameCount - this.powerOnFrame);
+  }
+
+  /**
+   * 软复位：CPU 跳转到复位向量，内存与卡带 SRAM 保持不变
+   * 录像时作为帧命令记录，在下一帧开始时执行；回放时忽略
+   */
+  reset(): void {
+    if (!this.romString) return;
+    if (this.movie) {
+      if (this.movieMode === 'recording') this.pendingCommands |= MOVIE_CMD_RESET;
+      return;
+    }
+    this.softReset();
+  }
+
+  private softReset(): void {
+    const cpu = this.nes.cpu;
+    // 复位时 CPU 会屏蔽中断并将栈指针下移 3 字节
+    cpu.F_INTERRUPT = 1;
+    cpu.REG_SP = 0x0100 | ((cpu.REG_SP - 3) & 0xff);
+    cpu.requestIrq(cpu.IRQ_RESET);
+    // PPU 控制寄存器清零、APU 静音
+    this.nes.mmap?.write(0x2000, 0);
+    this.nes.mmap?.write(0x2001, 0);
+    this.nes.papu.reset();
+  }
+
+  /**
+   * 硬复位：用保存的 ROM 重建整台主机，电池供电的卡带 RAM 会保留
+   * 录像中的处理同 reset()
+   */
+  powerCycle(): void {
+    if (!this.romString) return;
+    if (this.movie) {
+      if (this.movieMode === 'recording') this.pendingCommands |= MOVIE_CMD_POWER;
+      return;
+    }
+    this.powerOn(extractSram(this.nes));
+  }
+
+  /** 重建主机并载入 ROM；sram 为 null 时卡带 RAM 为空白 */
+  private powerOn(sram: Uint8Array | null): void {
+    this.nes = this.createNes();
+    this.nes.loadROM(this.romString!);
+    installPaletteIndices(this.nes);
+    if (sram) injectSram(this.nes, sram);
+    installRomPatches(this.nes, this.romPatches);
+    this.frameBuffer = [];
+    this.powerOnFrame = this.frameCount;
+    this.debugger.reset();
+  }
+
+  /* ---------- 金手指 ---------- */
+
+  /** 替换当前生效的金手指补丁（切换 ROM 时会被清空） */
+  setCheats(patches: CheatPatch[]): void {
+    this.romPatches = patches.filter(isRomPatch);
+    this.ramPatches = patches.filter((p) => !isRomPatch(p));
+    installRomPatches(this.nes, this.romPatches);
+  }
+
+  /* ---------- 内存 ---------- */
+
+  /** 复制当前的内部 RAM 与卡带 RAM */
+  readMemory(): MemorySnapshot {
+    if (!this.romString) {
+      return { ram: new Uint8Array(RAM_SIZE), sram: new Uint8Array(SRAM_SIZE) };
+    }
+    return { ram: Uint8Array.from(this.nes.cpu.mem.slice(0, RAM_SIZE)), sram: extractSram(this.nes) };
+  }
+
+  /** 从 address 起依次写入字节（只允许写 RAM，经由 mapper 写入以便卡带 RAM 记为有改动） */
+  writeMemory(address: number, data: number[]): void {
+    const mmap = this.nes.mmap;
+    if (!mmap) return;
+    data.forEach((value, i) => {
+      if (!isRamAddress(address + i)) {
+        throw new Error(`Address $${(address + i).toString(16)} is not writable RAM.`);
+      }
+      mmap.write(address + i, value & 0xff);
+    });
+  }
+
+  /* ---------- 运行 ---------- */
+
+  /** 记录按键状态，在下一帧开始时生效 */
+  setButton(player: number, button: number, pressed: boolean): void {
+    if (pressed) {
+      this.livePads[player] |= 1 << button;
+    } else {
+      this.livePads[player] &= ~(1 << button);
+    }
+  }
+
+  /**
+   * 模拟一帧，并按拍摄间隔记录倒带快照（不呈现画面）
+   * 调试模式下命中断点时停在帧中间并返回 false
+   */
+  runFrame(): boolean {
+    if (!this.debugMode) {
+      this.stepFrame(false);
+    } else if (this.debugRun('frame').reason === 'breakpoint') {
+      return false;
+    }
+    if (++this.framesSinceCapture >= this.rewind.getOptions().captureInterval) {
+      this.framesSinceCapture = 0;
+      this.rewind.push({ frame: this.frameCount, snapshot: captureLiveSnapshot(this.nes) });
+    }
+    return true;
+  }
+
+  /**
+   * 锁存本帧输入并模拟一帧
+   * replay 为 true 时（倒放中），录制中的录像也优先使用已录下的输入，不会改写录像
+   */
+  private stepFrame(replay: boolean): void {
+    this.beginFrame(replay);
+    if (this.ppuRequest) {
+      this.frameWithPpuCapture();
+    } else {
+      this.nes.frame();
+    }
+    this.frameCount++;
+  }
+
+  /** 帧开始前：执行录像中的复位命令，锁存输入并应用 RAM 金手指 */
+  private beginFrame(replay: boolean): void {
+    const input = this.latchInput(replay);
+    const commands = inputCommands(input);
+    if (commands & MOVIE_CMD_POWER) {
+      this.powerOn(extractSram(this.nes));
+    } else if (commands & MOVIE_CMD_RESET) {
+      this.softReset();
+    }
+    for (const player of [1, 2]) {
+      const pad = inputPad(input, player);
+      const changed = pad ^ this.appliedPads[player];
+      for (let button = 0; button < 8; button++) {
+        if (!(changed & (1 << button))) continue;
+        if (pad & (1 << button)) {
+          this.nes.buttonDown(player, button);
+        } else {
+          this.nes.buttonUp(player, button);
+        }
+      }
+      this.appliedPads[player] = pad;
+    }
+    applyRamPatches(this.nes, this.ramPatches);
+  }
+
+  /** 模拟一帧，并在请求的画面行结束时拍摄 PPU 状态 */
+  private frameWithPpuCapture(): void {
+    const ppu = this.nes.ppu;
+    const endScanline = ppu.endScanline.bind(ppu);
+    ppu.endScanline = () => {
+      const request = this.ppuRequest;
+      // jsnes 的第 21 条扫描线为画面第 0 行
+      if (request && ppu.scanline - 21 === request.scanline) {
+        this.ppuRequest = null;
+        request.callback(capturePpu(this.nes, request.options, request.scanline, this.palette));
+      }
+      endScanline();
+    };
+    try {
+      this.nes.frame();
+    } finally {
+      delete (ppu as { endScanline?: unknown }).endScanline;
+    }
+  }
+
+  /** 决定本帧的输入：回放时取自录像，否则取实时按键（录制时同时写入录像） */
+  private latchInput(replay: boolean): number {
+    const movie = this.movie;
+    const index = this.frameCount - this.movieStartFrame;
+    if (movie && (this.movieMode === 'playing' || replay) && index < movie.inputs.length) {
+      return movie.inputs[index];
+    }
+    if (movie && this.movieMode === 'playing') {
+      // 回放结束，交还给实时输入
+      this.stopMovie();
+      this.onMovieEnd?.();
+    }
+
+    const input = packInput(this.livePads[1], this.livePads[2], this.pendingCommands);
+    this.pendingCommands = 0;
+    if (movie && this.movieMode === 'recording') {
+      if (index < movie.inputs.length) {
+        // 从中途继续录制：丢弃之后的输入
+        movie.inputs.length = index;
+        movie.rerecordCount++;
+      }
+      movie.inputs.push(input);
+    }
+    return input;
+  }
+
+  /** 将最近一帧按调色板转换为 RGBA 并交给画面 sink */
+  present(): void {
+    if (this.frameBuffer.length === 0) return;
+
+    const pixels = this.frame;
+    const palette = this.palette;
+    for (let i = 0; i < NES_WIDTH * NES_HEIGHT; i++) {
+      const color = colorToRgb(this.frameBuffer[i], palette);
+      const pi = i * 4;
+      pixels[pi] = (color >> 16) & 0xff;     // R
+      pixels[pi + 1] = (color >> 8) & 0xff;  // G
+      pixels[pi + 2] = color & 0xff;          // B
+      pixels[pi + 3] = 0xff;                  // A
+    }
+    this.video?.present(pixels);
+  }
+
+  /** 更换调色板（1536 字节，见 palette.ts），并立即重新呈现当前画面 */
+  setPalette(colors: Uint8Array): void {
+    this.palette = colors;
+    this.present();
+  }
+
+  /* ---------- 调试器 ---------- */
+
+  get isDebugMode(): boolean {
+    return this.debugMode;
+  }
+
+  /** 开关调试模式；关闭时先把执行到一半的帧跑完（不再检查断点） */
+  setDebugMode(enabled: boolean): void {
+    if (!enabled) {
+      while (this.debugger.inFrame) {
+        if (this.debugger.step(this.nes, false).frameEnded) this.frameCount++;
+      }
+    }
+    this.debugMode = enabled;
+  }
+
+  setBreakpoints(breakpoints: Breakpoint[]): void {
+    this.debugger.setBreakpoints(breakpoints);
+  }
+
+  getDebugState(): DebugState {
+    if (!this.romString) {
+      throw new Error('No game loaded.');
+    }
+    return this.debugger.getState(this.nes);
+  }
+
+  /** 调试模式下逐条执行，直到满足 until 或命中断点（不记录倒带快照） */
+  debugRun(until: DebugUntil): DebugStop {
+    if (!this.romString || !this.debugMode) {
+      throw new Error('Debug mode is off.');
+    }
+    const ppu = this.nes.ppu;
+    const target = typeof until === 'object' ? until.scanline : null;
+    let stop: DebugStop | null = null;
+    while (!stop) {
+      if (!this.debugger.inFrame) this.beginFrame(false);
+      const line = ppu.scanline - 21;
+      const { hit, executed, frameEnded } = this.debugger.step(this.nes);
+      if (frameEnded) this.frameCount++;
+      // 请求拍摄的画面行刚结束
+      const request = this.ppuRequest;
+      if (request && line === request.scanline && ppu.scanline - 21 !== line) {
+        this.ppuRequest = null;
+        request.callback(capturePpu(this.nes, request.options, request.scanline, this.palette));
+      }
+      if (hit) {
+        stop = { reason: 'breakpoint', hit };
+      } else if (until === 'instruction' && executed) {
+        stop = { reason: 'instruction', hit: null };
+      } else if (until === 'frame' && frameEnded) {
+        stop = { reason: 'frame', hit: null };
+      } else if (target !== null && ppu.scanline - 21 === target && line !== target) {
+        stop = { reason: 'scanline', hit: null };
+      }
+    }
+    this.debugger.lastStop = stop;
+    return stop;
+  }
+
+  /** 导出跟踪日志（调试模式下执行过的最近若干条指令） */
+  getTrace(): string {
+    return this.debugger.traceText();
+  }
+
+  /* ---------- PPU 查看 ---------- */
+
+  /** 立即拍摄当前（上一帧结束时）的 PPU 状态 */
+  capturePpu(options: PpuCaptureOptions): PpuSnapshot {
+    if (!this.romString) {
+      throw new Error('No game loaded.');
+    }
+    return capturePpu(this.nes, options, null, this.palette);
+  }
+
+  /**
+   * 在之后模拟到画面第 scanline 行（0-239）结束时拍摄 PPU 状态
+   * 同一时间只保留最近的一个请求，被替换的请求立即以当前状态回调
+   */
+  requestPpuCapture(options: PpuCaptureOptions, scanline: number, callback: (snapshot: PpuSnapshot) => void): void {
+    this.flushPpuCapture();
+    this.ppuRequest = { options, scanline, callback };
+  }
+
+  /** 不再等待：以当前状态完成尚未完成的 PPU 拍摄请求 */
+  flushPpuCapture(): void {
+    const request = this.ppuRequest;
+    if (!request) return;
+    this.ppuRequest = null;
+    request.callback(this.capturePpu(request.options));
+  }
+
+  /* ---------- 倒带 ---------- */
+
+  getRewindOptions(): RewindOptions {
+    return this.rewind.getOptions();
+  }
+
+  setRewindOptions(options: Partial<RewindOptions>): void {
+    this.rewind.setOptions(options);
+  }
+
+  clearRewind(): void {
+    this.rewind.clear();
+    this.framesSinceCapture = 0;
+  }
+
+  /**
+   * 回退 steps 张快照，恢复后补跑一帧以得到画面
+   * 没有更早的历史时返回 false
+   */
+  rewindStep(steps: number): boolean {
+    const entry = this.rewind.pop(steps);
+    if (!entry) return false;
+    restoreLiveSnapshot(this.nes, entry.snapshot);
+    this.debugger.reset();
+    this.frameCount = entry.frame;
+    this.sramDirty = true;
+    this.stepFrame(true);
+    this.framesSinceCapture = 1;
+    return true;
+  }
+
+  /* ---------- 录像 ---------- */
+
+  /** 当前录像状态，没有录像时为 null */
+  get movieStatus(): MovieStatus | null {
+    if (!this.movie) return null;
+    return {
+      mode: this.movieMode,
+      frame: this.frameCount - this.movieStartFrame,
+      length: this.movie.inputs.length,
+      rerecordCount: this.movie.rerecordCount,
+    };
+  }
+
+  /** 开始录制：从上电（空白卡带 RAM）或当前状态开始 */
+  recordMovie(from: MovieStart['type'], romFilename: string): void {
+    if (!this.romString) return;
+    const start: MovieStart = from === 'power'
+      ? { type: 'power' }
+      : { type: 'snapshot', snapshot: this.captureState() };
+    this.beginMovie(createMovie(start, romFilename), 'recording');
+  }
+
+  /** 从起点回放录像；不传参数时回放最近一次的录像 */
+  playMovie(movie: Movie | null = null): void {
+    const target = movie ?? this.getMovie();
+    if (!this.romString || !target) return;
+    this.beginMovie(target, 'playing');
+  }
+
+  /** 回放中从当前帧接管，继续录制（之后的输入会被覆盖） */
+  takeOverMovie(): void {
+    if (this.movie && this.movieMode === 'playing') {
+      this.movieMode = 'recording';
+    }
+  }
+
+  /** 结束录制/回放；录像本身保留，可以再次回放或导出 */
+  stopMovie(): void {
+    if (!this.movie) return;
+    this.lastMovie = this.movie;
+    this.movie = null;
+    this.pendingCommands = 0;
+  }
+
+  /** 最近一次录制或回放的录像 */
+  getMovie(): Movie | null {
+    return this.movie ?? this.lastMovie;
+  }
+
+  private beginMovie(movie: Movie, mode: MovieStatus['mode']): void {
+    if (movie.start.type === 'power') {
+      this.powerOn(null);
+      this.sramDetached = true;
+    } else {
+      // 录像需要保留起点快照以便重复回放，恢复时使用副本
+      restoreSnapshot(this.nes, structuredClone(movie.start.snapshot));
+      this.frameBuffer = this.nes.ppu.buffer;
+      this.debugger.reset();
+    }
+    this.movie = movie;
+    this.movieMode = mode;
+    this.movieStartFrame = this.frameCount;
+    this.pendingCommands = 0;
+    this.clearRewind();
+  }
+
+  /* ---------- 存档 ---------- */
+
+  captureState(): NesSnapshot {
+    return captureSnapshot(this.nes);
+  }
+
+  /** 恢复即时存档并立即呈现存档时的画面（会结束正在进行的录像） */
+  restoreState(snapshot: NesSnapshot): void {
+    this.stopMovie();
+    restoreSnapshot(this.nes, snapshot);
+    this.debugger.reset();
+    this.sramDirty = true;
+    this.frameBuffer = this.nes.ppu.buffer;
+    this.present();
+  }
+
+  /** 读取卡带 RAM；onlyIfDirty 时自上次读取后没有改动则返回 null */
+  readSram(onlyIfDirty = false): Uint8Array<ArrayBuffer> | null {
+    if (onlyIfDirty) {
+      if (!this.sramDirty || this.sramDetached) return null;
+      this.sramDirty = false;
+    }
+    return extractSram(this.nes);
+  }
+
+  /** 写入卡带 RAM 并重新上电 */
+  importSram(data: Uint8Array): void {
+    this.stopMovie();
+    this.powerOn(data);
+    this.sramDirty = false;
+    this.sramDetached = false;
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * CPU 调试器
+ * 调试模式下不再调用 nes.frame()，而是按 jsnes 帧循环的顺序逐条执行指令并推进 PPU/APU，
+ * 每条指令执行前检查执行/读/写断点，并把执行过的指令记入滚动跟踪日志
+ */
+
+import type { NES } from 'jsnes';
+import { disassembleAround, formatInstruction, getOpcode, type DisasmLine } from './disasm';
+
+/** 断点：地址范围 [start, end] 内的执行、读或写 */
+export interface Breakpoint {
+  start: number;
+  end: number;
+  execute: boolean;
+  read: boolean;
+  write: boolean;
+  enabled: boolean;
+}
+
+export type BreakpointType = 'execute' | 'read' | 'write';
+
+/** 命中的断点：pc 处的指令将要（尚未）执行 */
+export interface BreakpointHit {
+  type: BreakpointType;
+  address: number;
+  pc: number;
+}
+
+export interface CpuRegisters {
+  /** 下一条要执行的指令地址（有待处理的中断时为中断向量） */
+  pc: number;
+  a: number;
+  x: number;
+  y: number;
+  sp: number;
+  /** 状态寄存器 NV-BDIZC */
+  p: number;
+}
+
+/** 运行到何处停下 */
+export type DebugUntil = 'instruction' | 'frame' | { scanline: number };
+
+/** 最近一次停下的原因 */
+export interface DebugStop {
+  reason: 'breakpoint' | 'instruction' | 'frame' | 'scanline';
+  hit: BreakpointHit | null;
+}
+
+export interface DebugState {
+  registers: CpuRegisters;
+  /** 当前画面行（jsnes 扫描线 - 21，负数为垂直消隐期间）与行内的 PPU 周期 */
+  scanline: number;
+  cycle: number;
+  stop: DebugStop | null;
+  /** PC 附近的反汇编 */
+  disassembly: DisasmLine[];
+}
+
+/** 跟踪日志保留的指令条数 */
+export const TRACE_LENGTH = 20_000;
+
+/** 反汇编视图中 PC 之前/之后（含 PC）的指令条数 */
+const DISASM_BEFORE = 8;
+const DISASM_AFTER = 16;
+
+const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+
+/** 无副作用地读取 CPU 地址空间（PPU/APU 等 I/O 寄存器读作 0） */
+export function peekCpu(nes: NES, address: number): number {
+  address &= 0xffff;
+  const mem = nes.cpu.mem;
+  if (!mem) return 0;
+  if (address < 0x2000) return mem[address & 0x7ff];
+  if (address <= 0x4017) return 0;
+  return mem[address] ?? 0;
+}
+
+/** 读取状态寄存器（jsnes 的 F_ZERO 保存的是上次的结果，为 0 时 Z 置位） */
+function readStatus(nes: NES): number {
+  const cpu = nes.cpu;
+  return cpu.F_CARRY
+    | ((cpu.F_ZERO === 0 ? 1 : 0) << 1)
+    | (cpu.F_INTERRUPT << 2)
+    | (cpu.F_DECIMAL << 3)
+    | (cpu.F_BRK << 4)
+    | (cpu.F_NOTUSED << 5)
+    | (cpu.F_OVERFLOW << 6)
+    | (cpu.F_SIGN << 7);
+}
+
+/** 下一条要执行的指令地址：有会被响应的中断请求时，jsnes 会先跳到中断向量再执行 */
+function nextPc(nes: NES): number {
+  const cpu = nes.cpu;
+  if (cpu.irqRequested) {
+    const vector = (address: number) => peekCpu(nes, address) | (peekCpu(nes, address + 1) << 8);
+    switch (cpu.irqType) {
+      case cpu.IRQ_NORMAL:
+        if (cpu.F_INTERRUPT === 0) return vector(0xfffe);
+        break;
+      case cpu.IRQ_NMI:
+        // PPU 控制寄存器未开启 NMI 时不响应
+        if (cpu.mem[0x2000] & 0x80) return vector(0xfffa);
+        break;
+      case cpu.IRQ_RESET:
+        return vector(0xfffc);
+    }
+  }
+  return (cpu.REG_PC + 1) & 0xffff;
+}
+
+export function readRegisters(nes: NES): CpuRegisters {
+  const cpu = nes.cpu;
+  return {
+    pc: nextPc(nes),
+    a: cpu.REG_ACC,
+    x: cpu.REG_X,
+    y: cpu.REG_Y,
+    sp: cpu.REG_SP & 0xff,
+    p: readStatus(nes),
+  };
+}
+
+/**
+ * pc 处的指令将访问的数据地址（按执行前的寄存器计算，间接寻址的行为与 jsnes 一致）
+ * 不访问数据的指令返回 null；指针、栈与中断的读写不计在内
+ */
+function dataAddress(nes: NES, pc: number): number | null {
+  const op = getOpcode(peekCpu(nes, pc));
+  if (!op?.access) return null;
+  const cpu = nes.cpu;
+  const b1 = peekCpu(nes, pc + 1);
+  const word = b1 | (peekCpu(nes, pc + 2) << 8);
+  const pointer = (address: number) => peekCpu(nes, address) | (peekCpu(nes, address + 1) << 8);
+  let address: number;
+  switch (op.mode) {
+    case 'zp': address = b1; break;
+    case 'zpx': address = (b1 + cpu.REG_X) & 0xff; break;
+    case 'zpy': address = (b1 + cpu.REG_Y) & 0xff; break;
+    case 'abs': address = word; break;
+    case 'abx': address = word + cpu.REG_X; break;
+    case 'aby': address = word + cpu.REG_Y; break;
+    case 'izx': address = pointer((b1 + cpu.REG_X) & 0xff); break;
+    case 'izy': address = pointer(b1) + cpu.REG_Y; break;
+    default: return null;
+  }
+  address &= 0xffff;
+  // 内部 RAM 的镜像按 0x0000-0x07FF 处理
+  return address < 0x2000 ? address & 0x7ff : address;
+}
+
+/** 逐条执行指令的调试器：持有断点与跟踪日志，并记录当前帧是否已开始 */
+export class CpuDebugger {
+  private breakpoints: Breakpoint[] = [];
+  /** 当前帧是否已开始（已调用 ppu.startFrame，尚未进入垂直消隐） */
+  private frameActive = false;
+  /** 刚在断点处停下：继续运行时不再检查即将执行的这条指令 */
+  private resuming = false;
+  lastStop: DebugStop | null = null;
+
+  // 跟踪日志：环形缓冲，按字段分开存放
+  private tracePc = new Uint16Array(TRACE_LENGTH);
+  /** 操作码与操作数各一字节，最高字节为指令长度 */
+  private traceBytes = new Uint32Array(TRACE_LENGTH);
+  /** A、X、Y、P 各一字节 */
+  private traceRegs = new Uint32Array(TRACE_LENGTH);
+  private traceSp = new Uint8Array(TRACE_LENGTH);
+  private traceScanline = new Int16Array(TRACE_LENGTH);
+  private traceCycle = new Uint16Array(TRACE_LENGTH);
+  private traceNext = 0;
+  private traceCount = 0;
+
+  get inFrame(): boolean {
+    return this.frameActive;
+  }
+
+  setBreakpoints(breakpoints: Breakpoint[]): void {
+    this.breakpoints = breakpoints.filter((b) => b.enabled && (b.execute || b.read || b.write));
+  }
+
+  /** 状态被整体替换（加载 ROM、读档、上电等）后调用：下一步从新的一帧开始 */
+  reset(): void {
+    this.frameActive = false;
+    this.resuming = false;
+    this.lastStop = null;
+  }
+
+  clearTrace(): void {
+    this.traceNext = 0;
+    this.traceCount = 0;
+  }
+
+  getState(nes: NES): DebugState {
+    const registers = readRegisters(nes);
+    return {
+      registers,
+      scanline: nes.ppu.scanline - 21,
+      cycle: nes.ppu.curX,
+      stop: this.lastStop,
+      disassembly: disassembleAround((address) => peekCpu(nes, address), registers.pc, DISASM_BEFORE, DISASM_AFTER),
+    };
+  }
+
+  /**
+   * 执行一条指令（先补完 DMA 造成的 CPU 停顿）并推进对应的 PPU/APU 周期
+   * 即将执行的指令命中断点时不执行并返回 hit（checkBreakpoints 为 false 时不检查）
+   * frameEnded 表示期间进入了垂直消隐（一帧结束）
+   */
+  step(nes: NES, checkBreakpoints = true): { hit: BreakpointHit | null; executed: boolean; frameEnded: boolean } {
+    const cpu = nes.cpu;
+    const emulateSound = nes.opts.emulateSound;
+    if (!this.frameActive) {
+      nes.ppu.startFrame();
+      this.frameActive = true;
+    }
+
+    while (cpu.cyclesToHalt > 0) {
+      const cycles = Math.min(cpu.cyclesToHalt, 8);
+      if (emulateSound) nes.papu.clockFrameCounter(cycles);
+      cpu.cyclesToHalt -= cycles;
+      if (this.clockPpu(nes, cycles * 3)) {
+        return { hit: null, executed: false, frameEnded: true };
+      }
+    }
+
+    const pc = nextPc(nes);
+    if (this.resuming) {
+      this.resuming = false;
+    } else if (checkBreakpoints) {
+      const hit = this.findBreakpoint(nes, pc);
+      if (hit) {
+        this.resuming = true;
+        return { hit, executed: false, frameEnded: false };
+      }
+    }
+
+    this.record(nes, pc);
+    const cycles = cpu.emulate();
+    if (emulateSound) nes.papu.clockFrameCounter(cycles);
+    return { hit: null, executed: true, frameEnded: this.clockPpu(nes, cycles * 3) };
+  }
+
+  /** 推进 PPU，与 nes.frame() 的内层循环相同；进入垂直消隐时丢弃剩余周期并返回 true */
+  private clockPpu(nes: NES, cycles: number): boolean {
+    const ppu = nes.ppu;
+    for (; cycles > 0; cycles--) {
+      if (ppu.curX === ppu.spr0HitX && ppu.f_spVisibility === 1 && ppu.scanline - 21 === ppu.spr0HitY) {
+        ppu.setStatusFlag(ppu.STATUS_SPRITE0HIT, true);
+      }
+      if (ppu.requestEndFrame) {
+        ppu.nmiCounter--;
+        if (ppu.nmiCounter === 0) {
+          ppu.requestEndFrame = false;
+          ppu.startVBlank();
+          this.frameActive = false;
+          nes.fpsFrameCount++;
+          return true;
+        }
+      }
+      ppu.curX++;
+      if (ppu.curX === 341) {
+        ppu.curX = 0;
+        ppu.endScanline();
+      }
+    }
+    return false;
+  }
+
+  private findBreakpoint(nes: NES, pc: number): BreakpointHit | null {
+    if (this.breakpoints.length === 0) return null;
+    const access = getOpcode(peekCpu(nes, pc))?.access ?? null;
+    const data = access ? dataAddress(nes, pc) : null;
+    for (const b of this.breakpoints) {
+      if (b.execute && pc >= b.start && pc <= b.end) {
+        return { type: 'execute', address: pc, pc };
+      }
+      if (data === null || data < b.start || data > b.end) continue;
+      if (b.read && access !== 'write') return { type: 'read', address: data, pc };
+      if (b.write && access !== 'read') return { type: 'write', address: data, pc };
+    }
+    return null;
+  }
+
+  /* ---------- 跟踪日志 ---------- */
+
+  private record(nes: NES, pc: number): void {
+    const cpu = nes.cpu;
+    const opcode = peekCpu(nes, pc);
+    const length = getOpcode(opcode)?.length ?? 1;
+    let bytes = opcode | (length << 24);
+    for (let i = 1; i < length; i++) bytes |= peekCpu(nes, pc + i) << (i * 8);
+    const i = this.traceNext;
+    this.tracePc[i] = pc;
+    this.traceBytes[i] = bytes;
+    this.traceRegs[i] = (cpu.REG_ACC | (cpu.REG_X << 8) | (cpu.REG_Y << 16) | (readStatus(nes) << 24)) >>> 0;
+    this.traceSp[i] = cpu.REG_SP & 0xff;
+    this.traceScanline[i] = nes.ppu.scanline - 21;
+    this.traceCycle[i] = nes.ppu.curX;
+    this.traceNext = (i + 1) % TRACE_LENGTH;
+    this.traceCount = Math.min(this.traceCount + 1, TRACE_LENGTH);
+  }
+
+  /** 导出跟踪日志：从旧到新每行一条指令，寄存器为执行前的值 */
+  traceText(): string {
+    const lines: string[] = [];
+    const first = (this.traceNext - this.traceCount + TRACE_LENGTH) % TRACE_LENGTH;
+    for (let n = 0; n < this.traceCount; n++) {
+      const i = (first + n) % TRACE_LENGTH;
+      const pc = this.tracePc[i];
+      const packed = this.traceBytes[i];
+      const bytes = Array.from({ length: packed >>> 24 }, (_, k) => (packed >>> (k * 8)) & 0xff);
+      const regs = this.traceRegs[i];
+      lines.push([
+        `$${hex(pc, 4)}:`,
+        bytes.map((b) => hex(b, 2)).join(' ').padEnd(8),
+        formatInstruction(pc, bytes).padEnd(14),
+        `A:${hex(regs & 0xff, 2)} X:${hex((regs >>> 8) & 0xff, 2)} Y:${hex((regs >>> 16) & 0xff, 2)}`,
+        `S:${hex(this.traceSp[i], 2)} P:${formatFlags(regs >>> 24)}`,
+        `SL:${this.traceScanline[i]} CYC:${this.traceCycle[i]}`,
+      ].join('  '));
+    }
+    return lines.join('\n');
+  }
+}
+
+/** 状态寄存器按 NV-BDIZC 显示，置位为大写 */
+export function formatFlags(p: number): string {
+  return 'NVUBDIZC'.split('').map((flag, i) => (p & (0x80 >> i) ? flag : flag.toLowerCase())).join('');
+}
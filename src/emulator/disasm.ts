@@ -0,0 +1,162 @@
+/**
+ * 6502 反汇编
+ * 只收录官方的 151 条指令（jsnes 也只实现了这些），未知操作码显示为 .db
+ */
+
+/** 寻址方式 */
+export type AddressingMode =
+  | 'imp' | 'acc' | 'imm' | 'zp' | 'zpx' | 'zpy' | 'abs' | 'abx' | 'aby' | 'ind' | 'izx' | 'izy' | 'rel';
+
+/** 指令对内存的访问：读、写，或先读后写（移位、加减 1） */
+export type MemoryAccess = 'read' | 'write' | 'modify' | null;
+
+export interface Opcode {
+  mnemonic: string;
+  mode: AddressingMode;
+  /** 指令长度（字节） */
+  length: number;
+  access: MemoryAccess;
+}
+
+/** 反汇编的一行 */
+export interface DisasmLine {
+  address: number;
+  bytes: number[];
+  text: string;
+}
+
+/** 按地址读取一个字节（不能有副作用） */
+export type ByteReader = (address: number) => number;
+
+const MODE_LENGTH: Record<AddressingMode, number> = {
+  imp: 1, acc: 1, imm: 2, zp: 2, zpx: 2, zpy: 2, abs: 3, abx: 3, aby: 3, ind: 3, izx: 2, izy: 2, rel: 2,
+};
+
+/** 运算类指令共用的 8 种寻址方式的操作码偏移 */
+const ALU_MODES: [number, AddressingMode][] = [
+  [0x09, 'imm'], [0x05, 'zp'], [0x15, 'zpx'], [0x0d, 'abs'], [0x1d, 'abx'], [0x19, 'aby'], [0x01, 'izx'], [0x11, 'izy'],
+];
+/** 移位类指令的寻址方式 */
+const SHIFT_MODES: [number, AddressingMode][] = [
+  [0x0a, 'acc'], [0x06, 'zp'], [0x16, 'zpx'], [0x0e, 'abs'], [0x1e, 'abx'],
+];
+
+const READ_OPS = new Set(['ADC', 'AND', 'BIT', 'CMP', 'CPX', 'CPY', 'EOR', 'LDA', 'LDX', 'LDY', 'ORA', 'SBC']);
+const WRITE_OPS = new Set(['STA', 'STX', 'STY']);
+const MODIFY_OPS = new Set(['ASL', 'LSR', 'ROL', 'ROR', 'INC', 'DEC']);
+
+const OPCODES: (Opcode | undefined)[] = new Array(256);
+
+function define(mnemonic: string, code: number, mode: AddressingMode): void {
+  let access: MemoryAccess = null;
+  if (mode !== 'imp' && mode !== 'acc' && mode !== 'imm' && mode !== 'rel') {
+    if (READ_OPS.has(mnemonic)) access = 'read';
+    else if (WRITE_OPS.has(mnemonic)) access = 'write';
+    else if (MODIFY_OPS.has(mnemonic)) access = 'modify';
+  }
+  OPCODES[code] = { mnemonic, mode, length: MODE_LENGTH[mode], access };
+}
+
+// ORA AND EOR ADC STA LDA CMP SBC：操作码高 3 位区分指令
+['ORA', 'AND', 'EOR', 'ADC', 'STA', 'LDA', 'CMP', 'SBC'].forEach((mnemonic, i) => {
+  for (const [offset, mode] of ALU_MODES) {
+    if (mnemonic === 'STA' && mode === 'imm') continue;
+    define(mnemonic, (i << 5) | offset, mode);
+  }
+});
+['ASL', 'ROL', 'LSR', 'ROR'].forEach((mnemonic, i) => {
+  for (const [offset, mode] of SHIFT_MODES) define(mnemonic, (i << 5) | offset, mode);
+});
+for (const [mnemonic, base] of [['DEC', 0xc0], ['INC', 0xe0]] as const) {
+  for (const [offset, mode] of SHIFT_MODES.slice(1)) define(mnemonic, base | offset, mode);
+}
+
+const OTHER_OPS: [string, number, AddressingMode][] = [
+  ['BIT', 0x24, 'zp'], ['BIT', 0x2c, 'abs'],
+  ['CPX', 0xe0, 'imm'], ['CPX', 0xe4, 'zp'], ['CPX', 0xec, 'abs'],
+  ['CPY', 0xc0, 'imm'], ['CPY', 0xc4, 'zp'], ['CPY', 0xcc, 'abs'],
+  ['LDX', 0xa2, 'imm'], ['LDX', 0xa6, 'zp'], ['LDX', 0xb6, 'zpy'], ['LDX', 0xae, 'abs'], ['LDX', 0xbe, 'aby'],
+  ['LDY', 0xa0, 'imm'], ['LDY', 0xa4, 'zp'], ['LDY', 0xb4, 'zpx'], ['LDY', 0xac, 'abs'], ['LDY', 0xbc, 'abx'],
+  ['STX', 0x86, 'zp'], ['STX', 0x96, 'zpy'], ['STX', 0x8e, 'abs'],
+  ['STY', 0x84, 'zp'], ['STY', 0x94, 'zpx'], ['STY', 0x8c, 'abs'],
+  ['JMP', 0x4c, 'abs'], ['JMP', 0x6c, 'ind'], ['JSR', 0x20, 'abs'],
+  ['BPL', 0x10, 'rel'], ['BMI', 0x30, 'rel'], ['BVC', 0x50, 'rel'], ['BVS', 0x70, 'rel'],
+  ['BCC', 0x90, 'rel'], ['BCS', 0xb0, 'rel'], ['BNE', 0xd0, 'rel'], ['BEQ', 0xf0, 'rel'],
+  ['BRK', 0x00, 'imp'], ['RTI', 0x40, 'imp'], ['RTS', 0x60, 'imp'],
+  ['PHP', 0x08, 'imp'], ['PLP', 0x28, 'imp'], ['PHA', 0x48, 'imp'], ['PLA', 0x68, 'imp'],
+  ['CLC', 0x18, 'imp'], ['SEC', 0x38, 'imp'], ['CLI', 0x58, 'imp'], ['SEI', 0x78, 'imp'],
+  ['CLV', 0xb8, 'imp'], ['CLD', 0xd8, 'imp'], ['SED', 0xf8, 'imp'],
+  ['DEY', 0x88, 'imp'], ['TXA', 0x8a, 'imp'], ['TYA', 0x98, 'imp'], ['TXS', 0x9a, 'imp'],
+  ['TAY', 0xa8, 'imp'], ['TAX', 0xaa, 'imp'], ['TSX', 0xba, 'imp'],
+  ['INY', 0xc8, 'imp'], ['DEX', 0xca, 'imp'], ['INX', 0xe8, 'imp'], ['NOP', 0xea, 'imp'],
+];
+for (const [mnemonic, code, mode] of OTHER_OPS) define(mnemonic, code, mode);
+
+/** 查找操作码，未知操作码返回 null */
+export function getOpcode(code: number): Opcode | null {
+  return OPCODES[code & 0xff] ?? null;
+}
+
+const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+
+/** 格式化一条指令；bytes 为操作码及其操作数 */
+export function formatInstruction(address: number, bytes: number[]): string {
+  const op = getOpcode(bytes[0]);
+  if (!op) return `.db $${hex(bytes[0], 2)}`;
+  const b1 = bytes[1] ?? 0;
+  const word = b1 | ((bytes[2] ?? 0) << 8);
+  switch (op.mode) {
+    case 'imp': return op.mnemonic;
+    case 'acc': return `${op.mnemonic} A`;
+    case 'imm': return `${op.mnemonic} #$${hex(b1, 2)}`;
+    case 'zp': return `${op.mnemonic} $${hex(b1, 2)}`;
+    case 'zpx': return `${op.mnemonic} $${hex(b1, 2)},X`;
+    case 'zpy': return `${op.mnemonic} $${hex(b1, 2)},Y`;
+    case 'abs': return `${op.mnemonic} $${hex(word, 4)}`;
+    case 'abx': return `${op.mnemonic} $${hex(word, 4)},X`;
+    case 'aby': return `${op.mnemonic} $${hex(word, 4)},Y`;
+    case 'ind': return `${op.mnemonic} ($${hex(word, 4)})`;
+    case 'izx': return `${op.mnemonic} ($${hex(b1, 2)},X)`;
+    case 'izy': return `${op.mnemonic} ($${hex(b1, 2)}),Y`;
+    case 'rel': return `${op.mnemonic} $${hex((address + 2 + ((b1 << 24) >> 24)) & 0xffff, 4)}`;
+  }
+}
+
+/** 反汇编 address 处的一条指令 */
+export function disassembleAt(read: ByteReader, address: number): DisasmLine {
+  const op = getOpcode(read(address));
+  const length = op ? op.length : 1;
+  const bytes = Array.from({ length }, (_, i) => read((address + i) & 0xffff));
+  return { address, bytes, text: formatInstruction(address, bytes) };
+}
+
+/** 从 address 起顺序反汇编 count 条指令 */
+export function disassemble(read: ByteReader, address: number, count: number): DisasmLine[] {
+  const lines: DisasmLine[] = [];
+  for (let i = 0; i < count && address <= 0xffff; i++) {
+    const line = disassembleAt(read, address);
+    lines.push(line);
+    address += line.bytes.length;
+  }
+  return lines;
+}
+
+/**
+ * 反汇编 pc 附近的指令：before 条在前、after 条在后（含 pc）
+ * 向前反汇编没有唯一解，这里取能恰好落在 pc 上的最早起点
+ */
+export function disassembleAround(read: ByteReader, pc: number, before: number, after: number): DisasmLine[] {
+  for (let start = Math.max(0, pc - before * 3); start < pc; start++) {
+    const lines: DisasmLine[] = [];
+    let address = start;
+    while (address < pc) {
+      const line = disassembleAt(read, address);
+      lines.push(line);
+      address += line.bytes.length;
+    }
+    if (address === pc) {
+      return [...lines.slice(-before), ...disassemble(read, pc, after)];
+    }
+  }
+  return disassemble(read, pc, after);
+}
@@ -1,76 +1,220 @@
 /**
  * NES 模拟器核心引擎
- * 封装 jsnes，提供完整的模拟器生命周期管理
+ * 主线程一侧的门面：模拟在 worker 中运行（见 worker.ts），这里负责
+ * 键盘输入、音频播放、IndexedDB 持久化，并把其余操作转发给 worker
  */
 
-import { NES } from 'jsnes';
 import { AudioHandler } from './audio';
+import { normalizeCheatCode, parseCheatCode, readCheats, writeCheats } from './cheats';
+import type { Breakpoint, DebugState, DebugUntil } from './debugger';
+import type { FilterId } from './filters';
 import { InputHandler } from './input';
-import type { EmulatorState, KeyMapping } from '../types';
-
-/** NES 原生分辨率 */
-const NES_WIDTH = 256;
-const NES_HEIGHT = 240;
+import { readWatches, writeWatches, type MemorySnapshot } from './memory';
+import type { PpuCaptureOptions, PpuSnapshot } from './ppu-inspect';
+import { parseFm2, serializeFm2, type MovieStart } from './movie';
+import {
+  DEFAULT_PALETTE, paletteColors, parsePalFile, readGamePalette, readGlobalPalette, writeGamePalette,
+  writeGlobalPalette, type PaletteChoice,
+} from './palette';
+import { DEFAULT_REWIND_OPTIONS, type RewindOptions } from './rewind';
+import { inspectRom, type RomInfo } from './rom';
+import { blobToDataUrl, listSaveStates, readSaveState, writeSaveState } from './savestate';
+import { hasBatteryBackup, readSram, sramFileSize, writeSram } from './sram';
+import type { InputSink } from './core';
+import type {
+  Command, CommandParams, CommandResult, CoreState, WorkerMessage, WorkerRequest,
+} from './protocol';
+import { NES_HEIGHT, NES_WIDTH } from './video';
+import type {
+  Cheat, CheatPreset, EmulationSpeed, EmulatorState, HotkeyAction, KeyMapping, MemoryWatch, Overscan, SaveSlot,
+  SaveStateInfo,
+} from '../types';
+
+/** 运行中定期写回电池存档的间隔（ms） */
+const SRAM_FLUSH_INTERVAL_MS = 10_000;
+
+export type StateListener = (state: EmulatorState) => void;
+export type ErrorListener = (err: Error) => void;
+
+/** 无参数的命令不需要传 params */
+type CommandArgs<K extends Command> = CommandParams<K> extends void
+  ? []
+  : [params: CommandParams<K>, transfer?: Transferable[]];
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+}
 
-export class NesEmulator {
-  private nes: NES;
+export class NesEmulator implements InputSink {
+  private worker: Worker;
+  private nextCallId = 1;
+  private pending = new Map<number, PendingCall>();
   private canvas: HTMLCanvasElement | null = null;
-  private ctx: CanvasRenderingContext2D | null = null;
-  private imageData: ImageData | null = null;
-  private frameBuffer: number[] = [];
-  private animFrameId: number | null = null;
   private audio: AudioHandler;
   private input: InputHandler;
   private _isRunning = false;
   private _isPaused = false;
   private _currentGameId: string | null = null;
+  /** 当前 ROM 的原始数据 */
+  private romData: Uint8Array | null = null;
+  /** 当前 ROM 的头部信息与校验和 */
+  private romInfo: RomInfo | null = null;
+
+  /** worker 最近一次推送的状态 */
+  private coreState: CoreState = {
+    isRunning: false,
+    isPaused: false,
+    fps: { emulated: 0, presented: 0 },
+    speed: 1,
+    fastForward: false,
+    rewinding: false,
+    movie: null,
+    frame: 0,
+  };
+
+  // 速度与倒带配置（worker 中的副本，用于同步读取）
+  private speed: EmulationSpeed = 1;
+  private fastForwardLatched = false;
+  private rewindOptions: RewindOptions = { ...DEFAULT_REWIND_OPTIONS };
+
+  // 电池存档
+  /** 当前卡带是否带电池 */
+  private hasBattery = false;
+  /** 写入 IndexedDB 失败、等待下次重试的卡带 RAM */
+  private unsavedSram: Uint8Array | null = null;
+  private sramTimer: ReturnType<typeof setInterval> | null = null;
+
+  /** 全局调色板，以及当前游戏单独设置的调色板 */
+  private globalPalette: PaletteChoice = DEFAULT_PALETTE;
+  private gamePalette: PaletteChoice | null = null;
 
-  // FPS 计算
-  private lastFrameTime = 0;
-  private frameCount = 0;
-  private _fps = 0;
+  /** 当前游戏的金手指列表 */
+  private cheats: Cheat[] = [];
+  private debugMode = false;
+  /** 当前游戏的断点（不保存，切换游戏时清空） */
+  private breakpoints: Breakpoint[] = [];
+
+  private listeners = new Set<StateListener>();
+  private errorListeners = new Set<ErrorListener>();
 
   constructor(keysP1?: KeyMapping, keysP2?: KeyMapping) {
     this.audio = new AudioHandler();
     this.input = new InputHandler(keysP1, keysP2);
+    this.worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<WorkerMessage>) => this.handleMessage(e.data);
+    this.worker.onerror = (e: ErrorEvent) => {
+      this.failWorker(new Error(e.message || 'Emulator worker failed to load.'));
+    };
+    this.worker.onmessageerror = () => {
+      this.failWorker(new Error('Failed to deserialize a message from the emulator worker.'));
+    };
+    // 切到后台或关闭页面前写回电池存档
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden) void this.flushSram();
+    });
+    readGlobalPalette()
+      .then((choice) => {
+        if (!choice) return;
+        this.globalPalette = choice;
+        this.applyPalette();
+      })
+      .catch((err) => console.error('Failed to load palette:', err));
+  }
 
-    this.nes = new NES({
-      onFrame: (buffer: number[]) => {
-        this.frameBuffer = buffer;
-      },
-      onAudioSample: this.audio.getSampleCallback(),
+  /* ---------- worker 通信 ---------- */
+
+  /** 发送命令并等待 worker 回复 */
+  private call<K extends Command>(type: K, ...[params, transfer = []]: CommandArgs<K>): Promise<CommandResult<K>> {
+    const id = this.nextCallId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      const request: WorkerRequest<K> = { id, type, params: params as CommandParams<K> };
+      this.worker.postMessage(request, transfer);
     });
   }
 
-  /** 将模拟器绑定到 Canvas 元素 */
+  /** 发送不需要回复的命令 */
+  private send<K extends Command>(type: K, ...[params, transfer = []]: CommandArgs<K>): void {
+    const request: WorkerRequest<K> = { id: null, type, params: params as CommandParams<K> };
+    this.worker.postMessage(request, transfer);
+  }
+
+  /** worker 出错：所有等待中的调用都不会再有回复，全部拒绝并通知界面 */
+  private failWorker(err: Error): void {
+    console.error('Emulator worker error:', err);
+    const calls = [...this.pending.values()];
+    this.pending.clear();
+    for (const call of calls) call.reject(err);
+    for (const listener of this.errorListeners) listener(err);
+  }
+
+  private handleMessage(msg: WorkerMessage): void {
+    switch (msg.type) {
+      case 'reply': {
+        const call = this.pending.get(msg.id);
+        if (!call) return;
+        this.pending.delete(msg.id);
+        if (msg.error !== undefined) {
+          call.reject(new Error(msg.error));
+        } else {
+          call.resolve(msg.result);
+        }
+        break;
+      }
+      case 'state':
+        this.coreState = msg.state;
+        this.notify();
+        break;
+      case 'audio':
+        this.audio.push(msg.left, msg.right);
+        break;
+      case 'paused':
+        // worker 已自行暂停（断点或预定帧数）
+        this._isPaused = true;
+        this.notify();
+        break;
+    }
+  }
+
+  /* ---------- 生命周期 ---------- */
+
+  /** 将模拟器绑定到 Canvas 元素（画面由 worker 通过 OffscreenCanvas 绘制） */
   attachCanvas(canvas: HTMLCanvasElement): void {
+    // 控制权只能转交一次，同一个 canvas 重复绑定时直接沿用
+    if (this.canvas === canvas) return;
     this.canvas = canvas;
     canvas.width = NES_WIDTH;
     canvas.height = NES_HEIGHT;
-    this.ctx = canvas.getContext('2d')!;
-    this.imageData = this.ctx.createImageData(NES_WIDTH, NES_HEIGHT);
-  }
-
-  /** 将 Uint8Array ROM 数据转为 jsnes 需要的字符串格式 */
-  private romToString(data: Uint8Array): string {
-    let s = '';
-    for (let i = 0; i < data.length; i++) {
-      s += String.fromCharCode(data[i]);
-    }
-    return s;
+    const offscreen = canvas.transferControlToOffscreen();
+    this.send('attachCanvas', { canvas: offscreen }, [offscreen]);
   }
 
-  /** 加载 ROM 数据 */
-  loadRom(data: Uint8Array, gameId?: string): void {
+  /**
+   * 加载 ROM 数据；带电池的卡带会自动恢复上次的电池存档
+   * 同时载入该游戏保存的金手指，从未保存过时以 cheatPresets 作为初始列表
+   */
+  async loadRom(data: Uint8Array, gameId?: string, cheatPresets: CheatPreset[] = []): Promise<void> {
     this.stop();
     this._currentGameId = gameId ?? null;
-    const romStr = this.romToString(data);
-    this.nes.loadROM(romStr);
+    this.romData = data;
+    this.romInfo = inspectRom(data);
+    this.hasBattery = hasBatteryBackup(data);
+    this.unsavedSram = null;
+
+    const sram = this.hasBattery && gameId ? await readSram(gameId) : null;
+    const saved = gameId ? await readCheats(gameId) : null;
+    this.cheats = saved ?? cheatPresets.map((preset) => this.createCheat(preset.code, preset.name, false));
+    this.gamePalette = gameId ? (await readGamePalette(gameId)) ?? null : null;
+    await this.call('loadRom', { rom: data, sram });
+    this.applyCheats();
+    this.applyPalette();
+    this.setBreakpoints([]);
   }
 
   /** 开始运行 */
   start(): void {
-    if (!this.canvas || !this.ctx) {
+    if (!this.canvas) {
       throw new Error('Canvas not attached. Call attachCanvas() first.');
     }
     if (this._isRunning && !this._isPaused) return;
@@ -79,29 +223,23 @@ export class NesEmulator {
     this._isPaused = false;
 
     // 绑定输入
-    this.input.bind(
-      (player, button) => this.nes.buttonDown(player, button),
-      (player, button) => this.nes.buttonUp(player, button),
-    );
+    this.input.attach(this, (action, pressed) => this.handleHotkey(action, pressed));
 
     // 启动音频
     this.audio.start();
     this.audio.resume();
 
-    // 启动渲染循环
-    this.lastFrameTime = performance.now();
-    this.frameCount = 0;
-    this.renderLoop();
+    this.send('start');
+    if (this.sramTimer === null) {
+      this.sramTimer = setInterval(() => void this.flushSram(), SRAM_FLUSH_INTERVAL_MS);
+    }
   }
 
   /** 暂停 */
   pause(): void {
     if (!this._isRunning || this._isPaused) return;
     this._isPaused = true;
-    if (this.animFrameId !== null) {
-      cancelAnimationFrame(this.animFrameId);
-      this.animFrameId = null;
-    }
+    this.send('pause');
   }
 
   /** 从暂停恢复 */
@@ -109,85 +247,451 @@ export class NesEmulator {
     if (!this._isRunning || !this._isPaused) return;
     this._isPaused = false;
     this.audio.resume();
-    this.lastFrameTime = performance.now();
-    this.frameCount = 0;
-    this.renderLoop();
+    this.send('resume');
   }
 
-  /** 重置当前游戏 */
-  reset(): void {
-    if (!this._currentGameId) return;
-    // jsnes 没有 reset 方法，重新 frame 即可清空状态
-    // 实际上 jsnes 的 reset 是重新加载 ROM
-    // 这里停止循环后重新启动
-    const wasRunning = this._isRunning;
-    this.pause();
-    // 重新创建 NES 实例并重新加载会比较干净
-    // 但由于我们没有保存 ROM 数据，使用 NES 的内部状态
-    if (wasRunning) {
-      this._isPaused = false;
-      this.renderLoop();
+  /** 暂停/继续 */
+  togglePause(): void {
+    if (this._isPaused) {
+      this.resume();
+    } else {
+      this.pause();
     }
   }
 
-  /** 完全停止 */
+  /** 前进一帧后保持暂停（运行中会先暂停），用于逐帧分析输入 */
+  frameAdvance(): void {
+    if (!this._isRunning) return;
+    this._isPaused = true;
+    this.send('frameAdvance');
+  }
+
+  /** 继续运行 frames 帧后自动暂停 */
+  pauseAfter(frames: number): void {
+    if (!this._isRunning) return;
+    this._isPaused = false;
+    this.audio.resume();
+    this.send('pauseAfter', { frames });
+  }
+
+  /**
+   * 软复位：相当于按下主机上的 RESET 键
+   * CPU 跳转到复位向量，内存与卡带 SRAM 保持不变
+   */
+  reset(): void {
+    if (!this.romData) return;
+    this.send('reset');
+  }
+
+  /**
+   * 硬复位：重新上电，用保存的 ROM 重建整台主机
+   * 运行/暂停/静音状态保持不变，电池供电的卡带 RAM 也会保留
+   */
+  powerCycle(): void {
+    if (!this.romData) return;
+    this.send('powerCycle');
+  }
+
+  /** 完全停止（同时写回电池存档） */
   stop(): void {
+    void this.flushSram();
+    if (this.sramTimer !== null) {
+      clearInterval(this.sramTimer);
+      this.sramTimer = null;
+    }
     this._isRunning = false;
     this._isPaused = false;
-    if (this.animFrameId !== null) {
-      cancelAnimationFrame(this.animFrameId);
-      this.animFrameId = null;
-    }
     this.input.unbind();
     this.audio.stop();
-    this._fps = 0;
+    this.fastForwardLatched = false;
+    this.send('stop');
   }
 
-  /** 渲染一帧到 Canvas */
-  private renderFrame(): void {
-    if (!this.ctx || !this.imageData) return;
-    if (this.frameBuffer.length === 0) return;
+  /* ---------- 速度控制 ---------- */
 
-    const pixels = this.imageData.data;
-    for (let i = 0; i < NES_WIDTH * NES_HEIGHT; i++) {
-      const color = this.frameBuffer[i];
-      const pi = i * 4;
-      pixels[pi] = (color >> 16) & 0xff;     // R
-      pixels[pi + 1] = (color >> 8) & 0xff;  // G
-      pixels[pi + 2] = color & 0xff;          // B
-      pixels[pi + 3] = 0xff;                  // A
+  /** 设置常规速度（慢放/倍速） */
+  setSpeed(speed: EmulationSpeed): void {
+    this.speed = speed;
+    this.send('setSpeed', { speed });
+  }
+
+  getSpeed(): EmulationSpeed {
+    return this.speed;
+  }
+
+  /** 设置快进时使用的速度 */
+  setFastForwardSpeed(speed: EmulationSpeed): void {
+    this.send('setFastForwardSpeed', { speed });
+  }
+
+  /** 锁定/解除快进，返回切换后是否处于快进 */
+  toggleFastForward(): boolean {
+    this.fastForwardLatched = !this.fastForwardLatched;
+    this.send('toggleFastForward');
+    return this.fastForwardLatched;
+  }
+
+  private handleHotkey(action: HotkeyAction, pressed: boolean): void {
+    switch (action) {
+      case 'fastForwardToggle':
+        if (pressed) this.toggleFastForward();
+        return;
+      case 'pause':
+        if (pressed) this.togglePause();
+        return;
+      case 'frameAdvance':
+        if (pressed) this.frameAdvance();
+        return;
     }
+    this.send('hotkey', { action, pressed });
+  }
 
-    this.ctx.putImageData(this.imageData, 0, 0);
+  /* ---------- 倒带 ---------- */
+
+  /** 修改倒带配置（拍摄间隔、缓冲深度、倒放速度）；缓冲深度变化会清空历史 */
+  setRewindOptions(options: Partial<RewindOptions>): void {
+    this.rewindOptions = { ...this.rewindOptions, ...options };
+    this.send('setRewindOptions', { options });
   }
 
-  /** 60fps 渲染循环 */
-  private renderLoop = (): void => {
-    if (!this._isRunning || this._isPaused) return;
+  getRewindOptions(): RewindOptions {
+    return { ...this.rewindOptions };
+  }
 
-    this.nes.frame();
-    this.renderFrame();
+  /** 订阅状态变化（速度、暂停等），返回取消订阅函数 */
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
 
-    // FPS 计算
-    this.frameCount++;
-    const now = performance.now();
-    const elapsed = now - this.lastFrameTime;
-    if (elapsed >= 1000) {
-      this._fps = Math.round((this.frameCount * 1000) / elapsed);
-      this.frameCount = 0;
-      this.lastFrameTime = now;
+  /** 订阅 worker 错误，返回取消订阅函数 */
+  onError(listener: ErrorListener): () => void {
+    this.errorListeners.add(listener);
+    return () => this.errorListeners.delete(listener);
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      listener(state);
     }
+  }
 
-    this.animFrameId = requestAnimationFrame(this.renderLoop);
-  };
+  /* ---------- 即时存档 ---------- */
+
+  /** 即时存档：保存到指定存档位 */
+  async saveState(slot: SaveSlot): Promise<void> {
+    if (!this._currentGameId || !this.canvas) {
+      throw new Error('No game loaded.');
+    }
+    const gameId = this._currentGameId;
+    const { snapshot, thumbnail } = await this.call('captureState');
+    await writeSaveState(gameId, slot, snapshot, await blobToDataUrl(thumbnail));
+  }
+
+  /** 即时读档：返回该存档位是否存在存档 */
+  async loadState(slot: SaveSlot): Promise<boolean> {
+    if (!this._currentGameId) {
+      throw new Error('No game loaded.');
+    }
+    const snapshot = await readSaveState(this._currentGameId, slot);
+    if (!snapshot) return false;
+    await this.call('restoreState', { snapshot });
+    return true;
+  }
+
+  /** 列出当前游戏的所有存档 */
+  listSaveStates(): Promise<SaveStateInfo[]> {
+    if (!this._currentGameId) return Promise.resolve([]);
+    return listSaveStates(this._currentGameId);
+  }
+
+  /* ---------- 电池存档 ---------- */
+
+  /** 当前卡带是否带电池存档 */
+  hasBatterySave(): boolean {
+    return this.hasBattery;
+  }
+
+  /** 当前游戏是否已有电池存档（导入前用于确认覆盖） */
+  async hasSavedSram(): Promise<boolean> {
+    if (!this._currentGameId || !this.hasBattery) return false;
+    const gameId = this._currentGameId;
+    await this.flushSram();
+    return this.unsavedSram !== null || (await readSram(gameId)) !== null;
+  }
+
+  /**
+   * 导出原始 .sav 数据（与 FCEUX、Mesen、Nestopia 通用）
+   * 当前卡带不带电池时返回 null
+   */
+  async exportSram(): Promise<Uint8Array<ArrayBuffer> | null> {
+    if (!this.romData || !this.hasBattery) return null;
+    const size = sramFileSize(this.romData);
+    const sram = await this.call('readSram', { onlyIfDirty: false });
+    return sram && sram.slice(0, size);
+  }
+
+  /**
+   * 导入 .sav 数据：校验大小后存入 IndexedDB，并重新上电以从导入的存档启动
+   * 大小与导出的 .sav 不符时抛出错误（见 sramFileSize）
+   */
+  async importSram(data: Uint8Array): Promise<void> {
+    if (!this.romData || !this._currentGameId || !this.hasBattery) {
+      throw new Error('This cartridge has no battery-backed RAM.');
+    }
+    const expected = sramFileSize(this.romData);
+    if (data.length !== expected) {
+      throw new Error(`Save file is ${data.length} bytes, but this cartridge expects ${expected} bytes.`);
+    }
+    await writeSram(this._currentGameId, data);
+    this.unsavedSram = null;
+    await this.call('importSram', { data });
+  }
+
+  /**
+   * 将有改动的卡带 RAM 写回 IndexedDB
+   * 游戏 id 在调用时确定，worker 按顺序处理命令，之后切换游戏也不会写错
+   */
+  private async flushSram(): Promise<void> {
+    if (!this.hasBattery || !this._currentGameId) return;
+    const gameId = this._currentGameId;
+    const sram = (await this.call('readSram', { onlyIfDirty: true })) ?? this.unsavedSram;
+    if (!sram) return;
+    this.unsavedSram = null;
+    try {
+      await writeSram(gameId, sram);
+    } catch (err) {
+      if (this._currentGameId === gameId) this.unsavedSram = sram;
+      console.error('Battery save failed:', err);
+    }
+  }
+
+  /* ---------- 金手指 ---------- */
+
+  /** 当前游戏的金手指列表（副本） */
+  getCheats(): Cheat[] {
+    return this.cheats.map((cheat) => ({ ...cheat }));
+  }
+
+  /** 添加并启用一条金手指；代码格式错误时抛出错误 */
+  async addCheat(code: string, name: string): Promise<void> {
+    if (!this.romData) {
+      throw new Error('No game loaded.');
+    }
+    const cheat = this.createCheat(code, name, true);
+    parseCheatCode(cheat.code);
+    this.cheats.push(cheat);
+    await this.commitCheats();
+  }
+
+  /** 修改金手指的名称或开关 */
+  async updateCheat(id: string, changes: Partial<Pick<Cheat, 'name' | 'enabled'>>): Promise<void> {
+    const cheat = this.cheats.find((c) => c.id === id);
+    if (!cheat) return;
+    Object.assign(cheat, changes);
+    await this.commitCheats();
+  }
+
+  async removeCheat(id: string): Promise<void> {
+    this.cheats = this.cheats.filter((c) => c.id !== id);
+    await this.commitCheats();
+  }
+
+  private createCheat(code: string, name: string, enabled: boolean): Cheat {
+    const normalized = normalizeCheatCode(code);
+    return { id: crypto.randomUUID(), code: normalized, name: name.trim() || normalized, enabled };
+  }
+
+  /** 将已启用的金手指同步到 worker，并保存列表 */
+  private async commitCheats(): Promise<void> {
+    this.applyCheats();
+    if (this._currentGameId) {
+      await writeCheats(this._currentGameId, this.cheats);
+    }
+  }
+
+  private applyCheats(): void {
+    const patches = this.cheats.filter((c) => c.enabled).flatMap((c) => {
+      try {
+        return parseCheatCode(c.code);
+      } catch (err) {
+        // 内置列表中的错误代码不影响其余金手指
+        console.error(`Ignoring cheat "${c.name}":`, err);
+        return [];
+      }
+    });
+    this.send('setCheats', { patches });
+  }
+
+  /* ---------- 画面 ---------- */
+
+  /** 设置画面滤镜：放大与后期效果，按数组顺序依次应用（空数组为原样输出） */
+  setVideoFilters(filters: FilterId[]): void {
+    this.send('setVideoFilters', { filters });
+  }
+
+  /** 设置过扫描裁切：四边各裁掉的 NES 像素数 */
+  setOverscan(overscan: Overscan): void {
+    this.send('setOverscan', { overscan });
+  }
+
+  /* ---------- 调色板 ---------- */
+
+  /** 正在使用的调色板；perGame 表示它是当前游戏单独设置的 */
+  getPalette(): { choice: PaletteChoice; perGame: boolean } {
+    return { choice: this.gamePalette ?? this.globalPalette, perGame: this.gamePalette !== null };
+  }
+
+  /** 选用调色板：perGame 时只用于当前游戏，否则设为全局并清除当前游戏的单独设置 */
+  async setPalette(choice: PaletteChoice, perGame: boolean): Promise<void> {
+    const gameId = this._currentGameId;
+    if (perGame && !gameId) {
+      throw new Error('No game loaded.');
+    }
+    if (perGame) {
+      this.gamePalette = choice;
+    } else {
+      this.globalPalette = choice;
+      this.gamePalette = null;
+    }
+    this.applyPalette();
+    if (!perGame) await writeGlobalPalette(choice);
+    if (gameId) await writeGamePalette(gameId, this.gamePalette);
+  }
+
+  /** 导入 .pal 文件（192 或 1536 字节）并选用；大小不符时抛出错误 */
+  importPalette(data: Uint8Array, name: string, perGame: boolean): Promise<void> {
+    return this.setPalette({ id: 'custom', name, colors: parsePalFile(data) }, perGame);
+  }
+
+  /** 取消当前游戏的单独设置，改用全局调色板 */
+  async clearGamePalette(): Promise<void> {
+    if (!this._currentGameId) return;
+    this.gamePalette = null;
+    this.applyPalette();
+    await writeGamePalette(this._currentGameId, null);
+  }
+
+  private applyPalette(): void {
+    const { choice } = this.getPalette();
+    this.send('setPalette', { colors: paletteColors(choice) });
+  }
+
+  /* ---------- 内存 ---------- */
+
+  /** 读取当前的内部 RAM 与卡带 RAM */
+  readMemory(): Promise<MemorySnapshot> {
+    return this.call('readMemory');
+  }
+
+  /** 从 address 起依次写入 RAM（内部 RAM 或卡带 RAM） */
+  writeMemory(address: number, data: number[]): void {
+    this.send('writeMemory', { address, data });
+  }
+
+  /** 当前游戏保存的内存观察列表 */
+  listWatches(): Promise<MemoryWatch[]> {
+    if (!this._currentGameId) return Promise.resolve([]);
+    return readWatches(this._currentGameId);
+  }
+
+  async saveWatches(watches: MemoryWatch[]): Promise<void> {
+    if (!this._currentGameId) return;
+    await writeWatches(this._currentGameId, watches);
+  }
+
+  /* ---------- PPU 查看 ---------- */
+
+  /** 拍摄 PPU 状态；scanline 为画面行（0-239）时等模拟到该行结束再拍摄 */
+  capturePpu(options: PpuCaptureOptions, scanline: number | null = null): Promise<PpuSnapshot> {
+    return this.call('capturePpu', { options, scanline });
+  }
+
+  /* ---------- 调试器 ---------- */
+
+  /** 调试模式：逐条执行指令而不是整帧模拟，断点与跟踪日志只在此模式下生效 */
+  setDebugMode(enabled: boolean): void {
+    this.debugMode = enabled;
+    this.send('setDebugMode', { enabled });
+  }
+
+  isDebugMode(): boolean {
+    return this.debugMode;
+  }
+
+  getBreakpoints(): Breakpoint[] {
+    return this.breakpoints.map((b) => ({ ...b }));
+  }
+
+  setBreakpoints(breakpoints: Breakpoint[]): void {
+    this.breakpoints = breakpoints.map((b) => ({ ...b }));
+    this.send('setBreakpoints', { breakpoints: this.breakpoints });
+  }
+
+  getDebugState(): Promise<DebugState> {
+    return this.call('getDebugState');
+  }
+
+  /** 暂停并单步执行：一条指令、到本帧结束或到某一画面行开始（遇到断点提前停下） */
+  debugStep(until: DebugUntil): Promise<DebugState> {
+    this.pause();
+    return this.call('debugStep', { until });
+  }
+
+  /** 跟踪日志文本：调试模式下最近执行的指令及执行前的寄存器 */
+  exportTrace(): Promise<string> {
+    return this.call('getTrace');
+  }
+
+  /* ---------- 录像 ---------- */
+
+  /** 开始录制输入录像：从上电或当前状态开始 */
+  recordMovie(from: MovieStart['type']): void {
+    if (!this.romData) return;
+    this.send('recordMovie', { from, romFilename: `${this._currentGameId ?? 'game'}.nes` });
+  }
+
+  /** 从头回放最近一次录制或导入的录像 */
+  playMovie(): void {
+    this.send('playMovie', { movie: null });
+  }
+
+  stopMovie(): void {
+    this.send('stopMovie');
+  }
+
+  /** 回放中从当前帧接管并继续录制 */
+  takeOverMovie(): void {
+    this.send('takeOverMovie');
+  }
+
+  /** 导出最近的录像为 .fm2 文本；没有录像时返回 null */
+  async exportMovie(): Promise<string | null> {
+    const movie = await this.call('getMovie');
+    return movie && serializeFm2(movie);
+  }
+
+  /** 导入 .fm2 录像并从上电开始回放；格式不支持时抛出错误 */
+  async importMovie(text: string): Promise<void> {
+    if (!this.romData) {
+      throw new Error('No game loaded.');
+    }
+    await this.call('playMovie', { movie: parseFm2(text) });
+  }
+
+  /** 当前 ROM 的头部信息与校验和，未加载游戏时返回 null */
+  getRomInfo(): RomInfo | null {
+    return this.romInfo;
+  }
 
   /** 获取当前状态 */
   getState(): EmulatorState {
     return {
+      ...this.coreState,
       isRunning: this._isRunning,
       isPaused: this._isPaused,
       currentGame: null, // Game 对象由上层管理
-      fps: this._fps,
     };
   }
 
@@ -208,13 +712,18 @@ export class NesEmulator {
     return this.audio.muted;
   }
 
+  /** 按下/松开手柄按键（转发给 worker 中的 NesCore） */
+  setButton(player: number, button: number, pressed: boolean): void {
+    this.send('button', { player, button, pressed });
+  }
+
   /** Controller button press (for virtual gamepad) */
   buttonDown(player: number, button: number): void {
-    this.nes.buttonDown(player, button);
+    this.setButton(player, button, true);
   }
 
   buttonUp(player: number, button: number): void {
-    this.nes.buttonUp(player, button);
+    this.setButton(player, button, false);
   }
 
   /** 按键配置 */
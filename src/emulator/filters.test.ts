@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { applyFilter, FILTERS, FilterPipeline, type Frame } from './filters';
+import { NES_HEIGHT, NES_WIDTH } from './video';
+
+/** 像素按 0xAABBGGRR 存放 */
+const W = 0xffffffff;
+const X = 0xff0000ff;
+const E = 0xff00ff00;
+const GRAY = 0xff808080;
+
+function frame(width: number, height: number, pixels: number[]): Frame {
+  return { width, height, pixels: Uint32Array.from(pixels) };
+}
+
+function solid(width: number, height: number, color: number): Frame {
+  return { width, height, pixels: new Uint32Array(width * height).fill(color) };
+}
+
+const at = (f: Frame, x: number, y: number) => f.pixels[y * f.width + x];
+
+/** 中心像素的上方与左方同色，用于检验 Scale2x 的边角替换 */
+const corner = frame(3, 3, [
+  W, X, W,
+  X, E, W,
+  W, W, W,
+]);
+
+describe('filters', () => {
+  it.each([
+    ['nearest', 2], ['scale2x', 2], ['scale3x', 3], ['hq2x', 2], ['xbr', 2], ['ntsc', 1], ['scanlines', 2],
+  ] as const)('%s scales a 3x3 frame by %i', (id, scale) => {
+    const out = applyFilter(id, corner);
+    expect(out.width).toBe(3 * scale);
+    expect(out.height).toBe(3 * scale);
+    expect(out.pixels.length).toBe(9 * scale * scale);
+  });
+
+  it('covers every listed filter', () => {
+    for (const { id } of FILTERS) {
+      expect(() => applyFilter(id, corner)).not.toThrow();
+    }
+  });
+
+  it('keeps solid frames unchanged', () => {
+    const input = solid(4, 4, GRAY);
+    for (const id of ['nearest', 'scale2x', 'scale3x', 'hq2x', 'xbr', 'ntsc'] as const) {
+      expect(applyFilter(id, input).pixels.every((p) => p === GRAY)).toBe(true);
+    }
+  });
+
+  it('nearest duplicates each pixel into a 2x2 block', () => {
+    const out = applyFilter('nearest', corner);
+    expect([at(out, 2, 0), at(out, 3, 0), at(out, 2, 1), at(out, 3, 1)]).toEqual([X, X, X, X]);
+    expect(at(out, 1, 3)).toBe(X);
+    expect(at(out, 3, 3)).toBe(E);
+  });
+
+  it('scale2x rounds the corner shared by matching neighbours', () => {
+    const out = applyFilter('scale2x', corner);
+    // 中心像素放大后的 2x2：左上取上/左邻居的颜色，右下取下/右邻居的颜色，其余保持原色
+    expect(at(out, 2, 2)).toBe(X);
+    expect(at(out, 3, 2)).toBe(E);
+    expect(at(out, 2, 3)).toBe(E);
+    expect(at(out, 3, 3)).toBe(W);
+  });
+
+  it('scale3x keeps the centre of each 3x3 block', () => {
+    const out = applyFilter('scale3x', corner);
+    for (let y = 0; y < 3; y++) {
+      for (let x = 0; x < 3; x++) {
+        expect(at(out, x * 3 + 1, y * 3 + 1)).toBe(at(corner, x, y));
+      }
+    }
+  });
+
+  it('scanlines upscales and darkens every second row', () => {
+    const out = applyFilter('scanlines', solid(2, 2, GRAY));
+    expect(at(out, 0, 0)).toBe(GRAY);
+    expect(at(out, 0, 1)).toBe(0xff4d4d4d);
+    expect(at(out, 3, 2)).toBe(GRAY);
+    expect(at(out, 3, 3)).toBe(0xff4d4d4d);
+  });
+
+  it('ntsc blurs a hard edge horizontally only', () => {
+    const out = applyFilter('ntsc', frame(4, 2, [W, W, 0xff000000, 0xff000000, W, W, 0xff000000, 0xff000000]));
+    expect(out.width).toBe(4);
+    const edge = at(out, 1, 0) & 0xff;
+    expect(edge).toBeGreaterThan(0);
+    expect(edge).toBeLessThan(0xff);
+    expect(at(out, 1, 1)).toBe(at(out, 1, 0));
+  });
+});
+
+describe('FilterPipeline', () => {
+  it('passes frames through when empty', () => {
+    const pipeline = new FilterPipeline();
+    const input = solid(NES_WIDTH, NES_HEIGHT, GRAY);
+    expect(pipeline.isEmpty).toBe(true);
+    expect(pipeline.process(input)).toBe(input);
+  });
+
+  it('chains filters on a full NES frame and reuses its buffers', () => {
+    const pipeline = new FilterPipeline();
+    pipeline.setFilters(['ntsc', 'xbr', 'scanlines']);
+    const input = solid(NES_WIDTH, NES_HEIGHT, GRAY);
+    const out = pipeline.process(input);
+    expect(out.width).toBe(NES_WIDTH * 2);
+    expect(out.height).toBe(NES_HEIGHT * 2);
+    expect(at(out, 10, 0)).toBe(GRAY);
+    expect(at(out, 10, 1)).toBe(0xff4d4d4d);
+    expect(pipeline.process(input)).toBe(out);
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * 画面滤镜
+ * 在核心输出的 RGBA 帧与 canvas 之间做像素放大（最近邻、Scale2x/3x、HQ2x、xBR）
+ * 与后期效果（扫描线、NTSC 模糊）。全部在 CPU 上处理 typed array，不依赖 DOM，可直接在 Node 中运行
+ */
+
+import { NES_HEIGHT } from './video';
+
+/** 一帧画面：pixels 按行存放，每个元素是一个 RGBA 像素（小端序下读作 0xAABBGGRR） */
+export interface Frame {
+  width: number;
+  height: number;
+  pixels: Uint32Array<ArrayBuffer>;
+}
+
+/** 放大滤镜 */
+export type ScalerId = 'nearest' | 'scale2x' | 'scale3x' | 'hq2x' | 'xbr';
+/** 后期效果 */
+export type EffectId = 'ntsc' | 'scanlines';
+export type FilterId = ScalerId | EffectId;
+
+export interface FilterInfo {
+  id: FilterId;
+  name: string;
+  kind: 'scaler' | 'effect';
+}
+
+export const FILTERS: readonly FilterInfo[] = [
+  { id: 'nearest', name: 'Nearest 2x', kind: 'scaler' },
+  { id: 'scale2x', name: 'Scale2x', kind: 'scaler' },
+  { id: 'scale3x', name: 'Scale3x', kind: 'scaler' },
+  { id: 'hq2x', name: 'HQ2x', kind: 'scaler' },
+  { id: 'xbr', name: 'xBR 2x', kind: 'scaler' },
+  { id: 'ntsc', name: 'NTSC', kind: 'effect' },
+  { id: 'scanlines', name: 'Scanlines', kind: 'effect' },
+];
+
+/** 扫描线间隙的亮度 */
+const SCANLINE_BRIGHTNESS = 0.6;
+
+/** 输出帧：尺寸相同时复用上一次的缓冲 */
+function outputFrame(previous: Frame | undefined, width: number, height: number): Frame {
+  if (previous && previous.width === width && previous.height === height) return previous;
+  return { width, height, pixels: new Uint32Array(width * height) };
+}
+
+/* ---------- 颜色运算 ---------- */
+
+const red = (p: number) => p & 0xff;
+const green = (p: number) => (p >>> 8) & 0xff;
+const blue = (p: number) => (p >>> 16) & 0xff;
+const rgb = (r: number, g: number, b: number) => (0xff000000 | (b << 16) | (g << 8) | r) >>> 0;
+
+/** 按权重混合两种颜色 */
+function mix2(a: number, wa: number, b: number, wb: number): number {
+  const total = wa + wb;
+  return rgb(
+    Math.round((red(a) * wa + red(b) * wb) / total),
+    Math.round((green(a) * wa + green(b) * wb) / total),
+    Math.round((blue(a) * wa + blue(b) * wb) / total),
+  );
+}
+
+/** 按权重混合三种颜色 */
+function mix3(a: number, wa: number, b: number, wb: number, c: number, wc: number): number {
+  const total = wa + wb + wc;
+  return rgb(
+    Math.round((red(a) * wa + red(b) * wb + red(c) * wc) / total),
+    Math.round((green(a) * wa + green(b) * wb + green(c) * wc) / total),
+    Math.round((blue(a) * wa + blue(b) * wb + blue(c) * wc) / total),
+  );
+}
+
+/** 每个像素的 YUV（hqx 的整数换算），供相似度判断 */
+function toYuv(frame: Frame): Int32Array {
+  const { pixels } = frame;
+  const yuv = new Int32Array(pixels.length * 3);
+  for (let i = 0; i < pixels.length; i++) {
+    const p = pixels[i];
+    const r = red(p);
+    const g = green(p);
+    const b = blue(p);
+    yuv[i * 3] = (r + g + b) >> 2;
+    yuv[i * 3 + 1] = (r - b) >> 2;
+    yuv[i * 3 + 2] = (2 * g - r - b) >> 3;
+  }
+  return yuv;
+}
+
+/**
+ * 取 (x, y) 的 3x3 邻域在原图中的下标写入 n：
+ * A B C / D E F / G H I，越界时取边缘像素
+ */
+function neighbours(frame: Frame, x: number, y: number, n: Int32Array): void {
+  const { width, height } = frame;
+  const up = Math.max(0, y - 1) * width;
+  const row = y * width;
+  const down = Math.min(height - 1, y + 1) * width;
+  const left = Math.max(0, x - 1);
+  const right = Math.min(width - 1, x + 1);
+  n[0] = up + left; n[1] = up + x; n[2] = up + right;
+  n[3] = row + left; n[4] = row + x; n[5] = row + right;
+  n[6] = down + left; n[7] = down + x; n[8] = down + right;
+}
+
+/* ---------- 放大 ---------- */
+
+/** 最近邻放大 2 倍（像素复制） */
+function nearest(input: Frame, out?: Frame): Frame {
+  const { width, height, pixels } = input;
+  const output = outputFrame(out, width * 2, height * 2);
+  const dst = output.pixels;
+  const w2 = output.width;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = pixels[y * width + x];
+      const o = y * 2 * w2 + x * 2;
+      dst[o] = p;
+      dst[o + 1] = p;
+      dst[o + w2] = p;
+      dst[o + w2 + 1] = p;
+    }
+  }
+  return output;
+}
+
+/** Scale2x（EPX）：相邻两边颜色相同时把角替换为该颜色 */
+function scale2x(input: Frame, out?: Frame): Frame {
+  const { width, height, pixels } = input;
+  const output = outputFrame(out, width * 2, height * 2);
+  const dst = output.pixels;
+  const w2 = output.width;
+  const n = new Int32Array(9);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      neighbours(input, x, y, n);
+      const B = pixels[n[1]], D = pixels[n[3]], E = pixels[n[4]], F = pixels[n[5]], H = pixels[n[7]];
+      const o = y * 2 * w2 + x * 2;
+      if (B !== H && D !== F) {
+        dst[o] = D === B ? D : E;
+        dst[o + 1] = B === F ? F : E;
+        dst[o + w2] = D === H ? D : E;
+        dst[o + w2 + 1] = H === F ? F : E;
+      } else {
+        dst[o] = dst[o + 1] = dst[o + w2] = dst[o + w2 + 1] = E;
+      }
+    }
+  }
+  return output;
+}
+
+/** Scale3x：Scale2x 的 3 倍版本 */
+function scale3x(input: Frame, out?: Frame): Frame {
+  const { width, height, pixels } = input;
+  const output = outputFrame(out, width * 3, height * 3);
+  const dst = output.pixels;
+  const w3 = output.width;
+  const n = new Int32Array(9);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      neighbours(input, x, y, n);
+      const A = pixels[n[0]], B = pixels[n[1]], C = pixels[n[2]];
+      const D = pixels[n[3]], E = pixels[n[4]], F = pixels[n[5]];
+      const G = pixels[n[6]], H = pixels[n[7]], I = pixels[n[8]];
+      const o0 = y * 3 * w3 + x * 3;
+      const o1 = o0 + w3;
+      const o2 = o1 + w3;
+      if (B !== H && D !== F) {
+        dst[o0] = D === B ? D : E;
+        dst[o0 + 1] = (D === B && E !== C) || (B === F && E !== A) ? B : E;
+        dst[o0 + 2] = B === F ? F : E;
+        dst[o1] = (D === B && E !== G) || (D === H && E !== A) ? D : E;
+        dst[o1 + 1] = E;
+        dst[o1 + 2] = (B === F && E !== I) || (H === F && E !== C) ? F : E;
+        dst[o2] = D === H ? D : E;
+        dst[o2 + 1] = (D === H && E !== I) || (H === F && E !== G) ? H : E;
+        dst[o2 + 2] = H === F ? F : E;
+      } else {
+        dst[o0] = dst[o0 + 1] = dst[o0 + 2] = E;
+        dst[o1] = dst[o1 + 1] = dst[o1 + 2] = E;
+        dst[o2] = dst[o2 + 1] = dst[o2 + 2] = E;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * HQ2x（简化版）：按 hqx 的 YUV 阈值判断邻居是否与中心相似，
+ * 每个角依据两条边与对角的邻居选择插值，不含原版的 256 项规则表
+ */
+function hq2x(input: Frame, out?: Frame): Frame {
+  const { width, height, pixels } = input;
+  const yuv = toYuv(input);
+  const output = outputFrame(out, width * 2, height * 2);
+  const dst = output.pixels;
+  const w2 = output.width;
+  const n = new Int32Array(9);
+  const differs = (i: number, j: number) =>
+    pixels[i] !== pixels[j] && (
+      Math.abs(yuv[i * 3] - yuv[j * 3]) > 48
+      || Math.abs(yuv[i * 3 + 1] - yuv[j * 3 + 1]) > 7
+      || Math.abs(yuv[i * 3 + 2] - yuv[j * 3 + 2]) > 6);
+  // a、b 为角两侧的邻居，c 为对角的邻居（均为 n 中的位置）
+  const corner = (a: number, b: number, c: number) => {
+    const e = n[4];
+    const da = differs(e, n[a]);
+    const db = differs(e, n[b]);
+    if (!da && !db) return pixels[e];
+    if (da && db) {
+      // 两边都不同：角被切掉，两边相同且对角也相同时切得更多
+      return !differs(n[a], n[b]) && !differs(n[a], n[c])
+        ? mix3(pixels[e], 2, pixels[n[a]], 3, pixels[n[b]], 3)
+        : mix3(pixels[e], 2, pixels[n[a]], 1, pixels[n[b]], 1);
+    }
+    return differs(e, n[c]) ? mix2(pixels[e], 3, pixels[n[c]], 1) : pixels[e];
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      neighbours(input, x, y, n);
+      const o = y * 2 * w2 + x * 2;
+      const E = pixels[n[4]];
+      // 四边邻居都与中心相同时不需要插值
+      if (pixels[n[1]] === E && pixels[n[3]] === E && pixels[n[5]] === E && pixels[n[7]] === E) {
+        dst[o] = dst[o + 1] = dst[o + w2] = dst[o + w2 + 1] = E;
+        continue;
+      }
+      dst[o] = corner(1, 3, 0);
+      dst[o + 1] = corner(1, 5, 2);
+      dst[o + w2] = corner(7, 3, 6);
+      dst[o + w2 + 1] = corner(7, 5, 8);
+    }
+  }
+  return output;
+}
+
+/**
+ * 轻量 xBR（2xBR level 1）：比较角两侧 5x5 邻域的边缘强度，
+ * 确认存在斜向边缘时把该角与边缘另一侧的颜色各半混合
+ */
+function xbr(input: Frame, out?: Frame): Frame {
+  const { width, height, pixels } = input;
+  const yuv = toYuv(input);
+  const output = outputFrame(out, width * 2, height * 2);
+  const dst = output.pixels;
+  const d = (i: number, j: number) =>
+    48 * Math.abs(yuv[i * 3] - yuv[j * 3])
+    + 7 * Math.abs(yuv[i * 3 + 1] - yuv[j * 3 + 1])
+    + 6 * Math.abs(yuv[i * 3 + 2] - yuv[j * 3 + 2]);
+  // 当前像素 5x5 邻域在原图中的下标（越界取边缘），at 按角的方向 (sx, sy) 取相对位置
+  const nb = new Int32Array(25);
+  const at = (dx: number, dy: number, sx: number, sy: number) => nb[(dy * sy + 2) * 5 + dx * sx + 2];
+  const n = new Int32Array(9);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      neighbours(input, x, y, n);
+      const center = pixels[n[4]];
+      // 四边邻居都与中心相同时没有边缘
+      if (pixels[n[1]] === center && pixels[n[3]] === center && pixels[n[5]] === center && pixels[n[7]] === center) {
+        const o = y * 2 * output.width + x * 2;
+        dst[o] = dst[o + 1] = dst[o + output.width] = dst[o + output.width + 1] = center;
+        continue;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        const row = Math.min(height - 1, Math.max(0, y + dy)) * width;
+        for (let dx = -2; dx <= 2; dx++) {
+          nb[(dy + 2) * 5 + dx + 2] = row + Math.min(width - 1, Math.max(0, x + dx));
+        }
+      }
+      const e = nb[12];
+      const base = y * 2 * output.width + x * 2;
+      // 四个角依次为左上、右上、左下、右下；(sx, sy) 指向该角
+      for (let c = 0; c < 4; c++) {
+        const sx = c & 1 ? 1 : -1;
+        const sy = c & 2 ? 1 : -1;
+        // 以右下角为例：f = 右，h = 下，i = 右下
+        const f = at(1, 0, sx, sy);
+        const h = at(0, 1, sx, sy);
+        const i = at(1, 1, sx, sy);
+        let color = pixels[e];
+        if (pixels[f] !== color || pixels[h] !== color) {
+          const across = d(e, at(1, -1, sx, sy)) + d(e, at(-1, 1, sx, sy))
+            + d(i, at(2, 0, sx, sy)) + d(i, at(0, 2, sx, sy)) + 4 * d(h, f);
+          const along = d(h, at(-1, 0, sx, sy)) + d(h, at(1, 2, sx, sy))
+            + d(f, at(2, 1, sx, sy)) + d(f, at(0, -1, sx, sy)) + 4 * d(e, i);
+          if (across < along) {
+            const edge = d(e, f) <= d(e, h) ? pixels[f] : pixels[h];
+            color = mix2(color, 1, edge, 1);
+          }
+        }
+        dst[base + (c >> 1) * output.width + (c & 1)] = color;
+      }
+    }
+  }
+  return output;
+}
+
+/* ---------- 后期效果 ---------- */
+
+/**
+ * 扫描线：把每条原始画面行对应的最后一行输出调暗
+ * 画面还没有放大时先最近邻放大 2 倍，否则无处容纳扫描线间隙
+ */
+function scanlines(input: Frame, out?: Frame): Frame {
+  const source = input.height < NES_HEIGHT * 2 ? nearest(input, out) : input;
+  const { width, height, pixels } = source;
+  const output = outputFrame(source === input ? out : source, width, height);
+  const factor = Math.max(2, Math.round(height / NES_HEIGHT));
+  const dst = output.pixels;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    if (y % factor !== factor - 1) {
+      if (dst !== pixels) dst.set(pixels.subarray(row, row + width), row);
+      continue;
+    }
+    for (let x = 0; x < width; x++) {
+      const p = pixels[row + x];
+      dst[row + x] = rgb(
+        Math.round(red(p) * SCANLINE_BRIGHTNESS),
+        Math.round(green(p) * SCANLINE_BRIGHTNESS),
+        Math.round(blue(p) * SCANLINE_BRIGHTNESS),
+      );
+    }
+  }
+  return output;
+}
+
+/**
+ * NTSC 模糊：按 YIQ 分量做横向模糊，色度带宽比亮度窄，模糊得更宽
+ * 应放在放大之前，按原生分辨率处理
+ */
+function ntsc(input: Frame, out?: Frame): Frame {
+  const { width, height, pixels } = input;
+  const output = outputFrame(out, width, height);
+  const dst = output.pixels;
+  // 每行的 YIQ，左右各留 2 个像素复制边缘，免去卷积时的越界判断
+  const y = new Float32Array(width + 4);
+  const i = new Float32Array(width + 4);
+  const q = new Float32Array(width + 4);
+  const clamp = (v: number) => (v <= 0 ? 0 : v >= 255 ? 255 : Math.round(v));
+  for (let row = 0; row < height; row++) {
+    const base = row * width;
+    for (let x = -2; x < width + 2; x++) {
+      const p = pixels[base + Math.min(width - 1, Math.max(0, x))];
+      const r = red(p);
+      const g = green(p);
+      const b = blue(p);
+      y[x + 2] = 0.299 * r + 0.587 * g + 0.114 * b;
+      i[x + 2] = 0.596 * r - 0.274 * g - 0.322 * b;
+      q[x + 2] = 0.211 * r - 0.523 * g + 0.312 * b;
+    }
+    for (let x = 2; x < width + 2; x++) {
+      // 亮度 [1 2 1] / 4，色度 [1 2 3 2 1] / 9
+      const ly = (y[x - 1] + 2 * y[x] + y[x + 1]) / 4;
+      const ci = (i[x - 2] + 2 * i[x - 1] + 3 * i[x] + 2 * i[x + 1] + i[x + 2]) / 9;
+      const cq = (q[x - 2] + 2 * q[x - 1] + 3 * q[x] + 2 * q[x + 1] + q[x + 2]) / 9;
+      dst[base + x - 2] = rgb(
+        clamp(ly + 0.956 * ci + 0.621 * cq),
+        clamp(ly - 0.272 * ci - 0.647 * cq),
+        clamp(ly - 1.106 * ci + 1.703 * cq),
+      );
+    }
+  }
+  return output;
+}
+
+const FILTER_IMPLS: Record<FilterId, (input: Frame, out?: Frame) => Frame> = {
+  nearest, scale2x, scale3x, hq2x, xbr, ntsc, scanlines,
+};
+
+/** 对一帧应用单个滤镜；out 为上一次的输出，尺寸相同时复用其缓冲 */
+export function applyFilter(id: FilterId, input: Frame, out?: Frame): Frame {
+  return FILTER_IMPLS[id](input, out);
+}
+
+/** 按顺序串联的滤镜，各级输出缓冲在帧之间复用 */
+export class FilterPipeline {
+  private filters: FilterId[] = [];
+  private outputs: (Frame | undefined)[] = [];
+
+  getFilters(): FilterId[] {
+    return [...this.filters];
+  }
+
+  setFilters(filters: readonly FilterId[]): void {
+    this.filters = [...filters];
+    this.outputs = [];
+  }
+
+  get isEmpty(): boolean {
+    return this.filters.length === 0;
+  }
+
+  /** 处理一帧；返回的帧在下一次调用时会被覆盖 */
+  process(input: Frame): Frame {
+    let frame = input;
+    this.filters.forEach((id, i) => {
+      frame = applyFilter(id, frame, this.outputs[i]);
+      this.outputs[i] = frame;
+    });
+    return frame;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * ROM 校验和：CRC32、SHA-1、MD5
+ * 纯 JS 实现，不依赖 crypto.subtle（局域网 http 访问时不可用，且不支持 MD5）
+ */
+
+const hex = (value: number) => (value >>> 0).toString(16).padStart(8, '0');
+
+/** 小端序输出（MD5） */
+const hexLE = (value: number) =>
+  hex(((value & 0xff) << 24) | ((value & 0xff00) << 8) | ((value >>> 8) & 0xff00) | (value >>> 24));
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c;
+  }
+  return table;
+})();
+
+/** CRC32（与 zip、No-Intro 相同的多项式）的数值 */
+export function crc32Value(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** CRC32，返回 8 位大写十六进制 */
+export function crc32(data: Uint8Array): string {
+  return hex(crc32Value(data)).toUpperCase();
+}
+
+/**
+ * 按 MD5 / SHA-1 的规则补齐到 64 字节的倍数：0x80、若干 0，最后 8 字节为位长度
+ * bigEndian 决定长度与分组字的字节序
+ */
+function padMessage(data: Uint8Array, bigEndian: boolean): DataView {
+  const length = Math.ceil((data.length + 9) / 64) * 64;
+  const bytes = new Uint8Array(length);
+  bytes.set(data);
+  bytes[data.length] = 0x80;
+  const view = new DataView(bytes.buffer);
+  const bits = data.length * 8;
+  const high = Math.floor(bits / 0x100000000);
+  if (bigEndian) {
+    view.setUint32(length - 8, high);
+    view.setUint32(length - 4, bits >>> 0);
+  } else {
+    view.setUint32(length - 8, bits >>> 0, true);
+    view.setUint32(length - 4, high, true);
+  }
+  return view;
+}
+
+const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+
+/** SHA-1，返回 40 位小写十六进制 */
+export function sha1(data: Uint8Array): string {
+  const view = padMessage(data, true);
+  const w = new Int32Array(80);
+  let h0 = 0x67452301;
+  let h1 = 0xefcdab89;
+  let h2 = 0x98badcfe;
+  let h3 = 0x10325476;
+  let h4 = 0xc3d2e1f0;
+
+  for (let block = 0; block < view.byteLength; block += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getInt32(block + i * 4);
+    for (let i = 16; i < 80; i++) w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+    let a = h0;
+    let b = h1;
+    let c = h2;
+    let d = h3;
+    let e = h4;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const t = (rotl(a, 5) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30);
+      b = a;
+      a = t;
+    }
+    h0 = (h0 + a) | 0;
+    h1 = (h1 + b) | 0;
+    h2 = (h2 + c) | 0;
+    h3 = (h3 + d) | 0;
+    h4 = (h4 + e) | 0;
+  }
+  return [h0, h1, h2, h3, h4].map(hex).join('');
+}
+
+/** MD5 每一步的循环左移位数 */
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const MD5_CONSTANTS = Int32Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000));
+
+/** MD5，返回 32 位小写十六进制 */
+export function md5(data: Uint8Array): string {
+  const view = padMessage(data, false);
+  const m = new Int32Array(16);
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+
+  for (let block = 0; block < view.byteLength; block += 64) {
+    for (let i = 0; i < 16; i++) m[i] = view.getInt32(block + i * 4, true);
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) & 15;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) & 15;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) & 15;
+      }
+      const t = d;
+      d = c;
+      c = b;
+      b = (b + rotl((a + f + MD5_CONSTANTS[i] + m[g]) | 0, MD5_SHIFTS[i])) | 0;
+      a = t;
+    }
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+  return [a0, b0, c0, d0].map(hexLE).join('');
+}
@@ -5,3 +5,17 @@
 export { NesEmulator } from './engine';
 export { AudioHandler } from './audio';
 export { InputHandler } from './input';
+export { SAVE_SLOT_COUNT } from './savestate';
+export { DEFAULT_REWIND_OPTIONS, type RewindOptions } from './rewind';
+export { BUILTIN_PALETTES, type PaletteChoice } from './palette';
+export { FILTERS, type FilterId } from './filters';
+export { NES_HEIGHT, NES_WIDTH } from './video';
+export { romCrc32, type RomHeader, type RomInfo } from './rom';
+export { applyPatch, patchId } from './patch';
+export {
+  cacheGame, getOfflineStatus, isOfflineSupported, listOfflineRoms, registerServiceWorker, uncacheGame,
+  type OfflineStatus,
+} from './offline';
+export {
+  deleteLocalRom, listLocalRoms, localRomGame, readLocalRom, readRomFile, saveLocalRom, type LocalRom,
+} from './library';
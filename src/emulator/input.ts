@@ -3,8 +3,9 @@
  * 将键盘事件转换为 jsnes controller 输入
  */
 
-import type { KeyMapping } from '../types';
-import { DEFAULT_KEYS_P1, DEFAULT_KEYS_P2 } from '../types';
+import type { InputSink } from './core';
+import type { HotkeyAction, KeyMapping } from '../types';
+import { DEFAULT_HOTKEYS, DEFAULT_KEYS_P1, DEFAULT_KEYS_P2 } from '../types';
 
 /** jsnes 按钮常量（与 jsnes Controller 对应） */
 export const BUTTONS = {
@@ -34,20 +35,37 @@ const KEY_TO_BUTTON: Record<ButtonName, number> = {
 
 export type ButtonCallback = (player: number, button: number) => void;
 
+/** 热键回调：pressed 为 true 表示按下，false 表示松开 */
+export type HotkeyCallback = (action: HotkeyAction, pressed: boolean) => void;
+
+/** 事件目标是否为可输入文字的元素 */
+function isTextField(target: EventTarget | null): boolean {
+  if (target instanceof HTMLInputElement) {
+    return !['checkbox', 'radio', 'button', 'submit', 'range'].includes(target.type);
+  }
+  return target instanceof HTMLTextAreaElement || (target instanceof HTMLElement && target.isContentEditable);
+}
+
 export class InputHandler {
   private keysP1: KeyMapping;
   private keysP2: KeyMapping;
   private onButtonDown: ButtonCallback | null = null;
   private onButtonUp: ButtonCallback | null = null;
+  private onHotkey: HotkeyCallback | null = null;
   private handleKeyDown: ((e: KeyboardEvent) => void) | null = null;
   private handleKeyUp: ((e: KeyboardEvent) => void) | null = null;
   /** code -> { player, button } 的反向查找表 */
   private keyMap: Map<string, { player: number; button: number }> = new Map();
+  /** code -> 热键动作 的反向查找表 */
+  private hotkeyMap: Map<string, HotkeyAction> = new Map();
 
   constructor(keysP1?: KeyMapping, keysP2?: KeyMapping) {
     this.keysP1 = keysP1 ?? DEFAULT_KEYS_P1;
     this.keysP2 = keysP2 ?? DEFAULT_KEYS_P2;
     this.buildKeyMap();
+    for (const [action, code] of Object.entries(DEFAULT_HOTKEYS)) {
+      this.hotkeyMap.set(code, action as HotkeyAction);
+    }
   }
 
   /** 构建 code -> {player, button} 查找表（支持一个动作绑定多个键） */
@@ -81,20 +99,26 @@ export class InputHandler {
     };
     addCodes(this.keysP1);
     addCodes(this.keysP2);
+    for (const code of this.hotkeyMap.keys()) {
+      this.blockedKeys.add(code);
+    }
     // 额外阻止 Tab 防止焦点切换
     this.blockedKeys.add('Tab');
   }
 
   /** 绑定键盘事件 */
-  bind(onButtonDown: ButtonCallback, onButtonUp: ButtonCallback): void {
+  bind(onButtonDown: ButtonCallback, onButtonUp: ButtonCallback, onHotkey?: HotkeyCallback): void {
     this.onButtonDown = onButtonDown;
     this.onButtonUp = onButtonUp;
+    this.onHotkey = onHotkey ?? null;
     this.buildBlockedKeys();
 
     // 模糊所有焦点元素，防止 Enter/Space 触发按钮
     (document.activeElement as HTMLElement)?.blur?.();
 
     this.handleKeyDown = (e: KeyboardEvent) => {
+      // 在输入框中打字（如填写金手指）时不当作游戏按键
+      if (isTextField(e.target)) return;
       // 拦截所有游戏按键 + 可能冲突的按键
       if (this.blockedKeys.has(e.code)) {
         e.preventDefault();
@@ -104,6 +128,10 @@ export class InputHandler {
       if (mapping) {
         this.onButtonDown?.(mapping.player, mapping.button);
       }
+      const hotkey = this.hotkeyMap.get(e.code);
+      if (hotkey && !e.repeat) {
+        this.onHotkey?.(hotkey, true);
+      }
     };
 
     this.handleKeyUp = (e: KeyboardEvent) => {
@@ -115,6 +143,10 @@ export class InputHandler {
       if (mapping) {
         this.onButtonUp?.(mapping.player, mapping.button);
       }
+      const hotkey = this.hotkeyMap.get(e.code);
+      if (hotkey) {
+        this.onHotkey?.(hotkey, false);
+      }
     };
 
     // capture: true 确保在浏览器默认行为之前拦截
@@ -122,6 +154,15 @@ export class InputHandler {
     document.addEventListener('keyup', this.handleKeyUp, { capture: true });
   }
 
+  /** 将键盘输入接到 InputSink（NesCore 或模拟器门面） */
+  attach(sink: InputSink, onHotkey?: HotkeyCallback): void {
+    this.bind(
+      (player, button) => sink.setButton(player, button, true),
+      (player, button) => sink.setButton(player, button, false),
+      onHotkey,
+    );
+  }
+
   /** 解绑键盘事件 */
   unbind(): void {
     if (this.handleKeyDown) {
@@ -134,6 +175,7 @@ export class InputHandler {
     }
     this.onButtonDown = null;
     this.onButtonUp = null;
+    this.onHotkey = null;
   }
 
   /** 更新玩家1按键 */
@@ -1,14 +1,156 @@
 declare module 'jsnes' {
+  /** toJSON() 导出的各部件状态（字段由 jsnes 内部的 JSON_PROPERTIES 决定） */
+  export type ComponentState = Record<string, unknown>;
+
+  /** NES.toJSON() 导出的整机状态 */
+  export interface NESState {
+    romData: string | null;
+    cpu: ComponentState;
+    mmap: ComponentState;
+    ppu: ComponentState;
+  }
+
+  export interface Tile {
+    pix: number[];
+    opaque: boolean[];
+    toJSON(): ComponentState;
+    fromJSON(state: ComponentState): void;
+  }
+
+  export interface CPU {
+    /** 64K 地址空间（0x6000-0x7FFF 为卡带 RAM）；loadROM() 之前为 null */
+    mem: number[];
+    IRQ_NORMAL: number;
+    IRQ_NMI: number;
+    IRQ_RESET: number;
+    REG_ACC: number;
+    REG_X: number;
+    REG_Y: number;
+    /** 栈指针（含 0x100） */
+    REG_SP: number;
+    /** 下一条指令的地址减 1 */
+    REG_PC: number;
+    F_CARRY: number;
+    /** 保存上次运算的结果，为 0 时 Z 标志置位 */
+    F_ZERO: number;
+    F_INTERRUPT: number;
+    F_DECIMAL: number;
+    F_BRK: number;
+    F_NOTUSED: number;
+    F_OVERFLOW: number;
+    F_SIGN: number;
+    irqRequested: boolean;
+    irqType: number;
+    /** DMA 等造成的 CPU 停顿周期 */
+    cyclesToHalt: number;
+    requestIrq(type: number): void;
+    /** 执行一条指令（先处理待处理的中断），返回消耗的 CPU 周期 */
+    emulate(): number;
+  }
+
+  export interface PAPU {
+    reset(): void;
+    clockFrameCounter(cycles: number): void;
+  }
+
+  export interface Mapper {
+    load(address: number): number;
+    write(address: number, value: number): void;
+  }
+
+  export interface NameTable {
+    /** 32x30 的图块编号 */
+    tile: number[];
+    /** 每个图块的调色板偏移（已左移 2 位：0/4/8/12） */
+    attrib: number[];
+  }
+
+  /** 颜色表：emphTable 为 8 种强调下的 64 色，curTable 为当前强调下的一份副本 */
+  export interface PaletteTable {
+    curTable: number[];
+    emphTable: number[][];
+    /** curTable 对应的强调，-1 表示需要重新复制 */
+    currentEmph: number;
+    setEmphasis(emph: number): void;
+  }
+
+  export interface PPU {
+    /** 当前映射到 0x0000-0x1FFF 的 512 个图块（CHR-ROM 游戏中与 ROM 缓存共享引用） */
+    ptTile: Tile[];
+    /** 最近一帧的画面缓冲（颜色表中的值，见 palette.ts） */
+    buffer: number[];
+    bgbuffer: number[];
+    pixrendered: number[];
+    /** 物理名称表（四屏镜像时为 4 个） */
+    nameTable: NameTable[];
+    /** 逻辑名称表 0-3 到物理名称表的映射（镜像） */
+    ntable1: number[];
+    /** OAM：64 个精灵，每个 4 字节（Y、图块、属性、X） */
+    spriteMem: number[];
+    /** 背景/精灵调色板的 16 种颜色 */
+    imgPalette: number[];
+    sprPalette: number[];
+    palTable: PaletteTable;
+    /** $2001 的 bit 5-7：色彩强调 */
+    f_color: number;
+    /** 按调色板 RAM 重新取 imgPalette/sprPalette */
+    updatePalettes(): void;
+    // 卷动寄存器（loopy t）：名称表选择、粗/细卷动
+    regH: number;
+    regV: number;
+    regHT: number;
+    regVT: number;
+    regFH: number;
+    regFV: number;
+    /** 背景/精灵使用的图案表：0 为 0x0000，1 为 0x1000 */
+    f_bgPatternTable: number;
+    f_spPatternTable: number;
+    /** 精灵尺寸：0 为 8x8，1 为 8x16 */
+    f_spriteSize: number;
+    /** 当前扫描线（21 为画面第 0 行） */
+    scanline: number;
+    /** 当前扫描线内的 PPU 周期（0-340） */
+    curX: number;
+    // nes.frame() 内层循环使用的状态
+    spr0HitX: number;
+    spr0HitY: number;
+    f_spVisibility: number;
+    requestEndFrame: boolean;
+    nmiCounter: number;
+    STATUS_SPRITE0HIT: number;
+    setStatusFlag(flag: number, value: boolean): void;
+    startFrame(): void;
+    startVBlank(): void;
+    /** 每条扫描线结束时调用 */
+    endScanline(): void;
+  }
+
   export class NES {
     constructor(opts: {
       onFrame?: (frameBuffer: number[]) => void;
       onAudioSample?: (left: number, right: number) => void;
       onStatusUpdate?: (status: string) => void;
+      /** 音频采样率，默认 48000 */
+      sampleRate?: number;
+      /** 写入 0x6000-0x7FFF 时触发 */
+      onBatteryRamWrite?: (address: number, value: number) => void;
     });
+    opts: { emulateSound: boolean };
+    romData: string | null;
+    fpsFrameCount: number;
+    cpu: CPU;
+    ppu: PPU;
+    papu: PAPU;
+    /** loadROM() 之前为 null */
+    mmap: Mapper | null;
     loadROM(data: string): void;
     frame(): void;
     buttonDown(player: number, button: number): void;
     buttonUp(player: number, button: number): void;
+    /** 导出整机状态（返回的数组与运行中的实例共享引用） */
+    toJSON(): NESState;
+    /** 恢复整机状态（直接接管传入的数组） */
+    fromJSON(state: NESState): void;
     static Controller: {
       BUTTON_A: number;
       BUTTON_B: number;
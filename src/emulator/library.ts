@@ -0,0 +1,86 @@
+/**
+ * 本地 ROM 库
+ * 读取用户拖入或选择的 .nes / .zip 文件，生成对应的游戏条目，
+ * 并可把 ROM 保存到 IndexedDB，显示在「我的 ROM」中
+ */
+
+import type { Game } from '../types';
+import { isINes, romCrc32 } from './rom';
+import { dbDelete, dbGet, dbGetByPrefix, dbPut } from './storage';
+import { extractZipEntry, isZip, listZipEntries } from './zip';
+
+/** 本地 ROM 的游戏 id 前缀 */
+const LOCAL_ID_PREFIX = 'local-';
+
+/** 用户导入的 ROM */
+export interface LocalRom {
+  id: string;
+  /** 文件名（不含扩展名） */
+  name: string;
+  /** PRG+CHR 数据的 CRC32，用于在游戏目录中识别 */
+  crc32: string;
+  data: Uint8Array;
+  addedAt: number;
+}
+
+/**
+ * 读取 .nes 文件，或 zip 中的第一个 .nes 文件
+ * 不是 iNES 格式时抛出错误
+ */
+export async function readRomFile(file: File): Promise<LocalRom> {
+  let name = file.name;
+  let data = new Uint8Array(await file.arrayBuffer());
+  if (isZip(data)) {
+    const entry = listZipEntries(data).find((e) => e.name.toLowerCase().endsWith('.nes'));
+    if (!entry) throw new Error('No .nes file found in the zip archive.');
+    name = entry.name.split('/').pop()!;
+    data = await extractZipEntry(data, entry);
+  }
+  if (!isINes(data)) throw new Error(`${name} is not an iNES ROM.`);
+  const crc32 = romCrc32(data);
+  return {
+    // 按 CRC32 命名，同一游戏再次导入时沿用原来的存档与金手指
+    id: `${LOCAL_ID_PREFIX}${crc32}`,
+    name: name.replace(/\.[^.]+$/, ''),
+    crc32,
+    data,
+    addedAt: Date.now(),
+  };
+}
+
+/** 为本地 ROM 生成游戏条目；与目录中的游戏校验和一致时沿用目录的标题、封面等信息 */
+export function localRomGame(rom: LocalRom, catalog: readonly Game[] = []): Game {
+  const known = catalog.find((game) => game.crc32 === rom.crc32);
+  if (known) return { ...known, id: rom.id, local: true };
+  return {
+    id: rom.id,
+    title: rom.name,
+    titleCn: rom.name,
+    year: 0,
+    genre: 'classic',
+    description: '本地 ROM',
+    players: 1,
+    romFile: rom.name,
+    crc32: rom.crc32,
+    local: true,
+  };
+}
+
+/** 列出「我的 ROM」，最近导入的在前 */
+export async function listLocalRoms(): Promise<LocalRom[]> {
+  const roms = await dbGetByPrefix<LocalRom>('roms', LOCAL_ID_PREFIX);
+  return roms.sort((a, b) => b.addedAt - a.addedAt);
+}
+
+/** 读取一个已保存的本地 ROM，不存在时返回 undefined */
+export function readLocalRom(id: string): Promise<LocalRom | undefined> {
+  return dbGet<LocalRom>('roms', id);
+}
+
+export function saveLocalRom(rom: LocalRom): Promise<void> {
+  return dbPut('roms', rom.id, rom);
+}
+
+export function deleteLocalRom(id: string): Promise<void> {
+  return dbDelete('roms', id);
+}
@@ -0,0 +1,65 @@
+/**
+ * 内存查看模块
+ * 从 CPU 地址空间中取出 2KB 内部 RAM 与卡带 RAM 供查看，
+ * 并按格式读写观察地址（如血量、剩余人数），观察列表按游戏存入 IndexedDB
+ */
+
+import { SRAM_SIZE, SRAM_START } from './sram';
+import { dbGet, dbPut } from './storage';
+import type { MemoryWatch, WatchFormat } from '../types';
+
+/** 内部 RAM 大小（0x0800-0x1FFF 为其镜像） */
+export const RAM_SIZE = 0x800;
+
+/** 某一时刻的内部 RAM 与卡带 RAM */
+export interface MemorySnapshot {
+  ram: Uint8Array<ArrayBuffer>;
+  sram: Uint8Array<ArrayBuffer>;
+}
+
+/** 可查看/写入的地址：内部 RAM（含镜像）与卡带 RAM */
+export function isRamAddress(address: number): boolean {
+  return (address >= 0 && address < 0x2000) || (address >= SRAM_START && address < SRAM_START + SRAM_SIZE);
+}
+
+/** 读取快照中某个地址的字节，不在 RAM 范围内时返回 0 */
+export function peek(snapshot: MemorySnapshot, address: number): number {
+  if (address < 0x2000) return snapshot.ram[address & (RAM_SIZE - 1)];
+  if (address >= SRAM_START && address < SRAM_START + SRAM_SIZE) return snapshot.sram[address - SRAM_START];
+  return 0;
+}
+
+/** 各格式占用的字节数（16 位值按小端序存放） */
+export function watchSize(format: WatchFormat): number {
+  return format === 'u16' || format === 's16' ? 2 : 1;
+}
+
+/** 按观察格式读取数值 */
+export function readWatch(snapshot: MemorySnapshot, watch: MemoryWatch): number {
+  const lo = peek(snapshot, watch.address);
+  switch (watch.format) {
+    case 'u8':
+      return lo;
+    case 's8':
+      return (lo << 24) >> 24;
+    case 'u16':
+      return lo | (peek(snapshot, watch.address + 1) << 8);
+    case 's16':
+      return ((lo | (peek(snapshot, watch.address + 1) << 8)) << 16) >> 16;
+  }
+}
+
+/** 将数值按观察格式编码为要写入的字节（超出范围时截断） */
+export function encodeWatch(format: WatchFormat, value: number): number[] {
+  return watchSize(format) === 2 ? [value & 0xff, (value >> 8) & 0xff] : [value & 0xff];
+}
+
+/** 读取某个游戏保存的观察列表 */
+export async function readWatches(gameId: string): Promise<MemoryWatch[]> {
+  return (await dbGet<MemoryWatch[]>('watches', gameId)) ?? [];
+}
+
+/** 保存某个游戏的观察列表 */
+export function writeWatches(gameId: string, watches: MemoryWatch[]): Promise<void> {
+  return dbPut('watches', gameId, watches);
+}
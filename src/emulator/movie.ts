@@ -0,0 +1,168 @@
+/**
+ * 输入录像模块
+ * 录像以"起点 + 每帧输入"的形式保存，回放时按帧注入输入即可确定性地重现；
+ * 支持与 FCEUX 的 .fm2 文本格式互相转换
+ */
+
+import type { NesSnapshot } from './savestate';
+
+/** 帧命令：软复位 / 重新上电（与 FM2 的 commands 字段一致） */
+export const MOVIE_CMD_RESET = 0x01;
+export const MOVIE_CMD_POWER = 0x02;
+
+/** 录像起点：上电，或某个即时存档 */
+export type MovieStart = { type: 'power' } | { type: 'snapshot'; snapshot: NesSnapshot };
+
+export interface Movie {
+  start: MovieStart;
+  /**
+   * 每帧的输入，按位打包：
+   * bit 0-7 为玩家 1 的按键、bit 8-15 为玩家 2 的按键（位序同 jsnes 按钮编号），bit 16-23 为帧命令
+   */
+  inputs: number[];
+  /** 重录次数 */
+  rerecordCount: number;
+  romFilename: string;
+  guid: string;
+  comments: string[];
+}
+
+/** 打包一帧的输入 */
+export function packInput(pad1: number, pad2: number, commands = 0): number {
+  return (pad1 & 0xff) | ((pad2 & 0xff) << 8) | ((commands & 0xff) << 16);
+}
+
+/** 取出某个玩家（1 或 2）的按键位 */
+export function inputPad(input: number, player: number): number {
+  return (input >> ((player - 1) * 8)) & 0xff;
+}
+
+export function inputCommands(input: number): number {
+  return (input >> 16) & 0xff;
+}
+
+export function createMovie(start: MovieStart, romFilename: string): Movie {
+  return {
+    start,
+    inputs: [],
+    rerecordCount: 0,
+    romFilename,
+    guid: crypto.randomUUID().toUpperCase(),
+    comments: [],
+  };
+}
+
+/* ---------- FM2 ---------- */
+
+/** FM2 中每个手柄字段的按键顺序：右 左 下 上 开始 选择 B A，对应的 jsnes 按钮编号 */
+const FM2_BUTTONS = 'RLDUTSBA';
+const FM2_BUTTON_IDS = [7, 6, 5, 4, 3, 2, 1, 0];
+
+function parsePad(field: string): number {
+  let pad = 0;
+  for (let i = 0; i < FM2_BUTTONS.length; i++) {
+    const c = field[i];
+    if (c !== undefined && c !== '.' && c !== ' ') {
+      pad |= 1 << FM2_BUTTON_IDS[i];
+    }
+  }
+  return pad;
+}
+
+function formatPad(pad: number): string {
+  let field = '';
+  for (let i = 0; i < FM2_BUTTONS.length; i++) {
+    field += pad & (1 << FM2_BUTTON_IDS[i]) ? FM2_BUTTONS[i] : '.';
+  }
+  return field;
+}
+
+/**
+ * 解析 FCEUX 的 .fm2 文本录像
+ * 仅支持从上电开始、NTSC、标准手柄的录像；格式不符时抛出错误
+ */
+export function parseFm2(text: string): Movie {
+  const header = new Map<string, string>();
+  const comments: string[] = [];
+  const inputs: number[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trimEnd();
+    if (!line) continue;
+    if (line.startsWith('|')) {
+      // |commands|port0|port1|port2|
+      const fields = line.split('|');
+      const commands = Number(fields[1]) || 0;
+      inputs.push(packInput(parsePad(fields[2] ?? ''), parsePad(fields[3] ?? ''), commands));
+      continue;
+    }
+    const space = line.indexOf(' ');
+    const key = space < 0 ? line : line.slice(0, space);
+    const value = space < 0 ? '' : line.slice(space + 1);
+    if (key === 'comment') {
+      comments.push(value);
+    } else {
+      header.set(key, value);
+    }
+  }
+
+  if (header.get('version') !== '3') {
+    throw new Error('Not an FM2 movie (expected "version 3").');
+  }
+  if (header.get('binary') === '1') {
+    throw new Error('Binary FM2 movies are not supported.');
+  }
+  if (header.get('palFlag') === '1') {
+    throw new Error('PAL movies are not supported.');
+  }
+  if (header.get('fourscore') === '1' || header.get('FDS') === '1') {
+    throw new Error('Four Score and FDS movies are not supported.');
+  }
+  // 端口类型：0 为空、1 为标准手柄（2 为光枪）
+  const isGamepadPort = (value: string | undefined) => value === undefined || value === '0' || value === '1';
+  if (!isGamepadPort(header.get('port0')) || !isGamepadPort(header.get('port1'))) {
+    throw new Error('Only standard gamepads are supported.');
+  }
+  if (header.has('savestate')) {
+    throw new Error('Movies that start from an FCEUX savestate are not supported.');
+  }
+
+  return {
+    start: { type: 'power' },
+    inputs,
+    rerecordCount: Number(header.get('rerecordCount')) || 0,
+    romFilename: header.get('romFilename') ?? '',
+    guid: header.get('guid') ?? crypto.randomUUID().toUpperCase(),
+    comments,
+  };
+}
+
+/**
+ * 导出为 .fm2 文本
+ * FM2 无法携带本模拟器的即时存档，从存档开始的录像会抛出错误
+ */
+export function serializeFm2(movie: Movie): string {
+  if (movie.start.type !== 'power') {
+    throw new Error('Only movies recorded from power-on can be exported to FM2.');
+  }
+  const lines = [
+    'version 3',
+    'emuVersion 22020',
+    `rerecordCount ${movie.rerecordCount}`,
+    'palFlag 0',
+    `romFilename ${movie.romFilename}`,
+    `guid ${movie.guid}`,
+    'fourscore 0',
+    'microphone 0',
+    'port0 1',
+    'port1 1',
+    'port2 0',
+    'FDS 0',
+    'NewPPU 0',
+    ...movie.comments.map((c) => `comment ${c}`),
+  ];
+  for (const input of movie.inputs) {
+    lines.push(`|${inputCommands(input)}|${formatPad(inputPad(input, 1))}|${formatPad(inputPad(input, 2))}||`);
+  }
+  return lines.join('\n') + '\n';
+}
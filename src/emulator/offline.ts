@@ -0,0 +1,79 @@
+/**
+ * 离线缓存
+ * 注册 service worker（见 src/sw.ts），并把游戏的 ROM 与封面写入 Cache Storage；
+ * 缓存过的游戏无需网络即可启动。另提供按游戏删除与存储用量查询
+ */
+
+import type { Game } from '../types';
+
+/** 存放 ROM 与封面的缓存（service worker 会在所有缓存中查找） */
+const GAMES_CACHE = 'nes-arcade-games';
+const ROMS_PATH = '/roms/';
+
+/** 离线缓存状态 */
+export interface OfflineStatus {
+  /** 已缓存游戏的 ROM 文件名 → 占用字节数（含封面） */
+  games: Map<string, number>;
+  /** 浏览器为本站使用与允许的存储空间（字节），不支持查询时为 null */
+  usage: number | null;
+  quota: number | null;
+}
+
+/** 仅在 https 或 localhost 下可用 */
+export function isOfflineSupported(): boolean {
+  return 'caches' in window && 'serviceWorker' in navigator;
+}
+
+/** 生产环境注册 service worker（开发服务器不生成 /sw.js） */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !isOfflineSupported()) return;
+  navigator.serviceWorker.register('/sw.js')
+    .catch((err) => console.error('Service worker registration failed:', err));
+}
+
+const romUrl = (game: Game) => `${ROMS_PATH}${game.romFile}`;
+
+/** 已缓存 ROM 的文件名 */
+export async function listOfflineRoms(): Promise<Set<string>> {
+  if (!isOfflineSupported()) return new Set();
+  const cache = await caches.open(GAMES_CACHE);
+  const files = (await cache.keys())
+    .map((request) => new URL(request.url).pathname)
+    .filter((path) => path.startsWith(ROMS_PATH))
+    .map((path) => decodeURIComponent(path.slice(ROMS_PATH.length)));
+  return new Set(files);
+}
+
+/** 缓存游戏的 ROM 与封面；rom 为已经下载好的数据，省略时重新下载 */
+export async function cacheGame(game: Game, rom?: Uint8Array): Promise<void> {
+  const cache = await caches.open(GAMES_CACHE);
+  const tasks = [
+    rom
+      ? cache.put(romUrl(game), new Response(rom.slice(), { headers: { 'Content-Type': 'application/octet-stream' } }))
+      : cache.add(romUrl(game)),
+  ];
+  // 封面缺失不影响离线游玩
+  if (game.thumbnail) tasks.push(cache.add(game.thumbnail).catch(() => undefined));
+  await Promise.all(tasks);
+}
+
+/** 从离线缓存中删除游戏的 ROM 与封面 */
+export async function uncacheGame(game: Game): Promise<void> {
+  const cache = await caches.open(GAMES_CACHE);
+  await Promise.all([cache.delete(romUrl(game)), game.thumbnail ? cache.delete(game.thumbnail) : null]);
+}
+
+/** 统计每个已缓存游戏占用的空间与整体存储用量 */
+export async function getOfflineStatus(catalog: readonly Game[]): Promise<OfflineStatus> {
+  const games = new Map<string, number>();
+  if (!isOfflineSupported()) return { games, usage: null, quota: null };
+  const cache = await caches.open(GAMES_CACHE);
+  const sizeOf = async (url: string) => (await (await cache.match(url))?.blob())?.size ?? 0;
+  for (const game of catalog) {
+    const rom = await sizeOf(romUrl(game));
+    if (rom === 0) continue;
+    games.set(game.romFile, rom + (game.thumbnail ? await sizeOf(game.thumbnail) : 0));
+  }
+  const estimate = await navigator.storage?.estimate?.();
+  return { games, usage: estimate?.usage ?? null, quota: estimate?.quota ?? null };
+}
@@ -0,0 +1,253 @@
+/**
+ * 调色板
+ * NES 输出的是 64 种颜色的编号（外加 3 位色彩强调），换算成 RGB 的方式因模拟器与电视而异。
+ * 这里提供几套内置调色板，并支持导入通用的 .pal 文件（64 色 192 字节，或含强调的 512 色 1536 字节）
+ */
+
+import type { NES } from 'jsnes';
+import { dbDelete, dbGet, dbPut } from './storage';
+
+/** 完整调色板的字节数：8 种强调 x 64 色 x RGB */
+export const PALETTE_SIZE = 8 * 64 * 3;
+/** 不含强调的调色板字节数 */
+const BASE_PALETTE_SIZE = 64 * 3;
+
+/** 强调位对另外两个分量的衰减系数 */
+const EMPHASIS_ATTENUATION = 0.75;
+
+export type BuiltinPaletteId = 'jsnes' | 'fceux' | 'nestopia-yuv' | 'pal' | 'composite';
+
+/** 选用的调色板：内置调色板，或导入的 .pal 文件 */
+export type PaletteChoice =
+  | { id: BuiltinPaletteId }
+  | { id: 'custom'; name: string; colors: Uint8Array };
+
+export const DEFAULT_PALETTE: PaletteChoice = { id: 'jsnes' };
+
+// 64 色调色板，每行 16 色，按 0xRRGGBB 书写
+
+// prettier-ignore
+const JSNES_COLORS = [
+  0x525252, 0x0000B4, 0x0000A0, 0x3D00B1, 0x690074, 0x5B0000, 0x5F0000, 0x401800,
+  0x102F00, 0x084A08, 0x006700, 0x004212, 0x00286D, 0x000000, 0x000000, 0x000000,
+  0xE7D5C4, 0x0040FF, 0x220EDC, 0x6B47FF, 0x9F00D7, 0xD70A68, 0xBC1900, 0xB15400,
+  0x5B6A00, 0x038C00, 0x00AB00, 0x00882C, 0x0072A4, 0x000000, 0x000000, 0x000000,
+  0xF8F8F8, 0x3CABFF, 0x8179FF, 0xC55BFF, 0xF248FF, 0xFF49DF, 0xFF6D47, 0xF7B400,
+  0xFFE000, 0x75E300, 0x2BF403, 0x2EB878, 0x18E2E5, 0x787878, 0x000000, 0x000000,
+  0xFFFFFF, 0xBEF2FF, 0xB8B8F8, 0xD8B8F8, 0xFFB6FF, 0xFFC3FF, 0xFFD1C7, 0xFFDA9A,
+  0xF8ED88, 0xDDFF83, 0xB8F8B8, 0xACF8F5, 0xB0FFFF, 0xF8D8F8, 0x000000, 0x000000,
+];
+
+// prettier-ignore
+const FCEUX_COLORS = [
+  0x747474, 0x24188C, 0x0000A8, 0x44009C, 0x8C0074, 0xA80010, 0xA40000, 0x7C0800,
+  0x402C00, 0x004400, 0x005000, 0x003C14, 0x183C5C, 0x000000, 0x000000, 0x000000,
+  0xBCBCBC, 0x0070EC, 0x2038EC, 0x8000F0, 0xBC00BC, 0xE40058, 0xD82800, 0xC84C0C,
+  0x887000, 0x009400, 0x00A800, 0x009038, 0x008088, 0x000000, 0x000000, 0x000000,
+  0xFCFCFC, 0x3CBCFC, 0x5C94FC, 0xCC88FC, 0xF478FC, 0xFC74B4, 0xFC7460, 0xFC9838,
+  0xF0BC3C, 0x80D010, 0x4CDC48, 0x58F898, 0x00E8D8, 0x787878, 0x000000, 0x000000,
+  0xFCFCFC, 0xA8E4FC, 0xC4D4FC, 0xD4C8FC, 0xFCC4FC, 0xFCC4D8, 0xFCBCB0, 0xFCD8A8,
+  0xFCE4A0, 0xE0FCA0, 0xA8F0BC, 0xB0FCCC, 0x9CFCF0, 0xC4C4C4, 0x000000, 0x000000,
+];
+
+// prettier-ignore
+const NESTOPIA_YUV_COLORS = [
+  0x666666, 0x002A88, 0x1412A7, 0x3B00A4, 0x5C007E, 0x6E0040, 0x6C0700, 0x561D00,
+  0x333500, 0x0C4800, 0x005200, 0x004F08, 0x00404D, 0x000000, 0x000000, 0x000000,
+  0xADADAD, 0x155FD9, 0x4240FF, 0x7527FE, 0xA01ACC, 0xB71E7B, 0xB53120, 0x994E00,
+  0x6B6D00, 0x388700, 0x0D9300, 0x008F32, 0x007C8D, 0x000000, 0x000000, 0x000000,
+  0xFFFFFF, 0x64B0FF, 0x9290FF, 0xC676FF, 0xF26AFF, 0xFF6ECC, 0xFF8170, 0xEA9E22,
+  0xBCBE00, 0x88D800, 0x5CE430, 0x45E082, 0x48CDDE, 0x4F4F4F, 0x000000, 0x000000,
+  0xFFFFFF, 0xC0DFFF, 0xD3D2FF, 0xE8C8FF, 0xFAC2FF, 0xFFC4EA, 0xFFCCC5, 0xF7D8A5,
+  0xE4E594, 0xCFEF96, 0xBDF4AB, 0xB3F3CC, 0xB5EBF2, 0xB8B8B8, 0x000000, 0x000000,
+];
+
+/** 由合成视频信号推算调色板的参数 */
+interface SignalOptions {
+  /** 色相偏移（单位为 1/12 周期） */
+  hue: number;
+  saturation: number;
+  /** 显示器 gamma；与 2.2 的比值决定亮度曲线 */
+  gamma: number;
+}
+
+// 信号电压（相对同步电平），依次为 4 个亮度级的低电平与高电平
+const SIGNAL_LOW = [0.35, 0.518, 0.962, 1.55];
+const SIGNAL_HIGH = [1.094, 1.506, 1.962, 1.962];
+const SIGNAL_BLACK = 0.518;
+const SIGNAL_WHITE = 1.962;
+const SIGNAL_ATTENUATION = 0.746;
+
+/** 色号 color 的方波在相位 phase 处是否为高电平 */
+const inColorPhase = (color: number, phase: number) => (color + phase + 8) % 12 < 6;
+
+/**
+ * 模拟 PPU 的合成视频输出并按 YIQ 解码（参考 Bisqwit 的 NTSC 调色板推算方法）
+ * 强调位直接在信号上衰减，得到完整的 512 色
+ */
+function generateFromSignal({ hue, saturation, gamma }: SignalOptions): Uint8Array {
+  const out = new Uint8Array(PALETTE_SIZE);
+  const gammaFix = (v: number) => (v <= 0 ? 0 : Math.min(255, Math.round(255 * v ** (2.2 / gamma))));
+  for (let emphasis = 0; emphasis < 8; emphasis++) {
+    for (let index = 0; index < 64; index++) {
+      const color = index & 15;
+      // 0xE、0xF 列为黑色
+      const level = color > 13 ? 1 : index >> 4;
+      const low = color === 0 ? SIGNAL_HIGH[level] : SIGNAL_LOW[level];
+      const high = color < 13 ? SIGNAL_HIGH[level] : SIGNAL_LOW[level];
+      let y = 0;
+      let i = 0;
+      let q = 0;
+      for (let phase = 0; phase < 12; phase++) {
+        let spot = inColorPhase(color, phase) ? high : low;
+        if (((emphasis & 1) && inColorPhase(12, phase))
+          || ((emphasis & 2) && inColorPhase(4, phase))
+          || ((emphasis & 4) && inColorPhase(8, phase))) {
+          spot *= SIGNAL_ATTENUATION;
+        }
+        const v = (spot - SIGNAL_BLACK) / (SIGNAL_WHITE - SIGNAL_BLACK) / 12;
+        y += v;
+        i += v * Math.cos((Math.PI / 6) * (phase + hue));
+        q += v * Math.sin((Math.PI / 6) * (phase + hue));
+      }
+      // 同步解调的幅度只有一半
+      i *= 2 * saturation;
+      q *= 2 * saturation;
+      const o = (emphasis * 64 + index) * 3;
+      out[o] = gammaFix(y + 0.946882 * i + 0.623557 * q);
+      out[o + 1] = gammaFix(y - 0.274788 * i - 0.635691 * q);
+      out[o + 2] = gammaFix(y - 1.108545 * i + 1.709007 * q);
+    }
+  }
+  return out;
+}
+
+/** 64 色表转为 192 字节的 RGB 数据 */
+function fromColors(colors: number[]): Uint8Array {
+  const out = new Uint8Array(BASE_PALETTE_SIZE);
+  colors.forEach((color, i) => {
+    out[i * 3] = (color >> 16) & 0xff;
+    out[i * 3 + 1] = (color >> 8) & 0xff;
+    out[i * 3 + 2] = color & 0xff;
+  });
+  return out;
+}
+
+/**
+ * 为 64 色调色板补出 7 种强调：每个强调位衰减另外两个分量
+ * （bit 0 强调红、bit 1 强调绿、bit 2 强调蓝，与 $2001 的 bit 5-7 对应）
+ */
+function expandEmphasis(base: Uint8Array): Uint8Array {
+  const out = new Uint8Array(PALETTE_SIZE);
+  for (let emphasis = 0; emphasis < 8; emphasis++) {
+    const factors = [0, 1, 2].map((channel) => {
+      let factor = 1;
+      for (let bit = 0; bit < 3; bit++) {
+        if ((emphasis & (1 << bit)) && bit !== channel) factor *= EMPHASIS_ATTENUATION;
+      }
+      return factor;
+    });
+    for (let i = 0; i < BASE_PALETTE_SIZE; i++) {
+      out[emphasis * BASE_PALETTE_SIZE + i] = Math.floor(base[i] * factors[i % 3]);
+    }
+  }
+  return out;
+}
+
+interface BuiltinPalette {
+  id: BuiltinPaletteId;
+  name: string;
+  create(): Uint8Array;
+}
+
+export const BUILTIN_PALETTES: readonly BuiltinPalette[] = [
+  { id: 'jsnes', name: 'jsnes', create: () => expandEmphasis(fromColors(JSNES_COLORS)) },
+  { id: 'fceux', name: 'FCEUX', create: () => expandEmphasis(fromColors(FCEUX_COLORS)) },
+  { id: 'nestopia-yuv', name: 'Nestopia YUV', create: () => expandEmphasis(fromColors(NESTOPIA_YUV_COLORS)) },
+  // PAL 电视：相位交替抵消了一部分色相误差，整体偏暖、饱和度略低
+  { id: 'pal', name: 'PAL', create: () => generateFromSignal({ hue: -0.5, saturation: 0.9, gamma: 1.8 }) },
+  // 直接解码 NTSC 合成信号，不做亮度补偿
+  { id: 'composite', name: 'Composite Direct', create: () => generateFromSignal({ hue: 0, saturation: 1, gamma: 2.2 }) },
+];
+
+/** 已生成的内置调色板 */
+const builtinCache = new Map<BuiltinPaletteId, Uint8Array>();
+
+/** 取得调色板的 1536 字节 RGB 数据（下标为 强调 * 64 + 色号） */
+export function paletteColors(choice: PaletteChoice): Uint8Array {
+  if (choice.id === 'custom') return choice.colors;
+  let colors = builtinCache.get(choice.id);
+  if (!colors) {
+    const palette = BUILTIN_PALETTES.find((p) => p.id === choice.id) ?? BUILTIN_PALETTES[0];
+    colors = palette.create();
+    builtinCache.set(choice.id, colors);
+  }
+  return colors;
+}
+
+/** 调色板的显示名称 */
+export function paletteName(choice: PaletteChoice): string {
+  if (choice.id === 'custom') return choice.name;
+  return BUILTIN_PALETTES.find((p) => p.id === choice.id)?.name ?? choice.id;
+}
+
+/** 解析 .pal 文件，返回 1536 字节的调色板；大小不符时抛出错误 */
+export function parsePalFile(data: Uint8Array): Uint8Array {
+  if (data.length === PALETTE_SIZE) return data.slice();
+  if (data.length === BASE_PALETTE_SIZE) return expandEmphasis(data);
+  throw new Error(`Palette file is ${data.length} bytes, expected ${BASE_PALETTE_SIZE} or ${PALETTE_SIZE} bytes.`);
+}
+
+/* ---------- 画面换算 ---------- */
+
+/** 调色板编号的标记位：区分编号与 jsnes 自己的 0xBBGGRR 颜色 */
+const INDEX_FLAG = 0x1000000;
+
+/**
+ * 把 jsnes 的颜色表换成编号（强调 * 64 + 色号），画面缓冲中就只有编号，呈现时再查调色板
+ * jsnes 每次复位都会重建颜色表，加载 ROM 后需重新调用
+ */
+export function installPaletteIndices(nes: NES): void {
+  const ppu = nes.ppu;
+  const table = ppu.palTable;
+  table.emphTable = Array.from({ length: 8 }, (_, emphasis) =>
+    Array.from({ length: 64 }, (_, index) => INDEX_FLAG | (emphasis << 6) | index));
+  table.currentEmph = -1;
+  table.setEmphasis(ppu.f_color);
+  ppu.updatePalettes();
+}
+
+/**
+ * 画面缓冲中的一个值换算为 0xRRGGBB
+ * 单色模式的背景色与旧版本存档中的画面仍是 jsnes 的 0xBBGGRR 颜色
+ */
+export function colorToRgb(color: number, palette: Uint8Array): number {
+  if (color & INDEX_FLAG) {
+    const i = (color & 0x1ff) * 3;
+    return (palette[i] << 16) | (palette[i + 1] << 8) | palette[i + 2];
+  }
+  return ((color & 0xff) << 16) | (color & 0xff00) | ((color >> 16) & 0xff);
+}
+
+/* ---------- 持久化 ---------- */
+
+/** 全局调色板在 palettes store 中的键（其余键为游戏 id） */
+const GLOBAL_KEY = '*';
+
+export function readGlobalPalette(): Promise<PaletteChoice | undefined> {
+  return dbGet<PaletteChoice>('palettes', GLOBAL_KEY);
+}
+
+export function writeGlobalPalette(choice: PaletteChoice): Promise<void> {
+  return dbPut('palettes', GLOBAL_KEY, choice);
+}
+
+/** 游戏单独设置的调色板，没有设置时为 undefined */
+export function readGamePalette(gameId: string): Promise<PaletteChoice | undefined> {
+  return dbGet<PaletteChoice>('palettes', gameId);
+}
+
+/** 设置或清除（choice 为 null）游戏单独的调色板 */
+export function writeGamePalette(gameId: string, choice: PaletteChoice | null): Promise<void> {
+  return choice ? dbPut('palettes', gameId, choice) : dbDelete('palettes', gameId);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, detectPatchFormat } from './patch';
+
+const ascii = (text: string) => [...text].map((c) => c.charCodeAt(0));
+
+/** 拼出 IPS 补丁：records 为 (偏移, 数据) 或 (偏移, 次数, 值) 的填充，truncate 为截断长度 */
+function ips(records: ([number, number[]] | [number, number, number])[], truncate?: number): Uint8Array {
+  const bytes = ascii('PATCH');
+  const u24 = (n: number) => [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+  const u16 = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+  for (const record of records) {
+    if (record.length === 2) {
+      bytes.push(...u24(record[0]), ...u16(record[1].length), ...record[1]);
+    } else {
+      bytes.push(...u24(record[0]), 0, 0, ...u16(record[1]), record[2]);
+    }
+  }
+  bytes.push(...ascii('EOF'));
+  if (truncate !== undefined) bytes.push(...u24(truncate));
+  return Uint8Array.from(bytes);
+}
+
+const rom = Uint8Array.from({ length: 16 }, (_, i) => i);
+
+describe('IPS patches', () => {
+  it('writes records and RLE fills', () => {
+    const patch = ips([[2, [0xaa, 0xbb]], [8, 3, 0xcc]]);
+    expect(detectPatchFormat(patch)).toBe('ips');
+    const out = applyPatch(rom, patch);
+    expect(out.length).toBe(16);
+    expect([...out.subarray(0, 11)]).toEqual([0, 1, 0xaa, 0xbb, 4, 5, 6, 7, 0xcc, 0xcc, 0xcc]);
+  });
+
+  it('grows the ROM when a record writes past its end', () => {
+    const out = applyPatch(rom, ips([[16, [0xee, 0xff]]]));
+    expect(out.length).toBe(18);
+    expect([...out.subarray(14)]).toEqual([14, 15, 0xee, 0xff]);
+  });
+
+  it('truncates below a record offset without failing', () => {
+    const patch = ips([[2, [0xaa]], [10, [0xbb, 0xbb]], [12, 4, 0xcc], [5, [0x11, 0x22, 0x33, 0x44]]], 6);
+    const out = applyPatch(rom, patch);
+    expect([...out]).toEqual([0, 1, 0xaa, 3, 4, 0x11]);
+  });
+
+  it('rejects truncated patches', () => {
+    expect(() => applyPatch(rom, ips([[2, [0xaa]]]).subarray(0, 8))).toThrow('IPS patch is truncated.');
+  });
+});
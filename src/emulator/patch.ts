@@ -0,0 +1,195 @@
+/**
+ * ROM 补丁
+ * 在载入前对 ROM 数据应用 IPS / BPS / UPS 补丁（汉化、修改版等）；
+ * BPS 与 UPS 自带原 ROM、目标 ROM 与补丁本身的 CRC32，应用前后都会校验
+ */
+
+import { crc32, crc32Value } from './hash';
+
+export type PatchFormat = 'ips' | 'bps' | 'ups';
+
+const ascii = (data: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...data.subarray(start, start + length));
+
+/** 根据文件头识别补丁格式，无法识别时返回 null */
+export function detectPatchFormat(patch: Uint8Array): PatchFormat | null {
+  if (ascii(patch, 0, 5) === 'PATCH') return 'ips';
+  if (ascii(patch, 0, 4) === 'BPS1') return 'bps';
+  if (ascii(patch, 0, 4) === 'UPS1') return 'ups';
+  return null;
+}
+
+/** 补丁的标识：用于区分打过不同补丁的游戏的存档 */
+export function patchId(patch: Uint8Array): string {
+  return crc32(patch);
+}
+
+/** 对 ROM 应用补丁，返回新的 ROM 数据；格式无法识别或校验失败时抛出错误 */
+export function applyPatch(rom: Uint8Array, patch: Uint8Array): Uint8Array<ArrayBuffer> {
+  switch (detectPatchFormat(patch)) {
+    case 'ips':
+      return applyIps(rom, patch);
+    case 'bps':
+      return applyBps(rom, patch);
+    case 'ups':
+      return applyUps(rom, patch);
+    default:
+      throw new Error('Unrecognized patch format (expected IPS, BPS or UPS).');
+  }
+}
+
+/* ---------- IPS ---------- */
+
+/**
+ * IPS：若干条 (3 字节偏移, 2 字节长度, 数据) 记录，长度为 0 时为 (2 字节次数, 1 字节值) 的填充；
+ * 以 "EOF" 结尾，之后可选 3 字节的截断长度
+ */
+function applyIps(rom: Uint8Array, patch: Uint8Array): Uint8Array<ArrayBuffer> {
+  const records: { offset: number; data: Uint8Array | null; count: number; value: number }[] = [];
+  let size = rom.length;
+  let pos = 5;
+  const u16 = (at: number) => (patch[at] << 8) | patch[at + 1];
+  const u24 = (at: number) => (patch[at] << 16) | u16(at + 1);
+
+  for (;;) {
+    if (pos + 3 > patch.length) throw new Error('IPS patch is truncated.');
+    if (ascii(patch, pos, 3) === 'EOF') break;
+    if (pos + 5 > patch.length) throw new Error('IPS patch is truncated.');
+    const offset = u24(pos);
+    const length = u16(pos + 3);
+    pos += 5;
+    if (length > 0) {
+      if (pos + length > patch.length) throw new Error('IPS patch is truncated.');
+      records.push({ offset, data: patch.subarray(pos, pos + length), count: length, value: 0 });
+      pos += length;
+    } else {
+      if (pos + 3 > patch.length) throw new Error('IPS patch is truncated.');
+      records.push({ offset, data: null, count: u16(pos), value: patch[pos + 2] });
+      pos += 3;
+    }
+    size = Math.max(size, offset + records[records.length - 1].count);
+  }
+  // "EOF" 之后的截断长度
+  if (pos + 6 <= patch.length) size = u24(pos + 3);
+
+  const out = new Uint8Array(size);
+  out.set(rom.subarray(0, size));
+  for (const record of records) {
+    // 截断长度可能小于记录的偏移，这样的记录整条落在截断之后
+    if (record.offset >= size) continue;
+    if (record.data) {
+      out.set(record.data.subarray(0, Math.max(0, size - record.offset)), record.offset);
+    } else {
+      out.fill(record.value, record.offset, Math.min(size, record.offset + record.count));
+    }
+  }
+  return out;
+}
+
+/* ---------- BPS / UPS ---------- */
+
+/** BPS / UPS 共用的变长整数读取器 */
+class PatchReader {
+  pos: number;
+
+  constructor(private data: Uint8Array, start: number) {
+    this.pos = start;
+  }
+
+  byte(): number {
+    if (this.pos >= this.data.length) throw new Error('Patch is truncated.');
+    return this.data[this.pos++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let shift = 1;
+    for (;;) {
+      const x = this.byte();
+      value += (x & 0x7f) * shift;
+      if (x & 0x80) return value;
+      shift *= 128;
+      value += shift;
+    }
+  }
+}
+
+/** 读取补丁末尾的三个 CRC32，并校验补丁本身与原 ROM */
+function checkFooter(rom: Uint8Array, patch: Uint8Array): { target: number; end: number } {
+  if (patch.length < 16) throw new Error('Patch is truncated.');
+  const view = new DataView(patch.buffer, patch.byteOffset, patch.byteLength);
+  const end = patch.length - 12;
+  const source = view.getUint32(end, true);
+  const target = view.getUint32(end + 4, true);
+  if (view.getUint32(end + 8, true) !== crc32Value(patch.subarray(0, end + 8))) {
+    throw new Error('Patch file is corrupted (patch CRC32 mismatch).');
+  }
+  if (crc32Value(rom) !== source) {
+    throw new Error('This patch is for a different ROM (source CRC32 mismatch).');
+  }
+  return { target, end };
+}
+
+function checkTarget(out: Uint8Array, expected: number): void {
+  if (crc32Value(out) !== expected) throw new Error('Patched ROM does not match (target CRC32 mismatch).');
+}
+
+/** BPS：按 SourceRead / TargetRead / SourceCopy / TargetCopy 四种指令拼出目标 ROM */
+function applyBps(rom: Uint8Array, patch: Uint8Array): Uint8Array<ArrayBuffer> {
+  const { target, end } = checkFooter(rom, patch);
+  const reader = new PatchReader(patch, 4);
+  reader.varint(); // 原 ROM 大小，已由 CRC 校验
+  const out = new Uint8Array(reader.varint());
+  const metadataSize = reader.varint();
+  reader.pos += metadataSize; // 跳过元数据
+
+  let outPos = 0;
+  let sourceRelative = 0;
+  let targetRelative = 0;
+  const signed = (value: number) => (value & 1 ? -1 : 1) * Math.floor(value / 2);
+  while (reader.pos < end) {
+    const data = reader.varint();
+    const length = Math.floor(data / 4) + 1;
+    if (outPos + length > out.length) throw new Error('BPS patch writes past the end of the ROM.');
+    switch (data & 3) {
+      case 0: // SourceRead
+        for (let i = 0; i < length; i++, outPos++) out[outPos] = rom[outPos];
+        break;
+      case 1: // TargetRead
+        for (let i = 0; i < length; i++) out[outPos++] = reader.byte();
+        break;
+      case 2: // SourceCopy
+        sourceRelative += signed(reader.varint());
+        for (let i = 0; i < length; i++) out[outPos++] = rom[sourceRelative++];
+        break;
+      case 3: // TargetCopy（可与正在写入的区域重叠，需逐字节复制）
+        targetRelative += signed(reader.varint());
+        for (let i = 0; i < length; i++) out[outPos++] = out[targetRelative++];
+        break;
+    }
+  }
+  checkTarget(out, target);
+  return out;
+}
+
+/** UPS：跳过若干字节后与原 ROM 逐字节异或，0 结束一段 */
+function applyUps(rom: Uint8Array, patch: Uint8Array): Uint8Array<ArrayBuffer> {
+  const { target, end } = checkFooter(rom, patch);
+  const reader = new PatchReader(patch, 4);
+  reader.varint(); // 原 ROM 大小，已由 CRC 校验
+  const out = new Uint8Array(reader.varint());
+  out.set(rom.subarray(0, out.length));
+
+  let outPos = 0;
+  while (reader.pos < end) {
+    outPos += reader.varint();
+    for (;;) {
+      const x = reader.byte();
+      if (outPos < out.length) out[outPos] = (rom[outPos] ?? 0) ^ x;
+      outPos++;
+      if (x === 0) break;
+    }
+  }
+  checkTarget(out, target);
+  return out;
+}
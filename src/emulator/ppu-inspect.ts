@@ -0,0 +1,177 @@
+/**
+ * PPU 状态查看
+ * 把 jsnes 的图案表、名称表、OAM 与调色板绘制成 RGBA 图像，供调试面板显示
+ */
+
+import type { NES, PPU } from 'jsnes';
+import { colorToRgb } from './palette';
+
+/** 两张图案表并排：各 16x16 个图块 */
+export const PATTERN_WIDTH = 256;
+export const PATTERN_HEIGHT = 128;
+/** 四张名称表按 2x2 排列 */
+export const NAMETABLE_WIDTH = 512;
+export const NAMETABLE_HEIGHT = 480;
+/** 64 个精灵排成 8x8，每格 8x16 */
+export const SPRITE_SHEET_WIDTH = 64;
+export const SPRITE_SHEET_HEIGHT = 128;
+
+/** OAM 中的一个精灵 */
+export interface SpriteInfo {
+  x: number;
+  /** OAM 中的 Y 坐标（实际显示在下一行） */
+  y: number;
+  tile: number;
+  /** 原始属性字节 */
+  attributes: number;
+  palette: number;
+  flipH: boolean;
+  flipV: boolean;
+  /** 是否位于背景之后 */
+  behind: boolean;
+}
+
+export interface PpuSnapshot {
+  /** 拍摄时所在的画面行，null 表示帧结束时 */
+  scanline: number | null;
+  patternTables: Uint8ClampedArray<ArrayBuffer>;
+  nameTables: Uint8ClampedArray<ArrayBuffer>;
+  spriteSheet: Uint8ClampedArray<ArrayBuffer>;
+  sprites: SpriteInfo[];
+  /** 精灵高度（8 或 16） */
+  spriteHeight: number;
+  /** 背景卷动：画面左上角在 512x480 名称表图像中的位置 */
+  scrollX: number;
+  scrollY: number;
+  /** 背景 16 色 + 精灵 16 色（0xRRGGBB） */
+  palettes: number[];
+}
+
+/** 拍摄选项：palette 为图案表使用的调色板（0-3 背景、4-7 精灵） */
+export interface PpuCaptureOptions {
+  palette: number;
+}
+
+/** 背景与精灵调色板的 16 色（0xRRGGBB） */
+interface Palettes {
+  background: number[];
+  sprite: number[];
+}
+
+/** 0xRRGGBB 颜色写入 RGBA 图像 */
+function writePixel(out: Uint8ClampedArray, index: number, color: number): void {
+  const i = index * 4;
+  out[i] = (color >> 16) & 0xff;
+  out[i + 1] = (color >> 8) & 0xff;
+  out[i + 2] = color & 0xff;
+  out[i + 3] = 0xff;
+}
+
+/** 将一个图块画到 out 的 (x, y) 处；pix 为 0 时使用背景色 */
+function drawTile(
+  ppu: PPU, tileIndex: number, out: Uint8ClampedArray, width: number, x: number, y: number,
+  colors: number[], offset: number, flipH = false, flipV = false,
+): void {
+  const tile = ppu.ptTile[tileIndex];
+  if (!tile) return;
+  for (let ty = 0; ty < 8; ty++) {
+    for (let tx = 0; tx < 8; tx++) {
+      const pix = tile.pix[(flipV ? 7 - ty : ty) * 8 + (flipH ? 7 - tx : tx)];
+      writePixel(out, (y + ty) * width + x + tx, pix === 0 ? colors[0] : colors[offset + pix]);
+    }
+  }
+}
+
+function drawPatternTables(ppu: PPU, palettes: Palettes, palette: number): Uint8ClampedArray<ArrayBuffer> {
+  const out = new Uint8ClampedArray(PATTERN_WIDTH * PATTERN_HEIGHT * 4);
+  const colors = palette < 4 ? palettes.background : palettes.sprite;
+  const offset = (palette & 3) * 4;
+  for (let i = 0; i < 512; i++) {
+    const table = i >> 8;
+    const x = table * 128 + (i & 15) * 8;
+    const y = ((i >> 4) & 15) * 8;
+    drawTile(ppu, i, out, PATTERN_WIDTH, x, y, colors, offset);
+  }
+  return out;
+}
+
+function drawNameTables(ppu: PPU, palettes: Palettes): Uint8ClampedArray<ArrayBuffer> {
+  const out = new Uint8ClampedArray(NAMETABLE_WIDTH * NAMETABLE_HEIGHT * 4);
+  const baseTile = ppu.f_bgPatternTable ? 256 : 0;
+  for (let n = 0; n < 4; n++) {
+    const table = ppu.nameTable[ppu.ntable1[n]];
+    if (!table) continue;
+    const left = (n & 1) * 256;
+    const top = (n >> 1) * 240;
+    for (let ty = 0; ty < 30; ty++) {
+      for (let tx = 0; tx < 32; tx++) {
+        const i = ty * 32 + tx;
+        drawTile(ppu, baseTile + table.tile[i], out, NAMETABLE_WIDTH, left + tx * 8, top + ty * 8,
+          palettes.background, table.attrib[i]);
+      }
+    }
+  }
+  return out;
+}
+
+function readSprites(ppu: PPU): SpriteInfo[] {
+  const oam = ppu.spriteMem;
+  return Array.from({ length: 64 }, (_, i) => {
+    const attributes = oam[i * 4 + 2];
+    return {
+      y: oam[i * 4],
+      tile: oam[i * 4 + 1],
+      attributes,
+      x: oam[i * 4 + 3],
+      palette: attributes & 3,
+      flipH: (attributes & 0x40) !== 0,
+      flipV: (attributes & 0x80) !== 0,
+      behind: (attributes & 0x20) !== 0,
+    };
+  });
+}
+
+/** 按 OAM 顺序绘制 64 个精灵（8x16 模式下上下两个图块） */
+function drawSprites(ppu: PPU, palettes: Palettes, sprites: SpriteInfo[]): Uint8ClampedArray<ArrayBuffer> {
+  const out = new Uint8ClampedArray(SPRITE_SHEET_WIDTH * SPRITE_SHEET_HEIGHT * 4);
+  const tall = ppu.f_spriteSize === 1;
+  sprites.forEach((sprite, i) => {
+    const x = (i & 7) * 8;
+    const y = (i >> 3) * 16;
+    const offset = sprite.palette * 4;
+    if (tall) {
+      // 8x16：图块号 bit 0 选择图案表，上下两个图块可整体垂直翻转
+      const base = (sprite.tile & 1) * 256 + (sprite.tile & 0xfe);
+      const [top, bottom] = sprite.flipV ? [base + 1, base] : [base, base + 1];
+      drawTile(ppu, top, out, SPRITE_SHEET_WIDTH, x, y, palettes.sprite, offset, sprite.flipH, sprite.flipV);
+      drawTile(ppu, bottom, out, SPRITE_SHEET_WIDTH, x, y + 8, palettes.sprite, offset, sprite.flipH, sprite.flipV);
+    } else {
+      const tile = (ppu.f_spPatternTable ? 256 : 0) + sprite.tile;
+      drawTile(ppu, tile, out, SPRITE_SHEET_WIDTH, x, y, palettes.sprite, offset, sprite.flipH, sprite.flipV);
+    }
+  });
+  return out;
+}
+
+/** 绘制当前的 PPU 状态；colors 为呈现画面所用的调色板（见 palette.ts） */
+export function capturePpu(
+  nes: NES, options: PpuCaptureOptions, scanline: number | null, colors: Uint8Array,
+): PpuSnapshot {
+  const ppu = nes.ppu;
+  const sprites = readSprites(ppu);
+  const palettes: Palettes = {
+    background: ppu.imgPalette.map((color) => colorToRgb(color, colors)),
+    sprite: ppu.sprPalette.map((color) => colorToRgb(color, colors)),
+  };
+  return {
+    scanline,
+    patternTables: drawPatternTables(ppu, palettes, options.palette),
+    nameTables: drawNameTables(ppu, palettes),
+    spriteSheet: drawSprites(ppu, palettes, sprites),
+    sprites,
+    spriteHeight: ppu.f_spriteSize === 1 ? 16 : 8,
+    scrollX: ppu.regH * 256 + ppu.regHT * 8 + ppu.regFH,
+    scrollY: ppu.regV * 240 + ppu.regVT * 8 + ppu.regFV,
+    palettes: [...palettes.background, ...palettes.sprite],
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * 主线程与模拟 worker 之间的消息协议
+ * 主线程发送带 id 的命令，worker 按 id 回复；状态变化与音频采样由 worker 主动推送
+ */
+
+import type { EmulationSpeed, EmulatorState, HotkeyAction, Overscan } from '../types';
+import type { CheatPatch } from './cheats';
+import type { Breakpoint, BreakpointHit, DebugState, DebugUntil } from './debugger';
+import type { FilterId } from './filters';
+import type { MemorySnapshot } from './memory';
+import type { Movie, MovieStart } from './movie';
+import type { PpuCaptureOptions, PpuSnapshot } from './ppu-inspect';
+import type { RewindOptions } from './rewind';
+import type { NesSnapshot } from './savestate';
+
+/** worker 侧的运行状态（当前游戏由主线程管理） */
+export type CoreState = Omit<EmulatorState, 'currentGame'>;
+
+/** 各命令的参数与返回值 */
+export interface CommandMap {
+  attachCanvas: { params: { canvas: OffscreenCanvas }; result: void };
+  loadRom: { params: { rom: Uint8Array; sram: Uint8Array | null }; result: void };
+  start: { params: void; result: void };
+  pause: { params: void; result: void };
+  resume: { params: void; result: void };
+  /** 暂停并前进一帧 */
+  frameAdvance: { params: void; result: void };
+  /** 继续运行 frames 帧后自动暂停 */
+  pauseAfter: { params: { frames: number }; result: void };
+  stop: { params: void; result: void };
+  reset: { params: void; result: void };
+  powerCycle: { params: void; result: void };
+  button: { params: { player: number; button: number; pressed: boolean }; result: void };
+  hotkey: { params: { action: HotkeyAction; pressed: boolean }; result: void };
+  setSpeed: { params: { speed: EmulationSpeed }; result: void };
+  setFastForwardSpeed: { params: { speed: EmulationSpeed }; result: void };
+  toggleFastForward: { params: void; result: void };
+  setRewindOptions: { params: { options: Partial<RewindOptions> }; result: void };
+  /** 拍摄即时存档快照与画面缩略图 */
+  captureState: { params: void; result: { snapshot: NesSnapshot; thumbnail: Blob } };
+  restoreState: { params: { snapshot: NesSnapshot }; result: void };
+  /** 读取卡带 RAM；onlyIfDirty 时自上次读取后没有改动则返回 null */
+  readSram: { params: { onlyIfDirty: boolean }; result: Uint8Array<ArrayBuffer> | null };
+  /** 写入卡带 RAM 并重新上电 */
+  importSram: { params: { data: Uint8Array }; result: void };
+  recordMovie: { params: { from: MovieStart['type']; romFilename: string }; result: void };
+  /** 回放录像；movie 为 null 时回放最近一次的录像 */
+  playMovie: { params: { movie: Movie | null }; result: void };
+  stopMovie: { params: void; result: void };
+  takeOverMovie: { params: void; result: void };
+  getMovie: { params: void; result: Movie | null };
+  /** 画面滤镜，按数组顺序依次应用 */
+  setVideoFilters: { params: { filters: FilterId[] }; result: void };
+  /** 四边裁掉的过扫描像素数 */
+  setOverscan: { params: { overscan: Overscan }; result: void };
+  /** 更换调色板（1536 字节，见 palette.ts） */
+  setPalette: { params: { colors: Uint8Array }; result: void };
+  /** 替换生效的金手指补丁 */
+  setCheats: { params: { patches: CheatPatch[] }; result: void };
+  readMemory: { params: void; result: MemorySnapshot };
+  /** 从 address 起依次写入 RAM */
+  writeMemory: { params: { address: number; data: number[] }; result: void };
+  /** 拍摄 PPU 状态：scanline 为画面行（0-239）时等到该行结束，null 时取上一帧结束时的状态 */
+  capturePpu: { params: { options: PpuCaptureOptions; scanline: number | null }; result: PpuSnapshot };
+  /** 开关调试模式（逐条执行指令，检查断点） */
+  setDebugMode: { params: { enabled: boolean }; result: void };
+  setBreakpoints: { params: { breakpoints: Breakpoint[] }; result: void };
+  getDebugState: { params: void; result: DebugState };
+  /** 暂停后单步执行到 until */
+  debugStep: { params: { until: DebugUntil }; result: DebugState };
+  /** 导出跟踪日志文本 */
+  getTrace: { params: void; result: string };
+}
+
+export type Command = keyof CommandMap;
+export type CommandParams<K extends Command> = CommandMap[K]['params'];
+export type CommandResult<K extends Command> = CommandMap[K]['result'];
+
+/** 主线程 -> worker；id 为 null 表示不需要回复 */
+export interface WorkerRequest<K extends Command = Command> {
+  id: number | null;
+  type: K;
+  params: CommandParams<K>;
+}
+
+/** worker -> 主线程 */
+export type WorkerMessage =
+  | { type: 'reply'; id: number; result?: unknown; error?: string }
+  | { type: 'state'; state: CoreState }
+  /** worker 自行暂停：命中断点（hit）或运行到了预定的帧数 */
+  | { type: 'paused'; hit: BreakpointHit | null }
+  | { type: 'audio'; left: Float32Array; right: Float32Array };
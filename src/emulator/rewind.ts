@@ -0,0 +1,354 @@
+/**
+ * 倒带模块
+ * 每隔若干帧拍摄一次整机快照，以 XOR 差分 + 零游程压缩的形式存入有界环形缓冲
+ *
+ * 缓冲中只保存相邻快照之间的差分：最新快照（head）以原始形式常驻，
+ * 回退一步即 head XOR 最新差分，因此丢弃最旧的差分不会影响其余记录。
+ */
+
+import type { NesSnapshot } from './savestate';
+
+export interface RewindOptions {
+  /** 每隔多少帧拍摄一次快照 */
+  captureInterval: number;
+  /** 环形缓冲最多保留的快照数 */
+  capacity: number;
+  /** 倒放速度（相对正常速度的倍数） */
+  playbackSpeed: number;
+}
+
+/** 默认：每 4 帧一张快照，保留 1200 张（约 80 秒），以 2 倍速倒放 */
+export const DEFAULT_REWIND_OPTIONS: RewindOptions = {
+  captureInterval: 4,
+  capacity: 1200,
+  playbackSpeed: 2,
+};
+
+/* ---------- 状态树结构描述 ---------- */
+
+/** 叶子值的类型标记 */
+const TAG = {
+  NUMBER: 0,
+  FALSE: 1,
+  TRUE: 2,
+  NULL: 3,
+  UNDEFINED: 4,
+} as const;
+
+type Schema =
+  | { kind: 'leaf' }
+  /** items 为 null 表示元素全部是叶子值 */
+  | { kind: 'array'; length: number; items: Schema[] | null }
+  | { kind: 'object'; keys: string[]; children: Schema[] };
+
+const LEAF: Schema = { kind: 'leaf' };
+
+const isLeaf = (v: unknown) => v === null || typeof v !== 'object';
+
+/** 根据状态树生成结构描述，同时统计叶子数量 */
+function buildSchema(node: unknown): { schema: Schema; leaves: number } {
+  if (isLeaf(node)) {
+    if (typeof node === 'string') throw new Error('Unsupported value in snapshot');
+    return { schema: LEAF, leaves: 1 };
+  }
+  if (Array.isArray(node)) {
+    if (node.every(isLeaf)) {
+      if (node.some((v) => typeof v === 'string')) throw new Error('Unsupported value in snapshot');
+      return { schema: { kind: 'array', length: node.length, items: null }, leaves: node.length };
+    }
+    let leaves = 0;
+    const items = node.map((item) => {
+      const r = buildSchema(item);
+      leaves += r.leaves;
+      return r.schema;
+    });
+    return { schema: { kind: 'array', length: node.length, items }, leaves };
+  }
+  const keys = Object.keys(node as object);
+  let leaves = 0;
+  const children = keys.map((key) => {
+    const r = buildSchema((node as Record<string, unknown>)[key]);
+    leaves += r.leaves;
+    return r.schema;
+  });
+  return { schema: { kind: 'object', keys, children }, leaves };
+}
+
+/**
+ * 扁平化后的快照：
+ * 前 8*n 字节为各叶子的 Float64 值，其后 n 字节为类型标记，整体按 4 字节对齐，
+ * 以 Uint32 视图参与 XOR 差分
+ */
+class FlatLayout {
+  readonly words: number;
+
+  constructor(readonly schema: Schema, readonly leaves: number) {
+    this.words = Math.ceil((leaves * 9) / 4);
+  }
+
+  /** 按结构描述写入叶子值；结构不符时返回 false */
+  write(root: unknown, out: Uint32Array): boolean {
+    const values = new Float64Array(out.buffer, out.byteOffset, this.leaves);
+    const tags = new Uint8Array(out.buffer, out.byteOffset + this.leaves * 8, this.leaves);
+    let i = 0;
+
+    const put = (v: unknown) => {
+      if (typeof v === 'number') {
+        values[i] = v;
+        tags[i] = TAG.NUMBER;
+      } else {
+        values[i] = 0;
+        tags[i] = v === true ? TAG.TRUE : v === false ? TAG.FALSE : v === null ? TAG.NULL : TAG.UNDEFINED;
+      }
+      i++;
+    };
+
+    const walk = (node: unknown, schema: Schema): boolean => {
+      switch (schema.kind) {
+        case 'leaf':
+          if (!isLeaf(node)) return false;
+          put(node);
+          return true;
+        case 'array': {
+          if (!Array.isArray(node) || node.length !== schema.length) return false;
+          if (schema.items === null) {
+            // 热路径：大块内存（RAM/VRAM）几乎全是数字，直接写入
+            for (let k = 0; k < node.length; k++) {
+              const v = node[k];
+              if (typeof v === 'number') {
+                values[i] = v;
+                tags[i++] = TAG.NUMBER;
+              } else if (isLeaf(v)) {
+                put(v);
+              } else {
+                return false;
+              }
+            }
+            return true;
+          }
+          for (let k = 0; k < node.length; k++) {
+            if (!walk(node[k], schema.items[k])) return false;
+          }
+          return true;
+        }
+        case 'object': {
+          if (isLeaf(node) || Array.isArray(node)) return false;
+          const obj = node as Record<string, unknown>;
+          for (let k = 0; k < schema.keys.length; k++) {
+            if (!walk(obj[schema.keys[k]], schema.children[k])) return false;
+          }
+          return true;
+        }
+      }
+    };
+
+    return walk(root, this.schema) && i === this.leaves;
+  }
+
+  /** 从扁平数据还原状态树 */
+  read(data: Uint32Array): unknown {
+    const values = new Float64Array(data.buffer, data.byteOffset, this.leaves);
+    const tags = new Uint8Array(data.buffer, data.byteOffset + this.leaves * 8, this.leaves);
+    let i = 0;
+
+    const get = (): unknown => {
+      const tag = tags[i];
+      const v = values[i++];
+      switch (tag) {
+        case TAG.NUMBER: return v;
+        case TAG.FALSE: return false;
+        case TAG.TRUE: return true;
+        case TAG.NULL: return null;
+        default: return undefined;
+      }
+    };
+
+    const build = (schema: Schema): unknown => {
+      switch (schema.kind) {
+        case 'leaf':
+          return get();
+        case 'array': {
+          const arr = new Array(schema.length);
+          for (let k = 0; k < schema.length; k++) {
+            arr[k] = schema.items === null ? get() : build(schema.items[k]);
+          }
+          return arr;
+        }
+        case 'object': {
+          const obj: Record<string, unknown> = {};
+          for (let k = 0; k < schema.keys.length; k++) {
+            obj[schema.keys[k]] = build(schema.children[k]);
+          }
+          return obj;
+        }
+      }
+    };
+
+    return build(this.schema);
+  }
+}
+
+/* ---------- 差分压缩 ---------- */
+
+/**
+ * 对 a XOR b 做零游程压缩，输出格式为重复的 [零的个数, 非零个数, ...非零值]
+ * scratch 为调用方复用的临时缓冲（长度至少 words * 2 + 2）
+ */
+function compressXor(a: Uint32Array, b: Uint32Array, scratch: Uint32Array): Uint32Array {
+  const n = a.length;
+  let o = 0;
+  let i = 0;
+  while (i < n) {
+    const zeroStart = i;
+    while (i < n && a[i] === b[i]) i++;
+    const zeros = i - zeroStart;
+
+    const litStart = i;
+    while (i < n && a[i] !== b[i]) i++;
+    const literals = i - litStart;
+
+    scratch[o++] = zeros;
+    scratch[o++] = literals;
+    for (let k = litStart; k < i; k++) {
+      scratch[o++] = a[k] ^ b[k];
+    }
+  }
+  return scratch.slice(0, o);
+}
+
+/** 将压缩差分原地 XOR 回 target */
+function applyXor(target: Uint32Array, delta: Uint32Array): void {
+  let i = 0;
+  let o = 0;
+  while (o < delta.length) {
+    i += delta[o++];
+    const literals = delta[o++];
+    for (let k = 0; k < literals; k++) {
+      target[i++] ^= delta[o++];
+    }
+  }
+}
+
+/* ---------- 环形缓冲 ---------- */
+
+/** 缓冲中的一条记录：快照及其对应的帧号 */
+export interface RewindEntry {
+  frame: number;
+  snapshot: NesSnapshot;
+}
+
+export class RewindBuffer {
+  private options: RewindOptions;
+  private layout: FlatLayout | null = null;
+  /** 最新快照的原始扁平数据 */
+  private head: Uint32Array | null = null;
+  /** 差分环：ring[(start + k) % capacity]，k 越大越新 */
+  private ring: (Uint32Array | null)[] = [];
+  private start = 0;
+  private count = 0;
+  private scratch = new Uint32Array(0);
+  private bytes = 0;
+  /** 遇到无法编码的状态时禁用 */
+  private unsupported = false;
+
+  constructor(options: Partial<RewindOptions> = {}) {
+    this.options = { ...DEFAULT_REWIND_OPTIONS, ...options };
+    this.ring = new Array(this.options.capacity).fill(null);
+  }
+
+  getOptions(): RewindOptions {
+    return { ...this.options };
+  }
+
+  /** 修改配置；容量变化时会清空缓冲 */
+  setOptions(options: Partial<RewindOptions>): void {
+    const capacityChanged = options.capacity !== undefined && options.capacity !== this.options.capacity;
+    this.options = { ...this.options, ...options };
+    if (capacityChanged) {
+      this.ring = new Array(this.options.capacity).fill(null);
+      this.clear();
+    }
+  }
+
+  /** 清空所有历史（加载 ROM / 停止时调用） */
+  clear(): void {
+    this.ring.fill(null);
+    this.start = 0;
+    this.count = 0;
+    this.bytes = 0;
+    this.head = null;
+    this.layout = null;
+    this.unsupported = false;
+  }
+
+  /** 当前可回退的快照数 */
+  get length(): number {
+    return this.count;
+  }
+
+  /** 差分占用的内存（字节，不含 head） */
+  get byteLength(): number {
+    return this.bytes;
+  }
+
+  /** 记录一张新快照 */
+  push(entry: RewindEntry): void {
+    if (this.unsupported) return;
+
+    let next: Uint32Array;
+    if (this.layout) {
+      next = new Uint32Array(this.layout.words);
+      if (!this.layout.write(entry, next)) {
+        // 结构变化（极少见），旧历史无法再与新快照做差分
+        this.clear();
+        this.push(entry);
+        return;
+      }
+    } else {
+      try {
+        const { schema, leaves } = buildSchema(entry);
+        this.layout = new FlatLayout(schema, leaves);
+      } catch {
+        this.unsupported = true;
+        return;
+      }
+      next = new Uint32Array(this.layout.words);
+      this.layout.write(entry, next);
+      this.scratch = new Uint32Array(this.layout.words * 2 + 2);
+    }
+
+    if (this.head) {
+      const delta = compressXor(this.head, next, this.scratch);
+      const capacity = this.options.capacity;
+      if (this.count === capacity) {
+        // 缓冲已满，覆盖最旧的差分
+        this.bytes -= this.ring[this.start]!.byteLength;
+        this.start = (this.start + 1) % capacity;
+        this.count--;
+      }
+      this.ring[(this.start + this.count) % capacity] = delta;
+      this.count++;
+      this.bytes += delta.byteLength;
+    }
+    this.head = next;
+  }
+
+  /**
+   * 回退 steps 张快照，返回回退后的记录
+   * 没有更早的历史时返回 null
+   */
+  pop(steps = 1): RewindEntry | null {
+    if (!this.head || !this.layout || this.count === 0) return null;
+
+    const capacity = this.options.capacity;
+    for (let k = 0; k < steps && this.count > 0; k++) {
+      const idx = (this.start + this.count - 1) % capacity;
+      const delta = this.ring[idx]!;
+      applyXor(this.head, delta);
+      this.bytes -= delta.byteLength;
+      this.ring[idx] = null;
+      this.count--;
+    }
+    return this.layout.read(this.head) as RewindEntry;
+  }
+}
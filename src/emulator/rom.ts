@@ -0,0 +1,144 @@
+/**
+ * ROM 文件解析
+ * 读取 iNES / NES 2.0 头部（mapper、容量、镜像、电池、区域等），并计算 PRG+CHR 数据的校验和；
+ * 电池存档等功能依据这里解析出的信息判断卡带特性，游戏目录依据校验和确认 ROM 版本
+ */
+
+import { crc32, md5, sha1 } from './hash';
+
+export const HEADER_SIZE = 16;
+export const TRAINER_SIZE = 512;
+
+export type RomFormat = 'iNES' | 'NES 2.0' | 'archaic iNES';
+export type Mirroring = 'horizontal' | 'vertical' | 'four-screen';
+export type TvSystem = 'NTSC' | 'PAL' | 'multi-region' | 'Dendy';
+export type ConsoleType = 'NES' | 'Vs. System' | 'PlayChoice-10' | 'extended';
+
+/** 头部声明的卡带信息（容量均以字节计） */
+export interface RomHeader {
+  format: RomFormat;
+  mapper: number;
+  /** 仅 NES 2.0 有子 mapper 编号 */
+  submapper: number | null;
+  prgRomSize: number;
+  chrRomSize: number;
+  prgRamSize: number;
+  /** 电池供电的 PRG-RAM（电池存档） */
+  prgNvramSize: number;
+  chrRamSize: number;
+  chrNvramSize: number;
+  mirroring: Mirroring;
+  battery: boolean;
+  trainer: boolean;
+  tvSystem: TvSystem;
+  consoleType: ConsoleType;
+}
+
+/** 头部信息与 PRG+CHR 数据的校验和（无法识别头部时对整个文件计算） */
+export interface RomInfo {
+  header: RomHeader | null;
+  fileSize: number;
+  /** 文件比头部声明的短，数据不完整 */
+  truncated: boolean;
+  crc32: string;
+  sha1: string;
+  md5: string;
+}
+
+const TV_SYSTEMS: TvSystem[] = ['NTSC', 'PAL', 'multi-region', 'Dendy'];
+const CONSOLE_TYPES: ConsoleType[] = ['NES', 'Vs. System', 'PlayChoice-10', 'extended'];
+
+export function isINes(rom: Uint8Array): boolean {
+  return rom.length >= HEADER_SIZE && rom[0] === 0x4e && rom[1] === 0x45 && rom[2] === 0x53 && rom[3] === 0x1a;
+}
+
+/**
+ * NES 2.0 的 ROM 容量：高 4 位为 0xF 时低字节是指数-乘数写法 2^E × (MM × 2 + 1)，
+ * 否则为 (高 4 位 << 8 | 低字节) 个 unit
+ */
+function nes2RomSize(lsb: number, msb: number, unit: number): number {
+  if (msb === 0x0f) return 2 ** (lsb >> 2) * ((lsb & 0x03) * 2 + 1);
+  return ((msb << 8) | lsb) * unit;
+}
+
+/** NES 2.0 的 RAM 容量：64 << n，0 表示没有 */
+const nes2RamSize = (shift: number) => (shift ? 64 << shift : 0);
+
+/** 解析 iNES / NES 2.0 头部，不是 iNES 文件时返回 null */
+export function parseRomHeader(rom: Uint8Array): RomHeader | null {
+  if (!isINes(rom)) return null;
+  const flags6 = rom[6];
+  const flags7 = rom[7];
+  const battery = (flags6 & 0x02) !== 0;
+  const common = {
+    mirroring: (flags6 & 0x08 ? 'four-screen' : flags6 & 0x01 ? 'vertical' : 'horizontal') as Mirroring,
+    battery,
+    trainer: (flags6 & 0x04) !== 0,
+  };
+
+  if ((flags7 & 0x0c) === 0x08) {
+    return {
+      ...common,
+      format: 'NES 2.0',
+      mapper: ((rom[8] & 0x0f) << 8) | (flags7 & 0xf0) | (flags6 >> 4),
+      submapper: rom[8] >> 4,
+      prgRomSize: nes2RomSize(rom[4], rom[9] & 0x0f, 0x4000),
+      chrRomSize: nes2RomSize(rom[5], rom[9] >> 4, 0x2000),
+      prgRamSize: nes2RamSize(rom[10] & 0x0f),
+      prgNvramSize: nes2RamSize(rom[10] >> 4),
+      chrRamSize: nes2RamSize(rom[11] & 0x0f),
+      chrNvramSize: nes2RamSize(rom[11] >> 4),
+      tvSystem: TV_SYSTEMS[rom[12] & 0x03],
+      consoleType: CONSOLE_TYPES[flags7 & 0x03],
+    };
+  }
+
+  // 旧版 dump 工具会在头部 7-15 字节写入签名（如 "DiskDude!"），此时第 7 字节以后都不可信
+  const archaic = (flags7 & 0x0c) === 0x04 || (rom[12] | rom[13] | rom[14] | rom[15]) !== 0;
+  const chrRomSize = rom[5] * 0x2000;
+  // 第 8 字节以 8KB 为单位，0 表示 8KB
+  const prgRam = ((archaic ? 0 : rom[8]) || 1) * 0x2000;
+  return {
+    ...common,
+    format: archaic ? 'archaic iNES' : 'iNES',
+    mapper: (archaic ? 0 : flags7 & 0xf0) | (flags6 >> 4),
+    submapper: null,
+    prgRomSize: rom[4] * 0x4000,
+    chrRomSize,
+    prgRamSize: battery ? 0 : prgRam,
+    prgNvramSize: battery ? prgRam : 0,
+    chrRamSize: chrRomSize ? 0 : 0x2000,
+    chrNvramSize: 0,
+    tvSystem: !archaic && rom[9] & 0x01 ? 'PAL' : 'NTSC',
+    consoleType: archaic ? 'NES' : CONSOLE_TYPES[flags7 & 0x03],
+  };
+}
+
+/** 取出 ROM 中的 PRG+CHR 数据（去掉头部与 trainer），无法识别头部时返回整个文件 */
+export function romData(rom: Uint8Array, header = parseRomHeader(rom)): Uint8Array {
+  if (!header) return rom;
+  const start = HEADER_SIZE + (header.trainer ? TRAINER_SIZE : 0);
+  return rom.subarray(start, start + header.prgRomSize + header.chrRomSize);
+}
+
+/** PRG+CHR 数据的 CRC32（与游戏目录中记录的一致） */
+export function romCrc32(rom: Uint8Array): string {
+  return crc32(romData(rom));
+}
+
+/** 解析头部并计算校验和 */
+export function inspectRom(rom: Uint8Array): RomInfo {
+  const header = parseRomHeader(rom);
+  const data = romData(rom, header);
+  const expected = header
+    ? HEADER_SIZE + (header.trainer ? TRAINER_SIZE : 0) + header.prgRomSize + header.chrRomSize
+    : rom.length;
+  return {
+    header,
+    fileSize: rom.length,
+    truncated: rom.length < expected,
+    crc32: crc32(data),
+    sha1: sha1(data),
+    md5: md5(data),
+  };
+}
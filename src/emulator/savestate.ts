@@ -0,0 +1,111 @@
+/**
+ * 即时存档模块
+ * 负责 jsnes 整机状态的快照/恢复，以及按游戏存入 IndexedDB
+ */
+
+import type { NES, NESState } from 'jsnes';
+import type { SaveSlot, SaveStateInfo } from '../types';
+import { dbGet, dbGetByPrefix, dbPut } from './storage';
+import { NES_HEIGHT, NES_WIDTH } from './video';
+
+/** 每个游戏的编号存档位数量（另有一个快速存档位） */
+export const SAVE_SLOT_COUNT = 10;
+
+/** 不含 ROM 数据的整机快照（ROM 由引擎自行保存） */
+export type NesSnapshot = Omit<NESState, 'romData'>;
+
+/** IndexedDB 中的存档记录 */
+interface SaveStateRecord extends SaveStateInfo {
+  gameId: string;
+  state: NesSnapshot;
+}
+
+/** 拍摄快照：jsnes 的 toJSON 与实例共享数组，这里做一次深拷贝 */
+export function captureSnapshot(nes: NES): NesSnapshot {
+  const { cpu, mmap, ppu } = nes.toJSON();
+  return structuredClone({ cpu, mmap, ppu });
+}
+
+/** ppu 中每帧都会重绘的渲染缓冲，轻量快照不保存 */
+const RENDER_BUFFERS = ['buffer', 'bgbuffer', 'pixrendered'] as const;
+
+/**
+ * 拍摄轻量快照：不做深拷贝、不含渲染缓冲
+ * 返回值与运行中的实例共享数组，调用方必须立即编码（如写入倒带缓冲）
+ */
+export function captureLiveSnapshot(nes: NES): NesSnapshot {
+  const { cpu, mmap, ppu } = nes.toJSON();
+  for (const key of RENDER_BUFFERS) {
+    delete ppu[key];
+  }
+  return { cpu, mmap, ppu };
+}
+
+/** 恢复轻量快照：渲染缓冲沿用当前实例的 */
+export function restoreLiveSnapshot(nes: NES, snapshot: NesSnapshot): void {
+  for (const key of RENDER_BUFFERS) {
+    snapshot.ppu[key] = nes.ppu[key];
+  }
+  restoreSnapshot(nes, snapshot);
+}
+
+/** 从快照恢复（快照中的数组会被 jsnes 直接接管，调用方不应再复用） */
+export function restoreSnapshot(nes: NES, snapshot: NesSnapshot): void {
+  // CHR-ROM 游戏的 ptTile 与 ROM 的图块缓存共享同一批对象，
+  // 直接 fromJSON 会把快照中的图块写进 ROM 缓存，先换成独立副本
+  const tiles = nes.ppu.ptTile;
+  for (let i = 0; i < tiles.length; i++) {
+    tiles[i] = Object.assign(Object.create(Object.getPrototypeOf(tiles[i])), tiles[i]);
+  }
+  nes.fromJSON({ ...snapshot, romData: nes.romData });
+  // 快照中的 imgPalette/sprPalette 按拍摄时的颜色表换算，这里按当前颜色表重取
+  nes.ppu.updatePalettes();
+}
+
+/** 将当前画面缩小为存档缩略图（PNG，宽度固定为原生分辨率的一半，与画面滤镜无关） */
+export function captureThumbnail(canvas: OffscreenCanvas): Promise<Blob> {
+  const width = NES_WIDTH / 2;
+  const thumb = new OffscreenCanvas(width, Math.round((width * canvas.height) / canvas.width));
+  const ctx = thumb.getContext('2d')!;
+  // 滤镜放大后的画面缩小时需要平滑
+  ctx.imageSmoothingEnabled = canvas.width > NES_WIDTH;
+  ctx.drawImage(canvas, 0, 0, thumb.width, thumb.height);
+  return thumb.convertToBlob({ type: 'image/png' });
+}
+
+/** 将缩略图转为 data URL 以便存入 IndexedDB 并直接用于 <img> */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+const slotKey = (gameId: string, slot: SaveSlot) => `${gameId}:${slot}`;
+
+/** 写入存档位 */
+export function writeSaveState(
+  gameId: string,
+  slot: SaveSlot,
+  state: NesSnapshot,
+  thumbnail: string,
+): Promise<void> {
+  const record: SaveStateRecord = { gameId, slot, timestamp: Date.now(), thumbnail, state };
+  return dbPut('savestates', slotKey(gameId, slot), record);
+}
+
+/** 读取存档位中的快照，不存在时返回 null */
+export async function readSaveState(gameId: string, slot: SaveSlot): Promise<NesSnapshot | null> {
+  const record = await dbGet<SaveStateRecord>('savestates', slotKey(gameId, slot));
+  return record?.state ?? null;
+}
+
+/** 列出某个游戏已有的存档（不含快照本体） */
+export async function listSaveStates(gameId: string): Promise<SaveStateInfo[]> {
+  const records = await dbGetByPrefix<SaveStateRecord>('savestates', `${gameId}:`);
+  return records
+    .filter((r) => r.gameId === gameId)
+    .map(({ slot, timestamp, thumbnail }) => ({ slot, timestamp, thumbnail }));
+}
@@ -0,0 +1,98 @@
+/**
+ * 固定步长帧调度器
+ * 按真实时间累积，以 NES 的原生帧率推进模拟，与显示器刷新率解耦
+ */
+
+/** NTSC 主机的帧率（Hz） */
+export const NTSC_FRAME_RATE = 60.0988;
+
+/** 与一帧时长相差不超过该值（ms）的间隔视为恰好一帧，吸收 rAF 时间戳抖动 */
+const VSYNC_SNAP_MS = 1;
+
+/** 单次 tick 最多追赶的时间（以 1x 帧数计）：标签页挂起后恢复时丢弃多余的时间，而不是狂跑 */
+const MAX_CATCH_UP_FRAMES = 4;
+
+export class FrameScheduler {
+  /** 1x 速度下一帧的时长（ms） */
+  private readonly baseDuration: number;
+  private frameDuration: number;
+  private accumulator = 0;
+  private lastTime: number | null = null;
+
+  constructor(frameRate = NTSC_FRAME_RATE) {
+    this.baseDuration = 1000 / frameRate;
+    this.frameDuration = this.baseDuration;
+  }
+
+  /** 设置速度倍率（0.25 表示慢放到 1/4，2 表示两倍速） */
+  setSpeed(multiplier: number): void {
+    this.frameDuration = this.baseDuration / multiplier;
+    this.reset();
+  }
+
+  /** 清空累积时间（开始/恢复运行时调用） */
+  reset(): void {
+    this.accumulator = 0;
+    this.lastTime = null;
+  }
+
+  /**
+   * 推进时钟，返回本次需要模拟的帧数
+   * 高刷屏上会出现返回 0 的 tick（画面重复呈现），低帧率时返回多帧（中间帧被丢弃）
+   */
+  tick(now: number): number {
+    if (this.lastTime === null) {
+      this.lastTime = now;
+      return 1;
+    }
+
+    let elapsed = now - this.lastTime;
+    this.lastTime = now;
+    if (Math.abs(elapsed - this.frameDuration) < VSYNC_SNAP_MS) {
+      elapsed = this.frameDuration;
+    }
+
+    // 追赶上限按真实时间计算，与当前速度无关
+    this.accumulator = Math.min(
+      this.accumulator + elapsed,
+      this.baseDuration * MAX_CATCH_UP_FRAMES,
+    );
+
+    const frames = Math.floor(this.accumulator / this.frameDuration);
+    this.accumulator -= frames * this.frameDuration;
+    return frames;
+  }
+}
+
+/** 每秒统计一次模拟帧数与实际呈现帧数 */
+export class FpsMeter {
+  private windowStart = 0;
+  private emulatedCount = 0;
+  private presentedCount = 0;
+  emulated = 0;
+  presented = 0;
+
+  reset(now: number): void {
+    this.windowStart = now;
+    this.emulatedCount = 0;
+    this.presentedCount = 0;
+  }
+
+  /** 记录一次 tick，产生新的统计值时返回 true */
+  record(now: number, emulatedFrames: number, presented: boolean): boolean {
+    this.emulatedCount += emulatedFrames;
+    if (presented) this.presentedCount++;
+
+    const elapsed = now - this.windowStart;
+    if (elapsed < 1000) return false;
+    this.emulated = Math.round((this.emulatedCount * 1000) / elapsed);
+    this.presented = Math.round((this.presentedCount * 1000) / elapsed);
+    this.reset(now);
+    return true;
+  }
+
+  clear(): void {
+    this.emulated = 0;
+    this.presented = 0;
+  }
+}
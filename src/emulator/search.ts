@@ -0,0 +1,88 @@
+/**
+ * 内存搜索（金手指查找）
+ * 先对 RAM 拍一张快照，之后每次按"不变 / 改变 / 增加 / 减少 / 等于某值"与上一张快照比较，
+ * 逐步缩小候选地址，直到只剩下少数几个（如剩余人数、血量所在的地址）
+ */
+
+import { peek, RAM_SIZE, type MemorySnapshot } from './memory';
+import { SRAM_SIZE, SRAM_START } from './sram';
+
+/** 与上一张快照的比较方式 */
+export type SearchComparison = 'equal' | 'changed' | 'increased' | 'decreased' | 'value';
+
+/** 一个候选地址在上一张快照与当前快照中的值 */
+export interface SearchResult {
+  address: number;
+  previous: number;
+  current: number;
+}
+
+export class MemorySearch {
+  private candidates: number[] = [];
+  private previous: MemorySnapshot | null = null;
+
+  /** 是否已经开始搜索 */
+  get started(): boolean {
+    return this.previous !== null;
+  }
+
+  /** 剩余的候选地址数 */
+  get count(): number {
+    return this.candidates.length;
+  }
+
+  /** 以 snapshot 为起点开始新的搜索；includeSram 时同时搜索卡带 RAM */
+  start(snapshot: MemorySnapshot, includeSram = false): void {
+    this.candidates = Array.from({ length: RAM_SIZE }, (_, i) => i);
+    if (includeSram) {
+      for (let i = 0; i < SRAM_SIZE; i++) this.candidates.push(SRAM_START + i);
+    }
+    this.previous = snapshot;
+  }
+
+  /**
+   * 用新快照筛选候选地址，之后以新快照作为下一次比较的基准
+   * comparison 为 'value' 时保留当前值等于 value 的地址
+   */
+  filter(snapshot: MemorySnapshot, comparison: SearchComparison, value = 0): number {
+    const previous = this.previous;
+    if (!previous) {
+      throw new Error('Call start() before filtering.');
+    }
+    this.candidates = this.candidates.filter((address) => {
+      const before = peek(previous, address);
+      const after = peek(snapshot, address);
+      switch (comparison) {
+        case 'equal':
+          return after === before;
+        case 'changed':
+          return after !== before;
+        case 'increased':
+          return after > before;
+        case 'decreased':
+          return after < before;
+        case 'value':
+          return after === (value & 0xff);
+      }
+    });
+    this.previous = snapshot;
+    return this.candidates.length;
+  }
+
+  /** 前 limit 个候选地址在上一张快照与 snapshot 中的值 */
+  results(snapshot: MemorySnapshot, limit: number): SearchResult[] {
+    const previous = this.previous;
+    if (!previous) return [];
+    return this.candidates.slice(0, limit).map((address) => ({
+      address,
+      previous: peek(previous, address),
+      current: peek(snapshot, address),
+    }));
+  }
+
+  /** 放弃当前搜索 */
+  clear(): void {
+    this.candidates = [];
+    this.previous = null;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * 电池存档模块
+ * 带电池的卡带（塞尔达、勇者斗恶龙等）把进度写在 0x6000-0x7FFF 的卡带 RAM 中，
+ * 这里负责识别这类卡带，并按游戏把卡带 RAM 存入 IndexedDB
+ */
+
+import type { NES } from 'jsnes';
+import { parseRomHeader } from './rom';
+import { dbGet, dbPut } from './storage';
+
+/** 卡带 RAM 在 CPU 地址空间中的位置与大小 */
+export const SRAM_START = 0x6000;
+export const SRAM_SIZE = 0x2000;
+
+/** IndexedDB 中的电池存档记录 */
+interface SramRecord {
+  data: Uint8Array;
+  timestamp: number;
+}
+
+/** 根据 ROM 头判断卡带是否带电池 */
+export function hasBatteryBackup(rom: Uint8Array): boolean {
+  return parseRomHeader(rom)?.battery ?? false;
+}
+
+/**
+ * .sav 文件的大小（字节）：导入与导出共用
+ * 取卡带声明的电池 PRG-RAM 大小；未声明（0）或超过模拟的 8 KB 时按 8 KB 计
+ */
+export function sramFileSize(rom: Uint8Array): number {
+  const declared = parseRomHeader(rom)?.prgNvramSize ?? 0;
+  return declared > 0 ? Math.min(declared, SRAM_SIZE) : SRAM_SIZE;
+}
+
+/** 复制当前的卡带 RAM */
+export function extractSram(nes: NES): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(nes.cpu.mem.slice(SRAM_START, SRAM_START + SRAM_SIZE));
+}
+
+/** 将卡带 RAM 写回主机（长度不足时只写入已有部分） */
+export function injectSram(nes: NES, data: Uint8Array): void {
+  const mem = nes.cpu.mem;
+  const length = Math.min(data.length, SRAM_SIZE);
+  for (let i = 0; i < length; i++) {
+    mem[SRAM_START + i] = data[i];
+  }
+}
+
+/** 读取某个游戏的电池存档，不存在时返回 null */
+export async function readSram(gameId: string): Promise<Uint8Array | null> {
+  const record = await dbGet<SramRecord>('sram', gameId);
+  return record?.data ?? null;
+}
+
+/** 写入某个游戏的电池存档 */
+export function writeSram(gameId: string, data: Uint8Array): Promise<void> {
+  const record: SramRecord = { data, timestamp: Date.now() };
+  return dbPut('sram', gameId, record);
+}
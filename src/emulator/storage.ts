@@ -0,0 +1,75 @@
+/**
+ * IndexedDB 持久化模块
+ * 提供按 object store 划分的简单键值存取，供存档等功能使用
+ */
+
+const DB_NAME = 'nes-arcade';
+const DB_VERSION = 6;
+
+/** 所有 object store 名称（新增 store 时需同时提升 DB_VERSION） */
+const STORES = ['savestates', 'sram', 'cheats', 'watches', 'palettes', 'roms'] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** 打开（或创建）数据库，结果会被缓存 */
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const name of STORES) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name);
+        }
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+/** 将 IDBRequest 包装为 Promise */
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  fn: (s: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return promisify(fn(db.transaction(store, mode).objectStore(store)));
+}
+
+/** 读取一条记录，不存在时返回 undefined */
+export function dbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  return withStore(store, 'readonly', (s) => s.get(key) as IDBRequest<T | undefined>);
+}
+
+/** 写入（覆盖）一条记录 */
+export async function dbPut<T>(store: StoreName, key: string, value: T): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.put(value, key));
+}
+
+/** 删除一条记录 */
+export async function dbDelete(store: StoreName, key: string): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.delete(key));
+}
+
+/** 读取键以指定前缀开头的所有记录 */
+export function dbGetByPrefix<T>(store: StoreName, prefix: string): Promise<T[]> {
+  const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+  return withStore(store, 'readonly', (s) => s.getAll(range) as IDBRequest<T[]>);
+}
@@ -0,0 +1,53 @@
+/**
+ * 画面输出
+ * NES 分辨率常量，以及把核心输出的 RGBA 帧经过滤镜（见 filters.ts）、裁掉过扫描区域后绘制到 canvas 的画面 sink
+ */
+
+import type { VideoSink } from './core';
+import { FilterPipeline, type FilterId } from './filters';
+import type { Overscan } from '../types';
+
+/** NES 原生分辨率 */
+export const NES_WIDTH = 256;
+export const NES_HEIGHT = 240;
+
+/** 绘制到 HTMLCanvasElement 或 OffscreenCanvas 的画面 sink */
+export class CanvasVideoSink implements VideoSink {
+  readonly canvas: HTMLCanvasElement | OffscreenCanvas;
+  private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  private filters = new FilterPipeline();
+  private overscan: Overscan = { top: 0, bottom: 0, left: 0, right: 0 };
+
+  constructor(canvas: HTMLCanvasElement | OffscreenCanvas) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  }
+
+  /** 设置依次应用的滤镜，空数组为原样输出 */
+  setFilters(filters: readonly FilterId[]): void {
+    this.filters.setFilters(filters);
+  }
+
+  /** 设置四边裁掉的 NES 像素数 */
+  setOverscan(overscan: Overscan): void {
+    this.overscan = { ...overscan };
+  }
+
+  present(frame: Uint8ClampedArray<ArrayBuffer>): void {
+    let image = new ImageData(frame, NES_WIDTH, NES_HEIGHT);
+    if (!this.filters.isEmpty) {
+      const out = this.filters.process({ width: NES_WIDTH, height: NES_HEIGHT, pixels: new Uint32Array(frame.buffer) });
+      image = new ImageData(new Uint8ClampedArray(out.pixels.buffer), out.width, out.height);
+    }
+    // canvas 分辨率随放大倍数与裁切变化（显示尺寸由界面决定）
+    const scale = image.width / NES_WIDTH;
+    const { top, bottom, left, right } = this.overscan;
+    const width = (NES_WIDTH - left - right) * scale;
+    const height = (NES_HEIGHT - top - bottom) * scale;
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    this.ctx.putImageData(image, -left * scale, -top * scale, left * scale, top * scale, width, height);
+  }
+}
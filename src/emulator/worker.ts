@@ -0,0 +1,485 @@
+/**
+ * 模拟 worker
+ * 在独立线程中运行 NesCore、帧调度与倒带，画面直接绘制到 OffscreenCanvas，
+ * 音频采样分块回传主线程播放；主线程的 UI 渲染不会再拖慢模拟
+ */
+
+import type { CheatPatch } from './cheats';
+import { NesCore } from './core';
+import type { Breakpoint, DebugState, DebugUntil } from './debugger';
+import type { FilterId } from './filters';
+import type { MemorySnapshot } from './memory';
+import { FpsMeter, FrameScheduler } from './scheduler';
+import type { Movie, MovieStart } from './movie';
+import type { PpuCaptureOptions, PpuSnapshot } from './ppu-inspect';
+import type { RewindOptions } from './rewind';
+import { captureThumbnail, type NesSnapshot } from './savestate';
+import { CanvasVideoSink } from './video';
+import type {
+  Command, CommandParams, CommandResult, CoreState, WorkerMessage, WorkerRequest,
+} from './protocol';
+import type { EmulationSpeed, HotkeyAction, Overscan } from '../types';
+
+/** turbo 模式下每个 tick 用于模拟的时间预算（ms） */
+const TURBO_FRAME_BUDGET_MS = 12;
+/** 运行中推送状态（帧计数等）的最短间隔（ms） */
+const STATE_PUSH_INTERVAL_MS = 100;
+
+/** 部分浏览器的 worker 中没有 rAF，退回到定时器 */
+const requestFrame: (cb: FrameRequestCallback) => number =
+  typeof requestAnimationFrame === 'function'
+    ? requestAnimationFrame
+    : (cb) => setTimeout(() => cb(performance.now()), 1000 / 60) as unknown as number;
+const cancelFrame: (id: number) => void =
+  typeof cancelAnimationFrame === 'function' ? cancelAnimationFrame : clearTimeout;
+
+function post(message: WorkerMessage, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+/** 在 NesCore 之上提供实时运行：帧调度、速度控制与倒放 */
+class WorkerRunner {
+  private core = new NesCore({
+    // 音频采样转交主线程播放
+    audio: { push: (left, right) => post({ type: 'audio', left, right }, [left.buffer, right.buffer]) },
+  });
+  private canvas: OffscreenCanvas | null = null;
+  private video: CanvasVideoSink | null = null;
+  /** 画面滤镜（可能早于 canvas 设置） */
+  private videoFilters: FilterId[] = [];
+  private overscan: Overscan = { top: 0, bottom: 0, left: 0, right: 0 };
+  private loopId: number | null = null;
+  private isRunning = false;
+  private isPaused = false;
+  /** 还要运行多少帧后自动暂停，null 为不限 */
+  private framesUntilPause: number | null = null;
+  private lastNotify = 0;
+
+  // 帧调度与 FPS 统计
+  private scheduler = new FrameScheduler();
+  private fpsMeter = new FpsMeter();
+
+  // 速度控制
+  private speed: EmulationSpeed = 1;
+  private fastForwardSpeed: EmulationSpeed = 'turbo';
+  private fastForwardHeld = false;
+  private fastForwardLatched = false;
+
+  // 倒带
+  private rewinding = false;
+  /** 倒放进度（以帧计），攒够一个拍摄间隔回退一张快照 */
+  private rewindAccumulator = 0;
+
+  constructor() {
+    this.core.onMovieEnd = () => this.notify();
+  }
+
+  attachCanvas(canvas: OffscreenCanvas): void {
+    this.canvas = canvas;
+    this.video = new CanvasVideoSink(canvas);
+    this.video.setFilters(this.videoFilters);
+    this.video.setOverscan(this.overscan);
+    this.core.video = this.video;
+  }
+
+  /** 更换画面滤镜并立即重新呈现当前画面 */
+  setVideoFilters(filters: FilterId[]): void {
+    this.videoFilters = filters;
+    this.video?.setFilters(filters);
+    this.core.present();
+  }
+
+  /** 更换过扫描裁切并立即重新呈现当前画面 */
+  setOverscan(overscan: Overscan): void {
+    this.overscan = overscan;
+    this.video?.setOverscan(overscan);
+    this.core.present();
+  }
+
+  loadRom(rom: Uint8Array, sram: Uint8Array | null): void {
+    this.stop();
+    this.core.loadRom(rom, sram);
+  }
+
+  start(): void {
+    if (!this.canvas) {
+      throw new Error('Canvas not attached. Call attachCanvas() first.');
+    }
+    if (this.isRunning && !this.isPaused) return;
+    this.isRunning = true;
+    this.isPaused = false;
+    this.startLoop();
+    this.notify();
+  }
+
+  pause(): void {
+    this.framesUntilPause = null;
+    if (!this.isRunning || this.isPaused) return;
+    this.isPaused = true;
+    this.cancelLoop();
+    this.core.flushPpuCapture();
+    this.notify();
+  }
+
+  resume(): void {
+    if (!this.isRunning || !this.isPaused) return;
+    this.isPaused = false;
+    this.startLoop();
+    this.notify();
+  }
+
+  /** 暂停中前进一帧（运行中先暂停） */
+  frameAdvance(): void {
+    if (!this.isRunning) return;
+    this.pause();
+    if (this.runFrame()) this.core.present();
+    this.notify();
+  }
+
+  /** 继续运行 frames 帧后自动暂停 */
+  pauseAfter(frames: number): void {
+    if (!this.isRunning) return;
+    this.resume();
+    this.framesUntilPause = Math.max(1, Math.floor(frames));
+  }
+
+  reset(): void {
+    this.core.reset();
+  }
+
+  powerCycle(): void {
+    this.core.powerCycle();
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    this.isPaused = false;
+    this.framesUntilPause = null;
+    this.cancelLoop();
+    this.core.flushPpuCapture();
+    this.fpsMeter.clear();
+    this.fastForwardHeld = false;
+    this.fastForwardLatched = false;
+    this.rewinding = false;
+    this.core.clearRewind();
+    this.applySpeed();
+  }
+
+  private startLoop(): void {
+    this.scheduler.reset();
+    this.fpsMeter.reset(performance.now());
+    this.loopId = requestFrame(this.renderLoop);
+  }
+
+  private cancelLoop(): void {
+    if (this.loopId !== null) {
+      cancelFrame(this.loopId);
+      this.loopId = null;
+    }
+  }
+
+  /** 按调度器给出的帧数推进模拟，有新画面时才呈现 */
+  private renderLoop = (now: number): void => {
+    if (!this.isRunning || this.isPaused) return;
+
+    let frames = 0;
+    if (this.rewinding) {
+      frames = this.stepRewind(this.scheduler.tick(now));
+    } else if (this.effectiveSpeed === 'turbo') {
+      // 不限速：在时间预算内尽可能多地模拟，只呈现最后一帧
+      const start = performance.now();
+      do {
+        if (!this.runFrame()) break;
+        frames++;
+      } while (!this.isPaused && performance.now() - start < TURBO_FRAME_BUDGET_MS);
+    } else {
+      const ticks = this.scheduler.tick(now);
+      while (frames < ticks && !this.isPaused && this.runFrame()) {
+        frames++;
+      }
+    }
+    if (frames > 0) {
+      this.core.present();
+    }
+    const fpsUpdated = this.fpsMeter.record(now, frames, frames > 0);
+    if (fpsUpdated || (frames > 0 && now - this.lastNotify >= STATE_PUSH_INTERVAL_MS)) {
+      this.notify();
+    }
+
+    if (this.isPaused) return;
+    this.loopId = requestFrame(this.renderLoop);
+  };
+
+  /**
+   * 模拟一帧；命中断点（调试模式）或运行到预定帧数时暂停并通知主线程
+   * 返回 false 表示帧没有跑完（停在断点处）
+   */
+  private runFrame(): boolean {
+    if (!this.core.runFrame()) {
+      const hit = this.core.getDebugState().stop?.hit ?? null;
+      this.pause();
+      this.core.present();
+      post({ type: 'paused', hit });
+      return false;
+    }
+    if (this.framesUntilPause !== null && --this.framesUntilPause <= 0) {
+      this.pause();
+      post({ type: 'paused', hit: null });
+    }
+    return true;
+  }
+
+  /**
+   * 倒放：按 playbackSpeed 回退快照
+   * 返回本次模拟的帧数（历史耗尽时停在最早的画面上）
+   */
+  private stepRewind(ticks: number): number {
+    const { captureInterval, playbackSpeed } = this.core.getRewindOptions();
+    this.rewindAccumulator += ticks * playbackSpeed;
+    const steps = Math.floor(this.rewindAccumulator / captureInterval);
+    if (steps === 0) return 0;
+    this.rewindAccumulator -= steps * captureInterval;
+    return this.core.rewindStep(steps) ? 1 : 0;
+  }
+
+  /* ---------- 速度控制 ---------- */
+
+  private get effectiveSpeed(): EmulationSpeed {
+    return this.fastForwardHeld || this.fastForwardLatched ? this.fastForwardSpeed : this.speed;
+  }
+
+  /** 将生效速度同步到调度器与音频 */
+  private applySpeed(): void {
+    const speed = this.effectiveSpeed;
+    // 倒带按 1x 节奏推进，倒放快慢由 playbackSpeed 决定
+    if (this.rewinding) {
+      this.scheduler.setSpeed(1);
+    } else if (speed !== 'turbo') {
+      this.scheduler.setSpeed(speed);
+    }
+    // 非 1x 或倒带时不再采集音频，而不是让主线程的音频缓冲溢出
+    this.core.setAudioMuted(this.rewinding || speed !== 1);
+    this.notify();
+  }
+
+  setSpeed(speed: EmulationSpeed): void {
+    this.speed = speed;
+    this.applySpeed();
+  }
+
+  setFastForwardSpeed(speed: EmulationSpeed): void {
+    this.fastForwardSpeed = speed;
+    this.applySpeed();
+  }
+
+  toggleFastForward(): void {
+    this.fastForwardLatched = !this.fastForwardLatched;
+    this.applySpeed();
+  }
+
+  handleHotkey(action: HotkeyAction, pressed: boolean): void {
+    switch (action) {
+      case 'fastForward':
+        this.fastForwardHeld = pressed;
+        this.applySpeed();
+        break;
+      case 'rewind':
+        this.rewinding = pressed;
+        this.rewindAccumulator = 0;
+        this.applySpeed();
+        break;
+    }
+  }
+
+  setRewindOptions(options: Partial<RewindOptions>): void {
+    this.core.setRewindOptions(options);
+  }
+
+  button(player: number, button: number, pressed: boolean): void {
+    this.core.setButton(player, button, pressed);
+  }
+
+  /* ---------- 存档 ---------- */
+
+  async captureState(): Promise<{ snapshot: NesSnapshot; thumbnail: Blob }> {
+    if (!this.canvas) {
+      throw new Error('Canvas not attached. Call attachCanvas() first.');
+    }
+    const snapshot = this.core.captureState();
+    const thumbnail = await captureThumbnail(this.canvas);
+    return { snapshot, thumbnail };
+  }
+
+  restoreState(snapshot: NesSnapshot): void {
+    // 暂停状态下也会立即显示存档时的画面
+    this.core.restoreState(snapshot);
+  }
+
+  readSram(onlyIfDirty: boolean): Uint8Array<ArrayBuffer> | null {
+    return this.core.readSram(onlyIfDirty);
+  }
+
+  importSram(data: Uint8Array): void {
+    this.core.importSram(data);
+  }
+
+  /* ---------- 录像 ---------- */
+
+  recordMovie(from: MovieStart['type'], romFilename: string): void {
+    this.core.recordMovie(from, romFilename);
+    this.notify();
+  }
+
+  playMovie(movie: Movie | null): void {
+    this.core.playMovie(movie);
+    this.notify();
+  }
+
+  stopMovie(): void {
+    this.core.stopMovie();
+    this.notify();
+  }
+
+  takeOverMovie(): void {
+    this.core.takeOverMovie();
+    this.notify();
+  }
+
+  getMovie(): Movie | null {
+    return this.core.getMovie();
+  }
+
+  /* ---------- 金手指 ---------- */
+
+  setCheats(patches: CheatPatch[]): void {
+    this.core.setCheats(patches);
+  }
+
+  /* ---------- 调色板 ---------- */
+
+  setPalette(colors: Uint8Array): void {
+    this.core.setPalette(colors);
+  }
+
+  /* ---------- 内存 ---------- */
+
+  readMemory(): MemorySnapshot {
+    return this.core.readMemory();
+  }
+
+  writeMemory(address: number, data: number[]): void {
+    this.core.writeMemory(address, data);
+  }
+
+  /* ---------- PPU 查看 ---------- */
+
+  /** 暂停或停止时不会再模拟新的画面行，直接取当前状态 */
+  capturePpu(options: PpuCaptureOptions, scanline: number | null): PpuSnapshot | Promise<PpuSnapshot> {
+    if (scanline === null || !this.isRunning || this.isPaused) {
+      return this.core.capturePpu(options);
+    }
+    return new Promise((resolve) => this.core.requestPpuCapture(options, scanline, resolve));
+  }
+
+  /* ---------- 调试器 ---------- */
+
+  setDebugMode(enabled: boolean): void {
+    this.core.setDebugMode(enabled);
+  }
+
+  setBreakpoints(breakpoints: Breakpoint[]): void {
+    this.core.setBreakpoints(breakpoints);
+  }
+
+  getDebugState(): DebugState {
+    return this.core.getDebugState();
+  }
+
+  /** 单步前先暂停；停下后立即呈现最近一帧完整的画面 */
+  debugStep(until: DebugUntil): DebugState {
+    this.pause();
+    this.core.debugRun(until);
+    this.core.present();
+    return this.core.getDebugState();
+  }
+
+  getTrace(): string {
+    return this.core.getTrace();
+  }
+
+  /* ---------- 状态推送 ---------- */
+
+  private notify(): void {
+    const state: CoreState = {
+      isRunning: this.isRunning,
+      isPaused: this.isPaused,
+      fps: {
+        emulated: this.fpsMeter.emulated,
+        presented: this.fpsMeter.presented,
+      },
+      speed: this.effectiveSpeed,
+      fastForward: this.fastForwardHeld || this.fastForwardLatched,
+      rewinding: this.rewinding,
+      movie: this.core.movieStatus,
+      frame: this.core.framesSincePowerOn,
+    };
+    this.lastNotify = performance.now();
+    post({ type: 'state', state });
+  }
+}
+
+const runner = new WorkerRunner();
+
+const handlers: { [K in Command]: (params: CommandParams<K>) => CommandResult<K> | Promise<CommandResult<K>> } = {
+  attachCanvas: ({ canvas }) => runner.attachCanvas(canvas),
+  loadRom: ({ rom, sram }) => runner.loadRom(rom, sram),
+  start: () => runner.start(),
+  pause: () => runner.pause(),
+  resume: () => runner.resume(),
+  frameAdvance: () => runner.frameAdvance(),
+  pauseAfter: ({ frames }) => runner.pauseAfter(frames),
+  stop: () => runner.stop(),
+  reset: () => runner.reset(),
+  powerCycle: () => runner.powerCycle(),
+  button: ({ player, button, pressed }) => runner.button(player, button, pressed),
+  hotkey: ({ action, pressed }) => runner.handleHotkey(action, pressed),
+  setSpeed: ({ speed }) => runner.setSpeed(speed),
+  setFastForwardSpeed: ({ speed }) => runner.setFastForwardSpeed(speed),
+  toggleFastForward: () => runner.toggleFastForward(),
+  setRewindOptions: ({ options }) => runner.setRewindOptions(options),
+  captureState: () => runner.captureState(),
+  restoreState: ({ snapshot }) => runner.restoreState(snapshot),
+  readSram: ({ onlyIfDirty }) => runner.readSram(onlyIfDirty),
+  importSram: ({ data }) => runner.importSram(data),
+  recordMovie: ({ from, romFilename }) => runner.recordMovie(from, romFilename),
+  playMovie: ({ movie }) => runner.playMovie(movie),
+  stopMovie: () => runner.stopMovie(),
+  takeOverMovie: () => runner.takeOverMovie(),
+  getMovie: () => runner.getMovie(),
+  setPalette: ({ colors }) => runner.setPalette(colors),
+  setVideoFilters: ({ filters }) => runner.setVideoFilters(filters),
+  setOverscan: ({ overscan }) => runner.setOverscan(overscan),
+  setCheats: ({ patches }) => runner.setCheats(patches),
+  readMemory: () => runner.readMemory(),
+  writeMemory: ({ address, data }) => runner.writeMemory(address, data),
+  capturePpu: ({ options, scanline }) => runner.capturePpu(options, scanline),
+  setDebugMode: ({ enabled }) => runner.setDebugMode(enabled),
+  setBreakpoints: ({ breakpoints }) => runner.setBreakpoints(breakpoints),
+  getDebugState: () => runner.getDebugState(),
+  debugStep: ({ until }) => runner.debugStep(until),
+  getTrace: () => runner.getTrace(),
+};
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const { id, type, params } = e.data;
+  try {
+    const result = await (handlers[type] as (p: unknown) => unknown)(params);
+    if (id !== null) post({ type: 'reply', id, result });
+  } catch (err) {
+    if (id === null) {
+      console.error(`Worker command "${type}" failed:`, err);
+    } else {
+      post({ type: 'reply', id, error: (err as Error).message });
+    }
+  }
+};
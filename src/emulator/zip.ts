@@ -0,0 +1,80 @@
+/**
+ * 极简 zip 读取
+ * 只读中央目录并解出单个文件，支持存储（0）与 deflate（8）两种压缩方式，
+ * 解压使用浏览器自带的 DecompressionStream；不支持 zip64 与加密
+ */
+
+/** zip 中的一个文件 */
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  /** 本地文件头的偏移 */
+  offset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+/** 中央目录结束记录的最小长度，之后最多跟 65535 字节的注释 */
+const EOCD_SIZE = 22;
+
+export function isZip(data: Uint8Array): boolean {
+  return data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+/** 列出 zip 中的所有文件（不含目录） */
+export function listZipEntries(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let eocd = -1;
+  for (let i = data.length - EOCD_SIZE; i >= Math.max(0, data.length - EOCD_SIZE - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid zip archive.');
+
+  const count = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== CENTRAL_SIGNATURE) throw new Error('Corrupt zip central directory.');
+    const nameLength = view.getUint16(pos + 28, true);
+    const name = decoder.decode(data.subarray(pos + 46, pos + 46 + nameLength));
+    if (!name.endsWith('/')) {
+      entries.push({
+        name,
+        method: view.getUint16(pos + 10, true),
+        compressedSize: view.getUint32(pos + 20, true),
+        size: view.getUint32(pos + 24, true),
+        offset: view.getUint32(pos + 42, true),
+      });
+    }
+    pos += 46 + nameLength + view.getUint16(pos + 30, true) + view.getUint16(pos + 32, true);
+  }
+  return entries;
+}
+
+/** 解出 zip 中的一个文件 */
+export async function extractZipEntry(
+  data: Uint8Array<ArrayBuffer>, entry: ZipEntry,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (view.getUint32(entry.offset, true) !== LOCAL_SIGNATURE) throw new Error('Corrupt zip entry.');
+  // 本地文件头的扩展字段长度可能与中央目录中的不同
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+  switch (entry.method) {
+    case 0:
+      return compressed.slice();
+    case 8: {
+      const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    default:
+      throw new Error(`Unsupported zip compression method ${entry.method}.`);
+  }
+}
@@ -1,8 +1,17 @@
-import { Game } from '@/types';
+import { Game, GamePatch } from '@/types';
 import { GAMES } from '@/data/games';
-import { NesEmulator } from '@/emulator';
-import { GameUI } from '@/components/ui';
+import {
+  NesEmulator, applyPatch, cacheGame, deleteLocalRom, getOfflineStatus, isOfflineSupported, listLocalRoms,
+  listOfflineRoms, localRomGame, patchId, readLocalRom, readRomFile, registerServiceWorker, romCrc32, saveLocalRom,
+  uncacheGame,
+} from '@/emulator';
+import { GameUI, type DevToolsTab } from '@/components/ui';
 import { VirtualGamepad } from '@/components/virtual-gamepad';
+import { MemoryViewer } from '@/components/memory-viewer';
+import { CheatSearchPanel } from '@/components/cheat-search';
+import { PpuViewer } from '@/components/ppu-viewer';
+import { CpuDebuggerPanel } from '@/components/cpu-debugger';
+import { RomInfoPanel } from '@/components/rom-info';
 
 /* ===========================
    Initialise modules
@@ -12,12 +21,44 @@ const appRoot = document.getElementById('app')!;
 
 const emulator = new NesEmulator();
 const gamepad = new VirtualGamepad();
+const memoryViewer = new MemoryViewer(emulator);
+const cheatSearch = new CheatSearchPanel({
+  readMemory: () => emulator.readMemory(),
+  addCheat: (code, name) => emulator.addCheat(code, name),
+  addWatch: (watch) => memoryViewer.addWatch(watch),
+});
+
+/** 本次会话中打开过的本地 ROM（未保存到「我的 ROM」的也在这里） */
+const sessionRoms = new Map<string, Uint8Array>();
+
+// 开发者面板各标签页的内容
+const devTools: Record<DevToolsTab, { show(parent: HTMLElement): void; hide(): void }> = {
+  memory: memoryViewer,
+  search: cheatSearch,
+  ppu: new PpuViewer(emulator),
+  debugger: new CpuDebuggerPanel(emulator),
+  rom: new RomInfoPanel(emulator),
+};
 
 const ui = new GameUI(appRoot, {
   onGameSelect: handleGameSelect,
+  onOpenRomFile: handleRomFile,
+  onRemoveLocalRom: async (id) => {
+    sessionRoms.delete(id);
+    await deleteLocalRom(id);
+    await refreshLocalRoms();
+  },
+  onGetOfflineStatus: () => getOfflineStatus(GAMES),
+  onSetGameOffline: async (game, offline) => {
+    await (offline ? cacheGame(game) : uncacheGame(game));
+    await refreshOfflineRoms();
+  },
   onPlayerStart: () => emulator.start(),
   onPlayerPause: () => emulator.pause(),
   onPlayerReset: () => emulator.reset(),
+  onPlayerPowerCycle: () => emulator.powerCycle(),
+  onFrameAdvance: () => emulator.frameAdvance(),
+  onPauseAfter: (frames) => emulator.pauseAfter(frames),
   onPlayerStop: () => {
     emulator.stop();
     gamepad.hide();
@@ -26,27 +67,79 @@ const ui = new GameUI(appRoot, {
     /* handled by UI class via CSS */
   },
   onPlayerMute: () => emulator.toggleMute(),
+  onSpeedChange: (speed) => emulator.setSpeed(speed),
+  onFastForwardToggle: () => emulator.toggleFastForward(),
   onKeysChanged: (keys) => {
     emulator.setKeysP1(keys);
   },
+  onSaveState: (slot) => emulator.saveState(slot),
+  onLoadState: (slot) => emulator.loadState(slot),
+  onListSaveStates: () => emulator.listSaveStates(),
+  onHasBatterySave: () => emulator.hasBatterySave(),
+  onHasSavedSram: () => emulator.hasSavedSram(),
+  onExportSram: () => emulator.exportSram(),
+  onImportSram: (data) => emulator.importSram(data),
+  onMovieRecord: (from) => emulator.recordMovie(from),
+  onMoviePlay: () => emulator.playMovie(),
+  onMovieStop: () => emulator.stopMovie(),
+  onMovieTakeOver: () => emulator.takeOverMovie(),
+  onMovieExport: () => emulator.exportMovie(),
+  onMovieImport: (text) => emulator.importMovie(text),
+  onGetPalette: () => emulator.getPalette(),
+  onPaletteChange: (choice, perGame) => emulator.setPalette(choice, perGame),
+  onPaletteImport: (data, name, perGame) => emulator.importPalette(data, name, perGame),
+  onClearGamePalette: () => emulator.clearGamePalette(),
+  onVideoFiltersChange: (filters) => emulator.setVideoFilters(filters),
+  onOverscanChange: (overscan) => emulator.setOverscan(overscan),
+  onListCheats: () => emulator.getCheats(),
+  onAddCheat: (code, name) => emulator.addCheat(code, name),
+  onUpdateCheat: (id, changes) => emulator.updateCheat(id, changes),
+  onRemoveCheat: (id) => emulator.removeCheat(id),
+  onDevToolsChange: (tab) => {
+    Object.values(devTools).forEach((panel) => panel.hide());
+    const container = ui.getDevToolsContainer();
+    if (tab && container) devTools[tab].show(container);
+  },
 });
 
 // Apply saved key config on startup
 emulator.setKeysP1(ui.getKeys());
+emulator.setVideoFilters(ui.getVideoFilters());
+emulator.setOverscan(ui.getDisplaySettings().overscan);
+
+// Keep the player header in sync with emulator status (speed etc.)
+emulator.subscribe((state) => ui.updatePlayerStatus(state));
+// worker 崩溃或消息无法解析时，在播放器中显示错误
+emulator.onError((err) => ui.showPlayerError(`模拟器出错：${err.message}`));
 
 /* ===========================
    Render
    =========================== */
 
 ui.render(GAMES);
+refreshLocalRoms().catch((err) => console.error('Failed to list local ROMs:', err));
+registerServiceWorker();
+refreshOfflineRoms().catch((err) => console.error('Failed to list offline games:', err));
+
+/** 重新读取「我的 ROM」列表 */
+async function refreshLocalRoms(): Promise<void> {
+  const roms = await listLocalRoms();
+  ui.setLocalGames(roms.map((rom) => localRomGame(rom, GAMES)));
+}
+
+/** 重新读取已离线缓存的游戏 */
+async function refreshOfflineRoms(): Promise<void> {
+  ui.setOfflineRoms(await listOfflineRoms());
+}
 
 /* ===========================
    Game selection handler
    =========================== */
 
-async function handleGameSelect(game: Game): Promise<void> {
+async function handleGameSelect(game: Game, patch?: GamePatch | File): Promise<void> {
   // Open the player modal
   ui.openPlayer(game);
+  cheatSearch.reset();
 
   // Get the canvas for the emulator
   const canvas = ui.getCanvas();
@@ -56,17 +149,38 @@ async function handleGameSelect(game: Game): Promise<void> {
   }
 
   try {
-    // Fetch the ROM file
-    const response = await fetch(`/roms/${game.romFile}`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ROM: ${response.status} ${response.statusText}`);
+    let romData = await fetchRom(game);
+    // 目录中的游戏先核对校验和，避免下载到损坏或其他版本的 ROM
+    const checksum = !game.local && game.crc32 ? romCrc32(romData) : null;
+    if (checksum && checksum !== game.crc32) {
+      console.error('ROM checksum mismatch:', game.romFile, checksum, 'expected', game.crc32);
+      ui.showPlayerError('ROM 已损坏或版本不符');
+      return;
+    }
+    // 首次游玩时在后台缓存 ROM 与封面，之后断网也能启动
+    if (!game.local && isOfflineSupported()) {
+      cacheGame(game, romData)
+        .then(refreshOfflineRoms)
+        .catch((err) => console.error('Failed to cache game for offline play:', err));
     }
 
-    const romData = await response.arrayBuffer();
+    // 打过补丁的游戏按补丁分开保存存档与金手指
+    let gameId = game.id;
+    if (patch) {
+      try {
+        const patchData = await fetchPatch(patch);
+        romData = applyPatch(romData, patchData);
+        gameId = `${game.id}@${patch instanceof File ? patchId(patchData) : patch.id}`;
+      } catch (err) {
+        console.error('Failed to apply patch:', err);
+        ui.showPlayerError(`补丁应用失败：${(err as Error).message}`);
+        return;
+      }
+    }
 
     // Attach canvas and load ROM into emulator
     emulator.attachCanvas(canvas);
-    emulator.loadRom(new Uint8Array(romData), game.id);
+    await emulator.loadRom(romData, gameId, game.cheats);
     ui.hidePlayerLoading();
     emulator.start();
 
@@ -88,6 +202,45 @@ async function handleGameSelect(game: Game): Promise<void> {
     }
   } catch (err) {
     console.error('Failed to load game:', game.title, err);
-    ui.hidePlayerLoading();
+    ui.showPlayerError('ROM 载入失败');
+  }
+}
+
+/** 取得游戏的 ROM 数据：内置游戏从 /roms 下载，本地 ROM 从本次会话或 IndexedDB 读取 */
+async function fetchRom(game: Game): Promise<Uint8Array> {
+  if (game.local) {
+    const data = sessionRoms.get(game.id) ?? (await readLocalRom(game.id))?.data;
+    if (!data) throw new Error(`Local ROM not found: ${game.title}`);
+    return data;
+  }
+  const response = await fetch(`/roms/${game.romFile}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ROM: ${response.status} ${response.statusText}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/** 读取补丁：目录中的补丁从 /patches 下载，用户导入的直接读取文件 */
+async function fetchPatch(patch: GamePatch | File): Promise<Uint8Array> {
+  if (patch instanceof File) return new Uint8Array(await patch.arrayBuffer());
+  const response = await fetch(`/patches/${patch.file}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch patch: ${response.status} ${response.statusText}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/* ===========================
+   Local ROM files
+   =========================== */
+
+/** 打开拖入或选择的 .nes / .zip 文件，按需保存到「我的 ROM」后开始游戏 */
+async function handleRomFile(file: File, keep: boolean): Promise<void> {
+  const rom = await readRomFile(file);
+  sessionRoms.set(rom.id, rom.data);
+  if (keep) {
+    await saveLocalRom(rom);
+    await refreshLocalRoms();
   }
+  await handleGameSelect(localRomGame(rom, GAMES));
 }
@@ -0,0 +1,88 @@
+/**
+ * Service worker
+ * 预缓存应用外壳（页面与打包产物），离线时从缓存启动；
+ * ROM 与封面由页面写入游戏缓存（见 emulator/offline.ts），这里在所有缓存中查找，命中即直接返回。
+ * 构建时由 vite.config.ts 编译为 /sw.js，并注入预缓存清单与版本号
+ */
+
+export {};
+
+/** 构建时注入：需要预缓存的文件与清单版本 */
+declare const __PRECACHE__: string[];
+declare const __CACHE_VERSION__: string;
+
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+declare const self: {
+  addEventListener(type: 'install' | 'activate', listener: (e: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (e: FetchEvent) => void): void;
+  skipWaiting(): Promise<void>;
+  clients: { claim(): Promise<void> };
+  location: Location;
+};
+
+const SHELL_PREFIX = 'nes-arcade-shell-';
+const SHELL_CACHE = `${SHELL_PREFIX}${__CACHE_VERSION__}`;
+const FONTS_CACHE = 'nes-arcade-fonts';
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (e) => {
+  e.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(__PRECACHE__))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+// 新版本生效后删除旧版本的外壳缓存
+self.addEventListener('activate', (e) => {
+  e.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith(SHELL_PREFIX) && key !== SHELL_CACHE).map((key) => caches.delete(key)),
+      ))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', (e) => {
+  const request = e.request;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (FONT_HOSTS.includes(url.hostname)) {
+    e.respondWith(staleWhileRevalidate(request, FONTS_CACHE));
+    return;
+  }
+  if (url.origin !== self.location.origin) return;
+
+  // 页面优先走网络以获取新版本，离线时使用缓存的外壳
+  if (request.mode === 'navigate') {
+    e.respondWith(
+      fetch(request).catch(async () => (await caches.match('/')) ?? Response.error()),
+    );
+    return;
+  }
+  // ROM、封面与带哈希的打包产物内容不变，缓存命中即可直接返回
+  e.respondWith(caches.match(request).then((cached) => cached ?? fetch(request)));
+});
+
+/** 先返回缓存，同时在后台更新 */
+async function staleWhileRevalidate(request: Request, cacheName: string): Promise<Response> {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const network = fetch(request).then((response) => {
+    if (response.ok || response.type === 'opaque') void cache.put(request, response.clone());
+    return response;
+  });
+  if (!cached) return network;
+  network.catch(() => { /* 离线时沿用缓存 */ });
+  return cached;
+}
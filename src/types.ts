@@ -8,9 +8,37 @@ export interface Game {
   description: string;
   players: 1 | 2;
   romFile: string;
+  /** ROM 中 PRG+CHR 数据的 CRC32（大写十六进制，见 rom.ts），用于校验下载的 ROM 与识别本地 ROM */
+  crc32?: string;
   thumbnail?: string;
   rating?: number;
   tags?: string[];
+  /** 内置金手指，首次打开游戏时加入金手指列表（默认关闭） */
+  cheats?: CheatPreset[];
+  /** 用户导入的本地 ROM（不在 /roms 下，见 library.ts） */
+  local?: boolean;
+  /** 可选的补丁（汉化、修改版等），开始游戏时选择 */
+  patches?: GamePatch[];
+}
+
+/** 游戏的可选补丁，文件放在 /patches 下 */
+export interface GamePatch {
+  id: string;
+  name: string;
+  /** 补丁文件名（.ips / .bps / .ups） */
+  file: string;
+}
+
+/** 内置金手指：Game Genie 代码或 `地址:数值[:比较值]` 原始代码 */
+export interface CheatPreset {
+  name: string;
+  code: string;
+}
+
+/** 玩家金手指列表中的一项 */
+export interface Cheat extends CheatPreset {
+  id: string;
+  enabled: boolean;
 }
 
 /** 游戏分类 */
@@ -35,12 +63,108 @@ export interface GenreInfo {
   icon: string;
 }
 
+/** 帧率统计 */
+export interface FrameRate {
+  /** 每秒模拟的帧数 */
+  emulated: number;
+  /** 每秒实际呈现到画面上的帧数 */
+  presented: number;
+}
+
+/** 模拟速度：倍速或不限速的 turbo */
+export type EmulationSpeed = 0.25 | 0.5 | 1 | 2 | 4 | 'turbo';
+
+/** 可选的速度档位 */
+export const SPEED_PRESETS: EmulationSpeed[] = [0.25, 0.5, 1, 2, 4, 'turbo'];
+
+/** 速度显示标签 */
+export function speedLabel(speed: EmulationSpeed): string {
+  return speed === 'turbo' ? 'TURBO' : `${speed}x`;
+}
+
+/**
+ * 画面显示方式
+ * square：方形像素（1:1）；par87：NTSC 像素宽高比 8:7；tv：4:3 电视画面；
+ * integer：按设备像素比整数倍放大；stretch：拉伸铺满
+ */
+export type DisplayMode = 'square' | 'par87' | 'tv' | 'integer' | 'stretch';
+
+export const DISPLAY_MODES: { id: DisplayMode; label: string; hint: string }[] = [
+  { id: 'square', label: '1:1', hint: '方形像素' },
+  { id: 'par87', label: '8:7', hint: '像素宽高比' },
+  { id: 'tv', label: '4:3', hint: '电视画面' },
+  { id: 'integer', label: 'INTEGER', hint: '整数倍' },
+  { id: 'stretch', label: 'STRETCH', hint: '拉伸铺满' },
+];
+
+/** 过扫描裁切：四边各裁掉的 NES 像素数 */
+export interface Overscan {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+/** 每条边最多裁切的像素数 */
+export const MAX_OVERSCAN = 32;
+
+export interface DisplaySettings {
+  mode: DisplayMode;
+  overscan: Overscan;
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  mode: 'square',
+  overscan: { top: 0, bottom: 0, left: 0, right: 0 },
+};
+
 /** 模拟器状态 */
 export interface EmulatorState {
   isRunning: boolean;
   isPaused: boolean;
   currentGame: Game | null;
-  fps: number;
+  fps: FrameRate;
+  /** 当前实际生效的速度（快进时为快进速度） */
+  speed: EmulationSpeed;
+  /** 是否处于快进中（按住或锁定） */
+  fastForward: boolean;
+  /** 是否正在倒带 */
+  rewinding: boolean;
+  /** 正在录制或回放的录像，没有时为 null */
+  movie: MovieStatus | null;
+  /** 自上电（加载 ROM 或硬复位）以来模拟的帧数 */
+  frame: number;
+}
+
+/** 录像状态 */
+export interface MovieStatus {
+  mode: 'recording' | 'playing';
+  /** 当前位于录像的第几帧 */
+  frame: number;
+  /** 录像总帧数 */
+  length: number;
+  rerecordCount: number;
+}
+
+/** 观察地址的显示格式：无符号/有符号的 8 位或 16 位（小端序） */
+export type WatchFormat = 'u8' | 's8' | 'u16' | 's16';
+
+/** 内存观察列表中的一项 */
+export interface MemoryWatch {
+  address: number;
+  name: string;
+  format: WatchFormat;
+}
+
+/** 存档位：0-9 为编号存档位，'quick' 为快速存档位 */
+export type SaveSlot = number | 'quick';
+
+/** 存档位摘要信息（用于存档选择界面） */
+export interface SaveStateInfo {
+  slot: SaveSlot;
+  timestamp: number;
+  /** 存档时画面的缩略图（data URL） */
+  thumbnail: string;
 }
 
 /** 按键映射 — 每个动作支持一个或多个按键 */
@@ -91,6 +215,18 @@ export const DEFAULT_KEYS_P2: KeyMapping = {
   select: 'Numpad0',
 };
 
+/** 模拟器功能热键（与手柄按键独立） */
+export type HotkeyAction = 'fastForward' | 'fastForwardToggle' | 'rewind' | 'pause' | 'frameAdvance';
+
+/** 默认热键：按住 Tab 快进，` 键锁定/解除快进，按住 Backspace 倒带，P 暂停/继续，\ 单帧前进 */
+export const DEFAULT_HOTKEYS: Record<HotkeyAction, string> = {
+  fastForward: 'Tab',
+  fastForwardToggle: 'Backquote',
+  rewind: 'Backspace',
+  pause: 'KeyP',
+  frameAdvance: 'Backslash',
+};
+
 /** 将 KeyCode 转为可读的按键标签 */
 export function keyCodeToLabel(code: string): string {
   const map: Record<string, string> = {
@@ -107,6 +243,7 @@ export function keyCodeToLabel(code: string): string {
     Numpad0: 'Num0', Numpad1: 'Num1', Numpad2: 'Num2', Numpad3: 'Num3',
     Numpad4: 'Num4', Numpad5: 'Num5', Numpad6: 'Num6', Numpad7: 'Num7',
     Numpad8: 'Num8', Numpad9: 'Num9', NumpadAdd: 'Num+',
+    Tab: 'Tab', Backquote: '`', Backspace: 'Bksp',
   };
   return map[code] ?? code;
 }
@@ -1,7 +1,49 @@
-import { defineConfig } from 'vite';
+import { defineConfig, transformWithEsbuild, type Plugin } from 'vite';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
 import { resolve } from 'path';
 
+/** 与打包产物一起预缓存的 public 文件 */
+const PRECACHE_PUBLIC = ['/', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+/**
+ * 跨源隔离后页面才能使用 SharedArrayBuffer（AudioWorklet 的音频环形缓冲）；
+ * credentialless 允许不带凭据加载跨源资源，Google Fonts 不受影响。部署时需由服务器返回同样的响应头
+ */
+const CROSS_ORIGIN_ISOLATION = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless',
+};
+
+/**
+ * 构建时把 src/sw.ts 编译为 /sw.js，注入预缓存清单（页面与所有打包产物）
+ * 清单变化时版本号随之变化，浏览器会安装新的 service worker
+ */
+function serviceWorker(): Plugin {
+  return {
+    name: 'nes-arcade-sw',
+    apply: 'build',
+    enforce: 'post',
+    async generateBundle(_, bundle) {
+      const assets = Object.keys(bundle).filter((file) => !file.endsWith('.html')).map((file) => `/${file}`);
+      const precache = [...PRECACHE_PUBLIC, ...assets];
+      const version = createHash('sha1').update(precache.join('\n')).digest('hex').slice(0, 12);
+      const source = readFileSync(resolve(__dirname, 'src/sw.ts'), 'utf-8');
+      const { code } = await transformWithEsbuild(source, 'sw.ts', {
+        format: 'iife',
+        minify: true,
+        define: {
+          __PRECACHE__: JSON.stringify(precache),
+          __CACHE_VERSION__: JSON.stringify(version),
+        },
+      });
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: code });
+    },
+  };
+}
+
 export default defineConfig({
+  plugins: [serviceWorker()],
   resolve: {
     alias: {
       '@': resolve(__dirname, 'src'),
@@ -10,5 +52,9 @@ export default defineConfig({
   server: {
     port: 3000,
     open: true,
+    headers: CROSS_ORIGIN_ISOLATION,
+  },
+  preview: {
+    headers: CROSS_ORIGIN_ISOLATION,
   },
 });